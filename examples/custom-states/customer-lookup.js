@@ -0,0 +1,40 @@
+/**
+ * customer_lookup state type - finds a customer record in customers.json
+ *
+ * Fields:
+ *   customer_id - ID of the customer to find (supports {{variables}})
+ *   not_found   - State to continue to when there is no such customer (optional)
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const DATA_FILE = path.join(__dirname, 'customers.json');
+
+module.exports = {
+  validate(config) {
+    if (typeof config.customer_id !== 'string' || config.customer_id.trim() === '') {
+      throw new Error('customer_lookup needs a customer_id');
+    }
+    if (config.not_found !== undefined && typeof config.not_found !== 'string') {
+      throw new Error('customer_lookup not_found must be a state name');
+    }
+  },
+
+  execute(config, context) {
+    const customers = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+    const customer = customers[config.customer_id];
+    context.trace('customer_lookup', { customerId: config.customer_id, found: Boolean(customer) });
+
+    if (!customer) {
+      context.log('warning', `No customer with ID ${config.customer_id}`);
+      if (config.not_found) {
+        return { next: config.not_found };
+      }
+      throw new Error(`Customer ${config.customer_id} not found`);
+    }
+
+    context.log('success', `Found ${customer.name}`);
+    return { output: customer };
+  }
+};
@@ -0,0 +1,33 @@
+/**
+ * Runs user-input-demo.yaml from Node.js with the library API, answering its
+ * input states from a list and streaming the responses to the terminal.
+ *
+ * From a source checkout: npm run build && node examples/library-usage.js
+ */
+
+const path = require('path');
+const { runWorkflow } = require('../dist/index');  // require('@agentmech/agentmech') when installed
+
+const answers = ['Ada', 'London', 'tide pools'];
+
+async function main() {
+  const run = runWorkflow(path.join(__dirname, 'user-input-demo.yaml'), {
+    onInput: ({ prompt }) => {
+      const answer = answers.shift() || '';
+      console.log(`${prompt} ${answer}`);
+      return answer;
+    }
+  });
+
+  run.on('stateStart', ({ state }) => console.log(`\n[${state}]`));
+  run.on('token', ({ token }) => process.stdout.write(token));
+  run.on('error', ({ message }) => console.error(message));
+
+  const report = await run;
+  console.log(`\nRun ${report.status} after ${report.durationMs}ms, visiting ${report.history.join(' -> ')}`);
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,9 @@
+// Body of the average_rating script state: averages the ratings collected by
+// rate_reviews. Models sometimes add words around the number, so only the
+// first digit of each rating is used.
+const scores = ratings
+  .map(rating => parseInt((String(rating).match(/[1-5]/) || ['0'])[0], 10))
+  .filter(score => score > 0);
+const average = scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+
+return { average: Math.round(average * 10) / 10, count: scores.length };
@@ -0,0 +1,53 @@
+/**
+ * Stand-in for a local ticket tracker, used by http-ticket-summary.yaml
+ *
+ * Run with: node examples/services/ticket-tracker.js
+ *
+ * GET  /tickets/:id           - the ticket as JSON
+ * POST /tickets/:id/comments  - adds a comment ({ "text": "..." })
+ */
+
+const http = require('http');
+
+const PORT = Number(process.env.PORT) || 4010;
+
+const tickets = {
+  '101': {
+    id: 101,
+    title: 'Export to CSV drops the last row',
+    status: 'open',
+    description: 'When exporting a report with more than 500 rows, the CSV file is missing the final row. ' +
+      'Smaller reports export correctly. Seen in Chrome and Firefox since the pagination change.',
+    comments: []
+  }
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const match = req.url.match(/^\/tickets\/(\w+)(\/comments)?$/);
+    const ticket = match && tickets[match[1]];
+    if (!ticket) {
+      sendJson(res, 404, { error: 'Ticket not found' });
+    } else if (req.method === 'GET' && !match[2]) {
+      sendJson(res, 200, ticket);
+    } else if (req.method === 'POST' && match[2]) {
+      const comment = { id: ticket.comments.length + 1, ...JSON.parse(body || '{}') };
+      ticket.comments.push(comment);
+      console.log(`Comment added to ticket ${ticket.id}: ${comment.text}`);
+      sendJson(res, 201, comment);
+    } else {
+      sendJson(res, 405, { error: 'Method not allowed' });
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Ticket tracker listening on http://localhost:${PORT}`);
+});
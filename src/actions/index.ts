@@ -1,4 +1,5 @@
 export * from './run';
+export * from './resume';
 export * from './validate';
 export * from './list-models';
 export * from './serve';
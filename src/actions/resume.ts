@@ -0,0 +1,97 @@
+import WorkflowParser = require('../workflow/parser');
+import WorkflowExecutor = require('../workflow/executor');
+import * as RunDirectory from '../utils/run-directory';
+import { readCheckpoint } from '../utils/checkpoint';
+import Tracer = require('../utils/tracer');
+import * as path from 'path';
+import CliFormatter from '../utils/cli-formatter';
+import { AnswerQueue, readAnswersFile } from '../utils/answers';
+import { TerminalAdapter } from '../io/terminal-adapter';
+
+interface ResumeOptions {
+  ollamaUrl: string;
+  trace: boolean;
+  logFile?: string;
+  nonInteractive?: boolean;
+  answersFile?: string;
+}
+
+export async function resume(runDir: string, options: ResumeOptions) {
+    try {
+      const runDirPath = path.resolve(runDir);
+      const metadata = RunDirectory.readRunMetadata(runDirPath);
+      if (!metadata.workflowFile) {
+        throw new Error(`Run directory does not record its workflow file and cannot be resumed: ${runDirPath}`);
+      }
+
+      const checkpoint = readCheckpoint(runDirPath);
+      if (checkpoint.status === 'completed') {
+        console.log(CliFormatter.success(`Run already completed: ${CliFormatter.path(runDirPath)}`));
+        return;
+      }
+
+      // Parse the workflow file the run was started with
+      console.log(CliFormatter.loading(`Loading workflow from: ${CliFormatter.path(metadata.workflowFile)}`));
+      const workflow = WorkflowParser.parseFile({filePath: metadata.workflowFile, workflowDir: '', visitedFiles: new Set()});
+      console.log(CliFormatter.success(`Workflow "${CliFormatter.highlight(workflow.name)}" loaded successfully`));
+      console.log(CliFormatter.folder(`Resuming run in: ${CliFormatter.path(runDirPath)}`) + '\n');
+
+      // Validate options
+      if (options.logFile && !options.trace) {
+        console.log(CliFormatter.warning('--log-file requires --trace to be enabled. Enabling tracing automatically.') + '\n');
+        options.trace = true;
+      }
+
+      // Trace events are appended to the run's existing log by default
+      const logFilePath = options.logFile || (options.trace ? RunDirectory.getTraceLogPath(runDirPath) : undefined);
+      const tracer = new Tracer(options.trace, logFilePath);
+      if (options.trace && logFilePath) {
+        console.log(CliFormatter.file(`Logging to file: ${CliFormatter.path(logFilePath)}`) + '\n');
+      }
+
+      const executor = new WorkflowExecutor(workflow, options.ollamaUrl, tracer, runDirPath);
+      executor.setAdapter(new TerminalAdapter());
+      if (options.nonInteractive || options.answersFile) {
+        executor.setNonInteractive(options.answersFile ? new AnswerQueue(readAnswersFile(path.resolve(options.answersFile))) : undefined);
+      }
+
+      // Handle graceful shutdown on Ctrl+C
+      const handleStop = () => {
+        executor.stop();
+      };
+
+      process.on('SIGINT', handleStop);
+      process.on('SIGTERM', handleStop);
+
+      await executor.resume(checkpoint);
+
+      // Remove signal handlers
+      process.removeListener('SIGINT', handleStop);
+      process.removeListener('SIGTERM', handleStop);
+
+      // Close the tracer to flush file stream
+      tracer.close();
+
+      printResumeHint(runDirPath);
+      console.log('\n' + CliFormatter.folder(`Workflow files saved to: ${CliFormatter.path(runDirPath)}`));
+
+    } catch (error: any) {
+      console.error('\n' + CliFormatter.error(error.message));
+      printResumeHint(path.resolve(runDir));
+      process.exit(1);
+    }
+  }
+
+/**
+ * Tell the user how to continue a run that did not complete
+ * @param runDirPath - Path to the run directory
+ */
+export function printResumeHint(runDirPath: string): void {
+  try {
+    if (readCheckpoint(runDirPath).status !== 'completed') {
+      console.log('\n' + CliFormatter.info(`Progress saved. Resume with: agentmech resume ${runDirPath}`));
+    }
+  } catch (error) {
+    // No checkpoint to resume from
+  }
+}
@@ -4,14 +4,37 @@ import * as RunDirectory from '../utils/run-directory';
 import Tracer = require('../utils/tracer');
 import * as path from 'path';
 import CliFormatter from '../utils/cli-formatter';
+import { printResumeHint } from './resume';
+import { InputDefinition, findMissingInputs, parseVarAssignments, readInputsFile, resolveInputs } from '../utils/workflow-inputs';
+import { AnswerQueue, readAnswersFile } from '../utils/answers';
+import { OUTPUT_FORMATS, OutputFormat, RunEvent, RunRecorder, redirectStdoutToStderr } from '../utils/run-report';
+import { TerminalAdapter } from '../io/terminal-adapter';
+import * as readline from 'readline';
 
 interface RunOptions {
   ollamaUrl: string;
   trace: boolean;
   logFile?: string;
+  var?: string[];
+  inputsFile?: string;
+  nonInteractive?: boolean;
+  answersFile?: string;
+  output?: string;
 }
 
 export async function run(workflowFile: string, options: RunOptions) {
+    const format = (options.output || 'text') as OutputFormat;
+    if (!OUTPUT_FORMATS.includes(format)) {
+      console.error(CliFormatter.error(`Invalid --output "${options.output}". Use one of: ${OUTPUT_FORMATS.join(', ')}`));
+      process.exit(1);
+    }
+    
+    // Machine-readable output owns stdout; everything else goes to stderr
+    const machineOutput = format !== 'text' ? redirectStdoutToStderr() : undefined;
+    const writeEvent = format === 'jsonl' ? (event: RunEvent) => machineOutput!.write(JSON.stringify(event) + '\n') : undefined;
+    let recorder: RunRecorder | undefined;
+    
+    let runDirPath: string | undefined;
     try {
       // Parse the workflow file
       const workflowPath = path.resolve(workflowFile);
@@ -20,12 +43,31 @@ export async function run(workflowFile: string, options: RunOptions) {
       const workflow = WorkflowParser.parseFile({filePath: workflowPath, workflowDir: '', visitedFiles: new Set()});
       console.log(CliFormatter.success(`Workflow "${CliFormatter.highlight(workflow.name)}" loaded successfully`));
       
+      // Collect input values: --var assignments override values from --inputs-file
+      const provided = {
+        ...(options.inputsFile ? readInputsFile(path.resolve(options.inputsFile)) : {}),
+        ...parseVarAssignments(options.var || [])
+      };
+      if (options.answersFile && !options.nonInteractive) {
+        console.log(CliFormatter.warning('--answers-file requires --non-interactive. Enabling non-interactive mode automatically.') + '\n');
+        options.nonInteractive = true;
+      }
+      const answers = options.answersFile ? new AnswerQueue(readAnswersFile(path.resolve(options.answersFile))) : undefined;
+      
+      const missing = findMissingInputs(workflow.inputs, provided);
+      if (missing.length > 0 && !options.nonInteractive) {
+        Object.assign(provided, await askForInputs(workflow.inputs!, missing));
+      }
+      const inputs = resolveInputs(workflow.inputs, provided, { fileBaseDir: process.cwd() });
+      
       // Create unique run directory for this workflow execution
       const runDirInfo = RunDirectory.createRunDirectory(workflow.name);
       console.log(CliFormatter.folder(`Run directory created: ${CliFormatter.path(runDirInfo.path)}`) + '\n');
       
-      // Write run metadata
-      RunDirectory.writeRunMetadata(runDirInfo);
+      runDirPath = runDirInfo.path;
+      
+      // Write run metadata, including the workflow file so the run can be resumed
+      RunDirectory.writeRunMetadata(runDirInfo, workflowPath);
       
       // Determine log file path
       let logFilePath = options.logFile;
@@ -53,6 +95,15 @@ export async function run(workflowFile: string, options: RunOptions) {
       
       // Execute the workflow with run directory
       const executor = new WorkflowExecutor(workflow, options.ollamaUrl, tracer, runDirInfo.path);
+      executor.setAdapter(new TerminalAdapter());
+      executor.setInputs(inputs);
+      if (machineOutput) {
+        recorder = new RunRecorder(workflow.name, runDirInfo.path, writeEvent);
+        executor.setRecorder(recorder);
+      }
+      if (options.nonInteractive) {
+        executor.setNonInteractive(answers);
+      }
       
       // Handle graceful shutdown on Ctrl+C
       const handleStop = () => {
@@ -71,10 +122,56 @@ export async function run(workflowFile: string, options: RunOptions) {
       // Close the tracer to flush file stream
       tracer.close();
       
+      printResumeHint(runDirInfo.path);
       console.log('\n' + CliFormatter.folder(`Workflow files saved to: ${CliFormatter.path(runDirInfo.path)}`));
       
+      if (format === 'json') {
+        machineOutput!.write(JSON.stringify(recorder!.getReport(), null, 2) + '\n');
+      }
+      machineOutput?.restore();
+      
     } catch (error: any) {
       console.error('\n' + CliFormatter.error(error.message));
+      if (runDirPath) {
+        printResumeHint(runDirPath);
+      }
+      
+      if (machineOutput) {
+        // Failures before the first state (invalid workflow or inputs) still produce a report
+        if (!recorder || !recorder.getReport()) {
+          recorder = recorder || new RunRecorder(workflowFile, runDirPath, writeEvent);
+          recorder.runFinished('failed', {}, [], error.message);
+        }
+        if (format === 'json') {
+          machineOutput.write(JSON.stringify(recorder.getReport(), null, 2) + '\n');
+        }
+        machineOutput.restore();
+      }
       process.exit(1);
     }
-  }
\ No newline at end of file
+  }
+
+/**
+ * Ask on the terminal for required inputs that were not given
+ * @param definitions - Declared inputs
+ * @param names - Names of the inputs to ask for
+ * @returns Entered values by input name (empty answers are left out)
+ */
+async function askForInputs(definitions: Record<string, InputDefinition>, names: string[]): Promise<Record<string, string>> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const values: Record<string, string> = {};
+  try {
+    for (const name of names) {
+      const definition = definitions[name];
+      const hint = definition.type === 'enum' ? `one of ${definition.values!.join(', ')}` : definition.type;
+      const label = `${definition.description || name} [${name}, ${hint}]: `;
+      const answer = await new Promise<string>(resolve => rl.question(CliFormatter.info(label), resolve));
+      if (answer.trim() !== '') {
+        values[name] = answer;
+      }
+    }
+  } finally {
+    rl.close();
+  }
+  return values;
+}
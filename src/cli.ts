@@ -6,6 +6,13 @@ import packageJson from '../package.json';
 
 const program = new Command();
 
+/**
+ * Collect the values of a repeatable option
+ */
+function collectValues(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 program
   .name('agentmech')
   .description('A CLI tool for running AI workflows locally with Ollama')
@@ -18,8 +25,24 @@ program
   .option('-u, --ollama-url <url>', 'Ollama API URL', 'http://localhost:11434')
   .option('-t, --trace', 'Enable tracing/observability for workflow execution', false)
   .option('-l, --log-file <path>', 'Path to file for logging trace events')
+  .option('--var <key=value>', 'Set a workflow input (repeatable)', collectValues, [])
+  .option('--inputs-file <path>', 'JSON file with workflow input values')
+  .option('--non-interactive', 'Never wait for terminal input; fail input states that have no provided answer', false)
+  .option('--answers-file <path>', 'JSON or YAML file with answers for input states (implies --non-interactive)')
+  .option('-o, --output <format>', 'Output format: text, json (one document at the end) or jsonl (one event per line)', 'text')
   .action(Actions.run);
 
+program
+  .command('resume')
+  .description('Resume an interrupted workflow run from its last completed state')
+  .argument('<run-dir>', 'Path to the run directory of the interrupted run')
+  .option('-u, --ollama-url <url>', 'Ollama API URL', 'http://localhost:11434')
+  .option('-t, --trace', 'Enable tracing/observability for workflow execution', false)
+  .option('-l, --log-file <path>', 'Path to file for logging trace events')
+  .option('--non-interactive', 'Never wait for terminal input; fail input states that have no provided answer', false)
+  .option('--answers-file <path>', 'JSON or YAML file with answers for input states (implies --non-interactive)')
+  .action(Actions.resume);
+
 program
   .command('validate')
   .description('Validate a workflow YAML file')
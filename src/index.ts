@@ -0,0 +1,20 @@
+/**
+ * AgentMech library entry point
+ * Lets Node.js code run workflows and listen to their events without the CLI
+ */
+
+import WorkflowParser = require('./workflow/parser');
+import WorkflowExecutor = require('./workflow/executor');
+
+export { runWorkflow, RunWorkflowOptions, WorkflowRun } from './workflow/run-workflow';
+export { WorkflowEventMap, WorkflowEventName, WorkflowEventListener, InputRequest, InputHandler, ApprovalRequest, ApprovalDecision, ApprovalHandler, LogLevel } from './workflow/events';
+export { RunReport, RunStatus, StateRecord } from './utils/run-report';
+export { Workflow, State } from './workflow/workflow';
+export { WorkflowSpec } from './workflow/spec';
+export { registerStateType, unregisterStateType, StateTypeHandler, StateTypeContext, StateTypeResult } from './workflow/state-types';
+export { IOAdapter } from './io/io-adapter';
+export { HeadlessAdapter } from './io/headless-adapter';
+export { TerminalAdapter } from './io/terminal-adapter';
+export { SseAdapter } from './io/sse-adapter';
+export { MockAdapter, RecordedEvent } from './io/mock-adapter';
+export { WorkflowParser, WorkflowExecutor };
@@ -0,0 +1,25 @@
+/**
+ * Headless Adapter
+ * Runs without any output, for runs embedded in other programs
+ */
+
+import { IOAdapter } from './io-adapter';
+import { ApprovalHandler, InputHandler } from '../workflow/events';
+
+export class HeadlessAdapter implements IOAdapter {
+  requestInput?: InputHandler;
+  requestApproval?: ApprovalHandler;
+
+  /**
+   * @param onInput - Answers input states; without it the run is non-interactive
+   * @param onApproval - Decides approval states; without it they use their default decision
+   */
+  constructor(onInput?: InputHandler, onApproval?: ApprovalHandler) {
+    this.requestInput = onInput;
+    this.requestApproval = onApproval;
+  }
+
+  attach(): void {
+    // Nothing is shown; callers listen to the events they need
+  }
+}
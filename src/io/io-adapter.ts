@@ -0,0 +1,40 @@
+/**
+ * I/O Adapter
+ * Connects a workflow run to where it is shown and answered: the terminal,
+ * the web UI, a test harness or nothing at all (headless)
+ */
+
+import WorkflowExecutor = require('../workflow/executor');
+import { ApprovalHandler, InputHandler } from '../workflow/events';
+
+export interface IOAdapter {
+  /**
+   * Start showing the run, by listening to the executor's events
+   * @param executor - Executor running the workflow
+   */
+  attach(executor: WorkflowExecutor): void;
+
+  /**
+   * Answer an input state. Without it, input states are answered the
+   * non-interactive way: from provided inputs or their default value.
+   */
+  requestInput?: InputHandler;
+
+  /**
+   * Ask a person to approve, reject or edit the content of an approval state.
+   * Without it, approval states are decided the non-interactive way: from
+   * scripted answers or their default decision.
+   */
+  requestApproval?: ApprovalHandler;
+
+  /**
+   * Give up on an input or approval request that is waiting, because the run
+   * was stopped or the approval timed out
+   */
+  cancelInput?(): void;
+
+  /**
+   * Release the adapter's resources once the run has ended
+   */
+  close?(): void;
+}
@@ -0,0 +1,73 @@
+/**
+ * Mock Adapter
+ * Answers input states from fixed values and records the run's events, for
+ * test scenarios and other automated checks of a workflow
+ */
+
+import WorkflowExecutor = require('../workflow/executor');
+import { IOAdapter } from './io-adapter';
+import { ApprovalDecision, ApprovalRequest, InputRequest, WORKFLOW_EVENTS, WorkflowEventMap, WorkflowEventName, parseApprovalAnswer } from '../workflow/events';
+
+export interface RecordedEvent<K extends WorkflowEventName = WorkflowEventName> {
+  name: K;
+  event: WorkflowEventMap[K];
+}
+
+export class MockAdapter implements IOAdapter {
+  private inputs: Map<string, string>;
+  private events: RecordedEvent[] = [];
+
+  /**
+   * @param inputs - Answers by input or approval state name; other input states get an empty answer (their
+   * default value), and other approval states their default decision or approval
+   */
+  constructor(inputs: Record<string, string> = {}) {
+    this.inputs = new Map(Object.entries(inputs));
+  }
+
+  /**
+   * Record every event of the run
+   * @param executor - Executor running the workflow
+   */
+  attach(executor: WorkflowExecutor): void {
+    for (const name of WORKFLOW_EVENTS) {
+      executor.on(name, (event: any) => this.events.push({ name, event }));
+    }
+  }
+
+  /**
+   * Answer an input state with its mocked value
+   * @param request - Input request of the state
+   * @returns The mocked value, or an empty answer
+   */
+  async requestInput(request: InputRequest): Promise<string> {
+    return this.inputs.get(request.state) || '';
+  }
+
+  /**
+   * Decide an approval state with its mocked answer: "approve", "reject", or the edited text
+   * @param request - Approval request of the state
+   * @returns The mocked decision, or the state's default decision (approve if it has none)
+   */
+  async requestApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+    const answer = this.inputs.get(request.state);
+    return answer ? parseApprovalAnswer(answer) : { decision: request.defaultDecision || 'approve' };
+  }
+
+  /**
+   * Get the recorded events
+   * @param name - Only return events with this name
+   * @returns Recorded events, in the order they happened
+   */
+  getEvents<K extends WorkflowEventName>(name?: K): RecordedEvent<K>[] {
+    return (name ? this.events.filter(recorded => recorded.name === name) : this.events) as RecordedEvent<K>[];
+  }
+
+  /**
+   * Get the end of the run
+   * @returns The workflowEnd event, or undefined if the run has not ended
+   */
+  getResult(): WorkflowEventMap['workflowEnd'] | undefined {
+    return this.getEvents('workflowEnd')[0]?.event;
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * SSE Adapter
+ * Streams a workflow run to the web UI with server-sent events
+ */
+
+import { Response } from 'express';
+import WorkflowExecutor = require('../workflow/executor');
+import { IOAdapter } from './io-adapter';
+import { ApprovalDecision, ApprovalRequest, InputRequest, LogLevel } from '../workflow/events';
+
+const INPUT_TIMEOUT_MS = 300000; // 5 minutes
+
+interface ExecutionEvent {
+  type: 'log' | 'prompt' | 'input' | 'approval' | 'response' | 'error' | 'complete' | 'state_change' | 'stopped' | 'prompt_sent' | 'response_start' | 'response_token' | 'response_end' | 'approval_end';
+  message?: string;
+  data?: any;
+}
+
+// Markers the web UI shows in front of log messages of these levels
+const LOG_PREFIXES: Partial<Record<LogLevel, string>> = {
+  success: '✓ ',
+  warning: '⚠ ',
+  tool: '🔧 ',
+  stop: '🛑 '
+};
+
+/**
+ * Shows a workflow run in the web UI: the executor's events are streamed to
+ * the browser over SSE, and input and approval states wait for input posted back by the page
+ */
+export class SseAdapter implements IOAdapter {
+  private sseResponse: Response;
+  private sessionId: string;
+  private pendingInput?: { resolve: (value: any) => void; reject: (error: any) => void };
+
+  /**
+   * @param res - Response of the execute request, kept open to stream events
+   * @param sessionId - Session the page posts input and stop requests for
+   */
+  constructor(res: Response, sessionId: string) {
+    this.sseResponse = res;
+    this.sessionId = sessionId;
+  }
+
+  /**
+   * Open the event stream and forward the run's events to it
+   * @param executor - Executor running the workflow
+   */
+  attach(executor: WorkflowExecutor): void {
+    // Note: writeHead() must come before any other response methods like res.json()
+    this.sseResponse.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+
+    // Send session ID as the first event
+    this.sendEvent({
+      type: 'log',
+      message: 'Connected',
+      data: { sessionId: this.sessionId }
+    });
+
+    this.forwardEvents(executor);
+  }
+
+  /**
+   * Send an event to the client via SSE
+   */
+  private sendEvent(event: ExecutionEvent): void {
+    this.sseResponse.write(`data: ${JSON.stringify(event)}\n\n`);
+  }
+
+  /**
+   * Provide user input to resolve a pending input request: the text of an
+   * input state, or the decision of an approval state
+   */
+  provideInput(input: string | ApprovalDecision): void {
+    if (this.pendingInput) {
+      this.pendingInput.resolve(input);
+      this.pendingInput = undefined;
+    }
+  }
+
+  /**
+   * Wait for the page to post input for an input state
+   * @param request - Input request of the state
+   * @returns The posted input
+   */
+  requestInput(request: InputRequest): Promise<string> {
+    return this.waitForInput({ type: 'input', data: { defaultValue: request.defaultValue } });
+  }
+
+  /**
+   * Show an approval state's content in the page and wait for the decision posted back
+   * @param request - Approval request of the state
+   * @returns The posted decision
+   */
+  requestApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+    return this.waitForInput({
+      type: 'approval',
+      message: request.prompt,
+      data: { content: request.content, defaultDecision: request.defaultDecision }
+    });
+  }
+
+  /**
+   * Send an event asking the page for input and wait for the answer
+   * @param event - Event that shows the input controls
+   * @returns The posted input
+   */
+  private waitForInput(event: ExecutionEvent): Promise<any> {
+    return new Promise((resolve, reject) => {
+      // Set timeout to prevent hanging forever
+      const timer = setTimeout(() => {
+        if (this.pendingInput) {
+          this.pendingInput.reject(new Error('Input timeout'));
+          this.pendingInput = undefined;
+        }
+      }, INPUT_TIMEOUT_MS);
+
+      this.pendingInput = {
+        resolve: (value: any) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (error: any) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+      this.sendEvent(event);
+    });
+  }
+
+  /**
+   * Cancel a pending input request because the run was stopped
+   */
+  cancelInput(): void {
+    if (this.pendingInput) {
+      this.pendingInput.reject(new Error('Workflow stopped by user'));
+      this.pendingInput = undefined;
+    }
+  }
+
+  /**
+   * Close the event stream once the run has ended
+   */
+  close(): void {
+    this.sseResponse.end();
+  }
+
+  /**
+   * Translate the executor's events into the events the web UI understands
+   * @param executor - Executor running the workflow
+   */
+  private forwardEvents(executor: WorkflowExecutor): void {
+    executor.on('workflowStart', event => {
+      this.sendEvent({ type: 'log', message: `Starting Workflow: ${event.workflow}` });
+      if (event.description) {
+        this.sendEvent({ type: 'log', message: event.description });
+      }
+    });
+
+    executor.on('stateStart', event => {
+      this.sendEvent({ type: 'state_change', message: `State: ${event.state}`, data: { stateName: event.state } });
+    });
+
+    executor.on('log', event => {
+      this.sendEvent({ type: 'log', message: (LOG_PREFIXES[event.level] || '') + event.message, data: { level: event.level } });
+    });
+
+    executor.on('prompt', event => {
+      this.sendEvent({ type: 'prompt_sent', message: 'Full prompt sent to model', data: { fullPrompt: event.prompt, model: event.model } });
+    });
+
+    executor.on('responseStart', () => {
+      this.sendEvent({ type: 'response_start', message: 'Starting to generate response...' });
+    });
+
+    executor.on('token', event => {
+      this.sendEvent({ type: 'response_token', message: event.token });
+    });
+
+    executor.on('responseEnd', event => {
+      if (event.streamed) {
+        this.sendEvent({ type: 'response_end', message: event.response, data: { response: event.response } });
+      }
+    });
+
+    executor.on('toolCall', event => {
+      const label = event.server ? `${event.server}.${event.tool}` : event.tool;
+      this.sendEvent({
+        type: 'log',
+        message: event.error
+          ? `⚠ Tool ${label} failed: ${event.error}`
+          : `🔧 Called tool ${label} with ${JSON.stringify(event.arguments)}`,
+        data: event
+      });
+    });
+
+    executor.on('inputRequested', event => {
+      if (event.prompt) {
+        this.sendEvent({ type: 'log', message: event.prompt });
+      }
+    });
+
+    executor.on('stateComplete', event => {
+      if (event.stateType === 'input') {
+        this.sendEvent({ type: 'log', message: `Input: ${event.output}` });
+      } else if (event.stateType === 'approval') {
+        this.sendEvent({ type: 'approval_end' });
+      }
+    });
+
+    executor.on('error', event => {
+      this.sendEvent({ type: 'error', message: event.message });
+    });
+
+    executor.on('workflowEnd', event => {
+      if (event.status === 'stopped') {
+        this.sendEvent(event.reason
+          ? { type: 'stopped', message: `Workflow Stopped: ${event.reason}`, data: { reason: event.reason } }
+          : { type: 'stopped', message: 'Workflow Stopped by User' });
+      } else if (event.status === 'completed') {
+        this.sendEvent({ type: 'complete', message: 'Workflow Completed' });
+      } else {
+        this.sendEvent({ type: 'error', message: event.error });
+      }
+    });
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Terminal Adapter
+ * Shows a workflow run on the terminal and asks for input on stdin, the way `agentmech run` does
+ */
+
+import * as readline from 'readline';
+import WorkflowExecutor = require('../workflow/executor');
+import { IOAdapter } from './io-adapter';
+import { ApprovalDecision, ApprovalRequest, InputRequest, LogLevel } from '../workflow/events';
+import CliFormatter from '../utils/cli-formatter';
+
+const LOG_FORMATS: Record<LogLevel, (message: string) => string> = {
+  info: CliFormatter.info,
+  success: CliFormatter.success,
+  warning: CliFormatter.warning,
+  loading: CliFormatter.loading,
+  step: CliFormatter.step,
+  tool: CliFormatter.tool,
+  rag: CliFormatter.rag,
+  model: CliFormatter.model,
+  image: CliFormatter.image,
+  ai: CliFormatter.ai,
+  stop: CliFormatter.stop
+};
+
+// Messages that start a new section of the output get a blank line before them
+const SPACED_LEVELS: LogLevel[] = ['step', 'stop'];
+
+export class TerminalAdapter implements IOAdapter {
+  private rl?: readline.Interface;
+  private bufferedLines: string[] = [];  // Lines entered before they were asked for, e.g. piped in ahead
+  private lineWaiter?: (line: string) => void;
+
+  /**
+   * Print the run's progress, streamed responses and errors
+   * @param executor - Executor running the workflow
+   */
+  attach(executor: WorkflowExecutor): void {
+    executor.on('workflowStart', event => {
+      console.log('\n' + CliFormatter.divider('='));
+      console.log(CliFormatter.workflowStart(`Starting Workflow: ${event.workflow}`));
+      console.log(CliFormatter.divider('=') + '\n');
+      if (event.description) {
+        console.log(CliFormatter.info(event.description) + '\n');
+      }
+    });
+
+    executor.on('stateStart', event => {
+      console.log('\n' + CliFormatter.step(`State: ${CliFormatter.highlight(event.state)}`));
+    });
+
+    executor.on('log', event => {
+      const text = LOG_FORMATS[event.level](event.message);
+      const line = SPACED_LEVELS.includes(event.level) ? '\n' + text : text;
+      if (event.level === 'warning') {
+        console.warn(line);
+      } else {
+        console.log(line);
+      }
+    });
+
+    executor.on('prompt', event => {
+      console.log(`\nPrompt: ${event.prompt}`);
+      console.log('\n' + CliFormatter.model(`Using model: ${event.model}`));
+      console.log(CliFormatter.loading('Generating response...') + '\n');
+    });
+
+    executor.on('responseStart', () => {
+      process.stdout.write(CliFormatter.ai('Response: '));
+    });
+
+    executor.on('token', event => {
+      process.stdout.write(event.token);
+    });
+
+    executor.on('responseEnd', event => {
+      if (event.streamed) {
+        process.stdout.write('\n\n');
+      }
+    });
+
+    executor.on('toolCall', event => {
+      const label = event.server ? `${event.server}.${event.tool}` : event.tool;
+      if (event.error) {
+        console.log('\n' + CliFormatter.warning(`Tool ${label} failed: ${event.error}`));
+      } else {
+        console.log('\n' + CliFormatter.tool(`Called tool ${label} with ${JSON.stringify(event.arguments)}`));
+      }
+    });
+
+    executor.on('inputRequested', event => {
+      if (event.prompt) {
+        console.log('\n' + CliFormatter.info(event.prompt));
+      }
+    });
+
+    executor.on('approvalRequested', event => {
+      console.log('\n' + CliFormatter.info(event.prompt || 'Review before continuing:'));
+      console.log(CliFormatter.divider('-'));
+      console.log(event.content);
+      console.log(CliFormatter.divider('-'));
+    });
+
+    executor.on('error', event => {
+      console.error('\n' + CliFormatter.error(event.message));
+    });
+
+    executor.on('workflowEnd', event => {
+      if (event.status === 'failed') {
+        return;
+      }
+      console.log('\n' + CliFormatter.divider('='));
+      if (event.status === 'completed') {
+        console.log(CliFormatter.complete('Workflow Completed'));
+      } else {
+        console.log(CliFormatter.stop(event.reason ? `Workflow Stopped: ${event.reason}` : 'Workflow Stopped by User'));
+      }
+      console.log(CliFormatter.divider('=') + '\n');
+    });
+  }
+
+  /**
+   * Ask for the answer to an input state on stdin
+   * @param request - Input request of the state
+   * @returns The entered answer
+   */
+  requestInput(request: InputRequest): Promise<string> {
+    const defaultHint = request.defaultValue ? ` (default: ${request.defaultValue})` : '';
+    return this.ask(`\nEnter your response${defaultHint}: `);
+  }
+
+  /**
+   * Ask on stdin whether to approve, reject or edit an approval state's content
+   * @param request - Approval request of the state
+   * @returns The decision, with the new text when the content was edited
+   */
+  async requestApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+    const defaultHint = request.defaultDecision ? ` (default: ${request.defaultDecision})` : '';
+    for (;;) {
+      const answer = (await this.ask(`\nApprove, reject or edit? [a/r/e]${defaultHint}: `)).trim().toLowerCase();
+      if (!answer && request.defaultDecision) {
+        return { decision: request.defaultDecision };
+      }
+      if (answer === 'a' || answer === 'approve') {
+        return { decision: 'approve' };
+      }
+      if (answer === 'r' || answer === 'reject') {
+        return { decision: 'reject' };
+      }
+      if (answer === 'e' || answer === 'edit') {
+        return { decision: 'edit', text: await this.readText() };
+      }
+      console.log(CliFormatter.warning('Please answer a (approve), r (reject) or e (edit)'));
+    }
+  }
+
+  /**
+   * Close the readline interface so a stopped run does not hang on stdin
+   */
+  cancelInput(): void {
+    this.close();
+  }
+
+  /**
+   * Close the readline interface if it was created
+   */
+  close(): void {
+    if (this.rl) {
+      this.rl.close();
+      this.rl = undefined;
+    }
+    this.bufferedLines = [];
+    this.lineWaiter = undefined;
+  }
+
+  /**
+   * Ask a question on stdin
+   * @param question - Text shown before the answer
+   * @returns The entered line
+   */
+  private ask(question: string): Promise<string> {
+    const rl = this.getReadlineInterface();
+    rl.setPrompt(question);
+    rl.prompt();
+    return this.nextLine();
+  }
+
+  /**
+   * Take the next line entered on stdin
+   * @returns The line, once entered
+   */
+  private nextLine(): Promise<string> {
+    const line = this.bufferedLines.shift();
+    if (line !== undefined) {
+      return Promise.resolve(line);
+    }
+    return new Promise((resolve) => {
+      this.lineWaiter = resolve;
+    });
+  }
+
+  /**
+   * Read text of several lines from stdin, up to a line with only "."
+   * @returns The entered lines
+   */
+  private async readText(): Promise<string> {
+    console.log(CliFormatter.info('Enter the new text, then a line with only "." to finish:'));
+    const lines: string[] = [];
+    for (let line = await this.nextLine(); line !== '.'; line = await this.nextLine()) {
+      lines.push(line);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Get or create the readline interface
+   */
+  private getReadlineInterface(): readline.Interface {
+    if (!this.rl) {
+      this.rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout
+      });
+      this.rl.on('line', (line) => {
+        const waiter = this.lineWaiter;
+        this.lineWaiter = undefined;
+        if (waiter) {
+          waiter(line);
+        } else {
+          this.bufferedLines.push(line);
+        }
+      });
+    }
+    return this.rl;
+  }
+}
@@ -20,11 +20,24 @@ interface McpResource {
   mimeType?: string;
 }
 
+interface PendingRequest {
+  server: string;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// MCP protocol version advertised during the initialize handshake
+const PROTOCOL_VERSION = '2024-11-05';
+const REQUEST_TIMEOUT_MS = 30000;
+
 class McpClient {
   private servers: Map<string, ChildProcess>;
   private serverConfigs: Map<string, McpServerConfig>;
   private serverTools: Map<string, McpTool[]>;
   private serverResources: Map<string, McpResource[]>;
+  private pendingRequests: Map<number, PendingRequest>;
+  private nextRequestId: number;
   private tracer: Tracer;
 
   constructor(tracer?: Tracer) {
@@ -32,6 +45,8 @@ class McpClient {
     this.serverConfigs = new Map();
     this.serverTools = new Map();
     this.serverResources = new Map();
+    this.pendingRequests = new Map();
+    this.nextRequestId = 1;
     this.tracer = tracer || new Tracer(false);
   }
 
@@ -70,6 +85,36 @@ class McpClient {
       return;
     }
 
+    const serverProcess = await this.spawnServer(name, config);
+
+    try {
+      await this.sendRequest(name, 'initialize', {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'agentmech', version: '1.0.0' }
+      });
+      this.sendNotification(name, 'notifications/initialized');
+
+      const toolsResult = await this.sendRequest(name, 'tools/list', {});
+      this.serverTools.set(name, toolsResult?.tools || []);
+    } catch (error: any) {
+      serverProcess.kill();
+      this.servers.delete(name);
+      const errorMsg = `Failed to initialize MCP server "${name}": ${error.message}`;
+      this.tracer.traceMcpServerConnect(name, false, errorMsg);
+      throw new Error(errorMsg);
+    }
+
+    this.tracer.traceMcpServerConnect(name, true);
+  }
+
+  /**
+   * Spawn an MCP server process and wire up its stdio transport
+   * @param name - Server name
+   * @param config - Server configuration
+   * @returns The spawned server process
+   */
+  private spawnServer(name: string, config: McpServerConfig): Promise<ChildProcess> {
     return new Promise((resolve, reject) => {
       try {
         const env = {
@@ -77,7 +122,7 @@ class McpClient {
           ...config.env
         };
 
-        // At this point, config.command is guaranteed to be defined due to check above
+        // At this point, config.command is guaranteed to be defined due to check in connectServer
         const command = config.command as string;
 
         const serverProcess = spawn(command, config.args || [], {
@@ -93,21 +138,34 @@ class McpClient {
 
         serverProcess.on('spawn', () => {
           this.servers.set(name, serverProcess);
-          // Initialize empty tools and resources lists
-          // Note: Full MCP protocol implementation for querying tools/resources
-          // would require JSON-RPC communication over stdio, which is not yet implemented.
-          // This provides the infrastructure for future MCP protocol integration.
           this.serverTools.set(name, []);
           this.serverResources.set(name, []);
-          this.tracer.traceMcpServerConnect(name, true);
-          resolve();
+          resolve(serverProcess);
+        });
+
+        // Messages are newline-delimited JSON-RPC; anything else on stdout is log noise
+        let buffer = '';
+        serverProcess.stdout?.on('data', (chunk: Buffer) => {
+          buffer += chunk.toString();
+          let newlineIndex;
+          while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+            const line = buffer.slice(0, newlineIndex).trim();
+            buffer = buffer.slice(newlineIndex + 1);
+            if (line) {
+              this.handleMessage(line);
+            }
+          }
         });
 
+        // Drain stderr so a chatty server never blocks on a full pipe
+        serverProcess.stderr?.on('data', () => {});
+
         serverProcess.on('exit', (code) => {
-          if (code !== 0) {
+          if (code !== 0 && code !== null) {
             console.warn(`MCP server "${name}" exited with code ${code}`);
           }
           this.servers.delete(name);
+          this.rejectPendingRequests(name, new Error(`MCP server "${name}" exited`));
         });
       } catch (error: any) {
         const errorMsg = `Failed to connect to MCP server "${name}": ${error.message}`;
@@ -117,6 +175,119 @@ class McpClient {
     });
   }
 
+  /**
+   * Handle a single line received from a server's stdout
+   * @param line - Raw line of output
+   */
+  private handleMessage(line: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch (e) {
+      // Ignore non-JSON output such as startup banners
+      return;
+    }
+
+    if (typeof message?.id !== 'number') {
+      return;
+    }
+
+    const pending = this.pendingRequests.get(message.id);
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(message.id);
+
+    if (message.error) {
+      pending.reject(new Error(message.error.message || 'Unknown MCP error'));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  /**
+   * Send a JSON-RPC request to a connected server and wait for its response
+   * @param name - Server name
+   * @param method - JSON-RPC method
+   * @param params - Method parameters
+   * @returns The result field of the response
+   */
+  private sendRequest(name: string, method: string, params: any): Promise<any> {
+    const serverProcess = this.servers.get(name);
+    if (!serverProcess || !serverProcess.stdin) {
+      return Promise.reject(new Error(`MCP server "${name}" is not connected`));
+    }
+
+    const id = this.nextRequestId++;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(id);
+        reject(new Error(`MCP request "${method}" to server "${name}" timed out`));
+      }, REQUEST_TIMEOUT_MS);
+
+      this.pendingRequests.set(id, { server: name, resolve, reject, timer });
+      serverProcess.stdin!.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n');
+    });
+  }
+
+  /**
+   * Reject all outstanding requests for a server
+   * @param name - Server name
+   * @param error - Error to reject with
+   */
+  private rejectPendingRequests(name: string, error: Error): void {
+    for (const [id, pending] of this.pendingRequests.entries()) {
+      if (pending.server === name) {
+        clearTimeout(pending.timer);
+        this.pendingRequests.delete(id);
+        pending.reject(error);
+      }
+    }
+  }
+
+  /**
+   * Send a JSON-RPC notification (no response expected) to a connected server
+   * @param name - Server name
+   * @param method - JSON-RPC method
+   * @param params - Method parameters
+   */
+  private sendNotification(name: string, method: string, params?: any): void {
+    const serverProcess = this.servers.get(name);
+    if (serverProcess && serverProcess.stdin) {
+      serverProcess.stdin.write(JSON.stringify({ jsonrpc: '2.0', method, params }) + '\n');
+    }
+  }
+
+  /**
+   * Call a tool on a connected server
+   * @param serverName - Server providing the tool
+   * @param toolName - Name of the tool
+   * @param args - Tool arguments
+   * @returns Text content returned by the tool
+   */
+  async callTool(serverName: string, toolName: string, args: Record<string, any>): Promise<string> {
+    try {
+      const result = await this.sendRequest(serverName, 'tools/call', { name: toolName, arguments: args });
+      const text = (result?.content || [])
+        .filter((item: any) => item.type === 'text')
+        .map((item: any) => item.text)
+        .join('\n');
+
+      if (result?.isError) {
+        throw new Error(text || 'Tool reported an error');
+      }
+
+      this.tracer.traceToolCall(serverName, toolName, args, text);
+      return text;
+    } catch (error: any) {
+      this.tracer.traceToolCall(serverName, toolName, args, undefined, error.message);
+      throw error;
+    }
+  }
+
   /**
    * Disconnect from an MCP server
    * @param name - Server name
@@ -126,6 +297,7 @@ class McpClient {
     if (serverProcess) {
       serverProcess.kill();
       this.servers.delete(name);
+      this.rejectPendingRequests(name, new Error(`MCP server "${name}" was disconnected`));
       this.serverTools.delete(name);
       this.serverResources.delete(name);
       this.tracer.traceMcpServerDisconnect(name);
@@ -0,0 +1,160 @@
+/**
+ * Tool-calling loop between Ollama and connected MCP servers.
+ * Offers the tools of a state's MCP servers to the model, executes the
+ * tool calls it requests and feeds the results back until it answers.
+ */
+
+import OllamaClient = require('../ollama/ollama-client');
+import McpClient = require('./mcp-client');
+import { ChatMessage, ToolDefinition } from '../ollama/types';
+
+export const DEFAULT_MAX_TOOL_ITERATIONS = 10;
+
+/**
+ * Tools offered to the model, plus a lookup from the name the model sees
+ * back to the server and tool that implement it
+ */
+export interface ToolSet {
+  definitions: ToolDefinition[];
+  routes: Map<string, { server: string; tool: string }>;
+}
+
+/**
+ * Details of a single tool call, reported to the caller for display
+ */
+export interface ToolCallEvent {
+  server: string;
+  tool: string;
+  arguments: Record<string, any>;
+  result?: string;
+  error?: string;
+}
+
+export interface ToolCallingOptions {
+  /** Maximum number of model round trips before giving up */
+  maxIterations?: number;
+  /** Additional options to pass to the LLM */
+  options?: Record<string, any>;
+  /** Callback for streaming tokens of the model's replies */
+  onToken?: (token: string) => void;
+  /** Callback invoked after each tool call completes */
+  onToolCall?: (event: ToolCallEvent) => void;
+  /** Signal that cancels the loop and the in-flight model request when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Build Ollama tool definitions from the tools of connected MCP servers.
+ * Tool names that collide across servers are qualified with the server name.
+ * @param mcpClient - MCP client with connected servers
+ * @param serverNames - Servers whose tools should be offered
+ * @returns Tool definitions and their routes
+ */
+export function buildToolSet(mcpClient: McpClient, serverNames: string[]): ToolSet {
+  const available = mcpClient.getAvailableTools(serverNames);
+  const nameCounts = new Map<string, number>();
+  for (const { tool } of available) {
+    nameCounts.set(tool.name, (nameCounts.get(tool.name) || 0) + 1);
+  }
+
+  const definitions: ToolDefinition[] = [];
+  const routes = new Map<string, { server: string; tool: string }>();
+
+  for (const { server, tool } of available) {
+    const exposedName = nameCounts.get(tool.name)! > 1 ? `${server}__${tool.name}` : tool.name;
+    routes.set(exposedName, { server, tool: tool.name });
+    definitions.push({
+      type: 'function',
+      function: {
+        name: exposedName,
+        description: tool.description || `Tool ${tool.name} from MCP server ${server}`,
+        parameters: tool.inputSchema || { type: 'object', properties: {} }
+      }
+    });
+  }
+
+  return { definitions, routes };
+}
+
+/**
+ * Run the model with tools until it produces a final answer
+ * @param ollamaClient - Client used to talk to the model
+ * @param mcpClient - Client used to execute tool calls
+ * @param model - Model to use
+ * @param messages - Initial conversation (usually a single user message)
+ * @param toolSet - Tools offered to the model
+ * @param callOptions - Loop options and callbacks
+ * @returns The model's final answer
+ */
+export async function runToolCallingLoop(
+  ollamaClient: OllamaClient,
+  mcpClient: McpClient,
+  model: string,
+  messages: ChatMessage[],
+  toolSet: ToolSet,
+  callOptions: ToolCallingOptions = {}
+): Promise<string> {
+  const maxIterations = callOptions.maxIterations || DEFAULT_MAX_TOOL_ITERATIONS;
+  const conversation = [...messages];
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const reply = await ollamaClient.chatWithTools(
+      model,
+      conversation,
+      toolSet.definitions,
+      callOptions.options || {},
+      callOptions.onToken,
+      callOptions.signal
+    );
+    conversation.push(reply);
+
+    if (!reply.tool_calls || reply.tool_calls.length === 0) {
+      return reply.content;
+    }
+
+    for (const call of reply.tool_calls) {
+      if (callOptions.signal?.aborted) {
+        throw callOptions.signal.reason instanceof Error ? callOptions.signal.reason : new Error('Tool calling was aborted');
+      }
+
+      const requestedName = call.function.name;
+      const args = parseArguments(call.function.arguments);
+      const route = toolSet.routes.get(requestedName);
+      let content: string;
+
+      if (!route) {
+        content = `Error: unknown tool "${requestedName}"`;
+        callOptions.onToolCall?.({ server: '', tool: requestedName, arguments: args, error: content });
+      } else {
+        try {
+          content = await mcpClient.callTool(route.server, route.tool, args);
+          callOptions.onToolCall?.({ server: route.server, tool: route.tool, arguments: args, result: content });
+        } catch (error: any) {
+          // Report the failure to the model so it can recover or try something else
+          content = `Error: ${error.message}`;
+          callOptions.onToolCall?.({ server: route.server, tool: route.tool, arguments: args, error: error.message });
+        }
+      }
+
+      conversation.push({ role: 'tool', content, tool_name: requestedName });
+    }
+  }
+
+  throw new Error(`Model did not produce a final answer within ${maxIterations} tool iteration(s)`);
+}
+
+/**
+ * Normalize tool call arguments, which some models return as a JSON string
+ * @param args - Raw arguments from the model
+ * @returns Arguments object
+ */
+function parseArguments(args: any): Record<string, any> {
+  if (typeof args === 'string') {
+    try {
+      return JSON.parse(args);
+    } catch (e) {
+      return {};
+    }
+  }
+  return args || {};
+}
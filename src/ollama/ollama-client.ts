@@ -1,17 +1,12 @@
 import axios, { AxiosError } from 'axios';
 import Tracer = require('../utils/tracer');
+import { ChatMessage, TokenUsage, ToolCall, ToolDefinition } from './types';
 
 interface OllamaModel {
   name: string;
   size: number;
 }
 
-interface ChatMessage {
-  role: string;
-  content: string;
-  images?: string[];  // Array of base64-encoded images for multimodal support
-}
-
 interface GenerateOptions {
   [key: string]: any;
 }
@@ -22,15 +17,30 @@ interface GenerateOptions {
  */
 type StreamCallback = (token: string) => void;
 
+/**
+ * Callback function for the tokens used by each completed request
+ * @param usage - Token counts reported by Ollama
+ */
+type UsageCallback = (usage: TokenUsage) => void;
+
 class OllamaClient {
   private baseUrl: string;
   private tracer: Tracer;
+  private usageCallback?: UsageCallback;
 
   constructor(baseUrl: string = 'http://localhost:11434', tracer?: Tracer) {
     this.baseUrl = baseUrl;
     this.tracer = tracer || new Tracer(false);
   }
 
+  /**
+   * Set the callback that receives the tokens used by each completed request
+   * @param callback - Callback, or undefined to stop reporting
+   */
+  onUsage(callback: UsageCallback | undefined): void {
+    this.usageCallback = callback;
+  }
+
   /**
    * Generate a response from Ollama
    * @param model - The model to use (e.g., 'gemma3:4b', 'mistral')
@@ -38,12 +48,13 @@ class OllamaClient {
    * @param options - Additional options
    * @param images - Optional array of base64-encoded images for multimodal models
    * @param streamCallback - Optional callback for streaming responses
+   * @param signal - Optional signal that cancels the request when aborted
    * @returns The generated response
    */
-  async generate(model: string, prompt: string, options: GenerateOptions = {}, images?: string[], streamCallback?: StreamCallback): Promise<string> {
+  async generate(model: string, prompt: string, options: GenerateOptions = {}, images?: string[], streamCallback?: StreamCallback, signal?: AbortSignal): Promise<string> {
     // If images are provided, use the chat API instead for multimodal support
     if (images && images.length > 0) {
-      return this.chat(model, [{ role: 'user', content: prompt, images }], options, streamCallback);
+      return this.chat(model, [{ role: 'user', content: prompt, images }], options, streamCallback, signal);
     }
     
     const enableStreaming = !!streamCallback;
@@ -55,57 +66,41 @@ class OllamaClient {
         stream: enableStreaming,
         ...options
       }, {
-        responseType: enableStreaming ? 'stream' : 'json'
+        responseType: enableStreaming ? 'stream' : 'json',
+        signal
       });
       
       // Handle streaming response
       if (enableStreaming && streamCallback) {
         let fullResponse = '';
         
-        return new Promise((resolve, reject) => {
-          response.data.on('data', (chunk: Buffer) => {
-            const lines = chunk.toString().split('\n').filter(line => line.trim());
-            
-            for (const line of lines) {
-              try {
-                const parsed = JSON.parse(line);
-                if (parsed.response) {
-                  fullResponse += parsed.response;
-                  streamCallback(parsed.response);
-                }
-                
-                // Check if done
-                if (parsed.done) {
-                  this.tracer.traceModelInteraction(model, prompt, fullResponse, { ...options, streamed: true });
-                  resolve(fullResponse);
-                }
-              } catch (e) {
-                // Ignore JSON parse errors for incomplete chunks
-              }
-            }
-          });
-          
-          response.data.on('error', (error: Error) => {
-            const errorMsg = `Ollama streaming error: ${error.message}`;
-            this.tracer.traceError('ollama_streaming_error', errorMsg, { model });
-            reject(new Error(errorMsg));
-          });
-          
-          response.data.on('end', () => {
-            // If we didn't get a done signal, still resolve with what we have
-            if (fullResponse) {
-              this.tracer.traceModelInteraction(model, prompt, fullResponse, { ...options, streamed: true });
-              resolve(fullResponse);
-            }
-          });
+        await this.readStream(response.data, model, signal, (parsed) => {
+          if (parsed.response) {
+            fullResponse += parsed.response;
+            streamCallback(parsed.response);
+          }
+          if (parsed.done) {
+            this.reportUsage(parsed);
+          }
+          return parsed.done;
         });
+        
+        this.tracer.traceModelInteraction(model, prompt, fullResponse, { ...options, streamed: true });
+        return fullResponse;
       }
       
       // Handle non-streaming response
       const result = response.data.response;
+      this.reportUsage(response.data);
       this.tracer.traceModelInteraction(model, prompt, result, options);
       return result;
     } catch (error) {
+      if (signal?.aborted) {
+        throw this.abortError(signal);
+      }
+      if (this.isStreamError(error)) {
+        throw error;
+      }
       const axiosError = error as AxiosError;
       if ((axiosError as any).code === 'ECONNREFUSED') {
         const errorMsg = `Cannot connect to Ollama at ${this.baseUrl}. Please ensure Ollama is running.`;
@@ -124,9 +119,10 @@ class OllamaClient {
    * @param messages - Array of message objects with role, content, and optional images
    * @param options - Additional options
    * @param streamCallback - Optional callback for streaming responses
+   * @param signal - Optional signal that cancels the request when aborted
    * @returns The generated response
    */
-  async chat(model: string, messages: ChatMessage[], options: GenerateOptions = {}, streamCallback?: StreamCallback): Promise<string> {
+  async chat(model: string, messages: ChatMessage[], options: GenerateOptions = {}, streamCallback?: StreamCallback, signal?: AbortSignal): Promise<string> {
     const enableStreaming = !!streamCallback;
     
     try {
@@ -136,7 +132,8 @@ class OllamaClient {
         stream: enableStreaming,
         ...options
       }, {
-        responseType: enableStreaming ? 'stream' : 'json'
+        responseType: enableStreaming ? 'stream' : 'json',
+        signal
       });
       
       // Trace with indication of multimodal if images present
@@ -154,51 +151,34 @@ class OllamaClient {
       if (enableStreaming && streamCallback) {
         let fullResponse = '';
         
-        return new Promise((resolve, reject) => {
-          response.data.on('data', (chunk: Buffer) => {
-            const lines = chunk.toString().split('\n').filter(line => line.trim());
-            
-            for (const line of lines) {
-              try {
-                const parsed = JSON.parse(line);
-                if (parsed.message && parsed.message.content) {
-                  fullResponse += parsed.message.content;
-                  streamCallback(parsed.message.content);
-                }
-                
-                // Check if done
-                if (parsed.done) {
-                  this.tracer.traceModelInteraction(model, formattedMessages, fullResponse, { ...traceContext, streamed: true });
-                  resolve(fullResponse);
-                }
-              } catch (e) {
-                // Ignore JSON parse errors for incomplete chunks
-              }
-            }
-          });
-          
-          response.data.on('error', (error: Error) => {
-            const errorMsg = `Ollama streaming error: ${error.message}`;
-            this.tracer.traceError('ollama_streaming_error', errorMsg, { model });
-            reject(new Error(errorMsg));
-          });
-          
-          response.data.on('end', () => {
-            // If we didn't get a done signal, still resolve with what we have
-            if (fullResponse) {
-              this.tracer.traceModelInteraction(model, formattedMessages, fullResponse, { ...traceContext, streamed: true });
-              resolve(fullResponse);
-            }
-          });
+        await this.readStream(response.data, model, signal, (parsed) => {
+          if (parsed.message && parsed.message.content) {
+            fullResponse += parsed.message.content;
+            streamCallback(parsed.message.content);
+          }
+          if (parsed.done) {
+            this.reportUsage(parsed);
+          }
+          return parsed.done;
         });
+        
+        this.tracer.traceModelInteraction(model, formattedMessages, fullResponse, { ...traceContext, streamed: true });
+        return fullResponse;
       }
       
       // Handle non-streaming response
       const result = response.data.message.content;
+      this.reportUsage(response.data);
       this.tracer.traceModelInteraction(model, formattedMessages, result, traceContext);
       
       return result;
     } catch (error) {
+      if (signal?.aborted) {
+        throw this.abortError(signal);
+      }
+      if (this.isStreamError(error)) {
+        throw error;
+      }
       const axiosError = error as AxiosError;
       if ((axiosError as any).code === 'ECONNREFUSED') {
         throw new Error(`Cannot connect to Ollama at ${this.baseUrl}. Please ensure Ollama is running.`);
@@ -207,6 +187,175 @@ class OllamaClient {
     }
   }
 
+  /**
+   * Chat with Ollama while offering tools the model may call
+   * @param model - The model to use
+   * @param messages - Conversation so far, including previous tool results
+   * @param tools - Tool definitions passed through the `tools` field
+   * @param options - Additional options
+   * @param streamCallback - Optional callback for streaming responses
+   * @param signal - Optional signal that cancels the request when aborted
+   * @returns The assistant message, including any requested tool calls
+   */
+  async chatWithTools(model: string, messages: ChatMessage[], tools: ToolDefinition[], options: GenerateOptions = {}, streamCallback?: StreamCallback, signal?: AbortSignal): Promise<ChatMessage> {
+    const enableStreaming = !!streamCallback;
+    const formattedMessages = messages.map(m => `${m.role}: ${m.content}`).join('\n');
+    const traceContext = { ...options, tools: tools.map(t => t.function.name) };
+
+    try {
+      const response = await axios.post(`${this.baseUrl}/api/chat`, {
+        model,
+        messages,
+        tools,
+        stream: enableStreaming,
+        ...options
+      }, {
+        responseType: enableStreaming ? 'stream' : 'json',
+        signal
+      });
+
+      // Handle streaming response
+      if (enableStreaming && streamCallback) {
+        let fullResponse = '';
+        const toolCalls: ToolCall[] = [];
+
+        await this.readStream(response.data, model, signal, (parsed) => {
+          if (parsed.message && parsed.message.content) {
+            fullResponse += parsed.message.content;
+            streamCallback(parsed.message.content);
+          }
+          if (parsed.message && parsed.message.tool_calls) {
+            toolCalls.push(...parsed.message.tool_calls);
+          }
+          if (parsed.done) {
+            this.reportUsage(parsed);
+          }
+          return parsed.done;
+        });
+
+        this.tracer.traceModelInteraction(model, formattedMessages, fullResponse, { ...traceContext, streamed: true, tool_calls: toolCalls.length });
+        return { role: 'assistant', content: fullResponse, tool_calls: toolCalls.length > 0 ? toolCalls : undefined };
+      }
+
+      // Handle non-streaming response
+      const message = response.data.message || {};
+      this.reportUsage(response.data);
+      const result: ChatMessage = {
+        role: 'assistant',
+        content: message.content || '',
+        tool_calls: message.tool_calls && message.tool_calls.length > 0 ? message.tool_calls : undefined
+      };
+      this.tracer.traceModelInteraction(model, formattedMessages, result.content, { ...traceContext, tool_calls: result.tool_calls?.length || 0 });
+
+      return result;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw this.abortError(signal);
+      }
+      if (this.isStreamError(error)) {
+        throw error;
+      }
+      const axiosError = error as AxiosError;
+      if ((axiosError as any).code === 'ECONNREFUSED') {
+        throw new Error(`Cannot connect to Ollama at ${this.baseUrl}. Please ensure Ollama is running.`);
+      }
+      throw new Error(`Ollama API error: ${axiosError.message}`);
+    }
+  }
+
+  /**
+   * Read a streamed NDJSON response until the model signals it is done or the stream ends.
+   * Settles exactly once, so a stream that ends without any content still resolves.
+   * @param stream - Response stream from axios
+   * @param model - Model name, for tracing
+   * @param signal - Optional signal that cancels reading when aborted
+   * @param onMessage - Handler for each parsed message; returns true when generation is done
+   */
+  private readStream(stream: any, model: string, signal: AbortSignal | undefined, onMessage: (parsed: any) => boolean | undefined): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+
+      const settle = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      const onAbort = () => {
+        stream.destroy?.();
+        settle(this.abortError(signal!));
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort);
+
+      stream.on('data', (chunk: Buffer) => {
+        const lines = chunk.toString().split('\n').filter(line => line.trim());
+
+        for (const line of lines) {
+          let parsed: any;
+          try {
+            parsed = JSON.parse(line);
+          } catch (e) {
+            // Ignore JSON parse errors for incomplete chunks
+            continue;
+          }
+          if (onMessage(parsed)) {
+            settle();
+          }
+        }
+      });
+
+      stream.on('error', (error: Error) => {
+        const streamError = new Error(`Ollama streaming error: ${error.message}`);
+        (streamError as any).isStreamError = true;
+        this.tracer.traceError('ollama_streaming_error', streamError.message, { model });
+        settle(streamError);
+      });
+
+      // If we didn't get a done signal, still resolve with what we have (even if empty)
+      stream.on('end', () => settle());
+    });
+  }
+
+  /**
+   * Pass the token counts of a completed request to the usage callback
+   * @param data - Final message of the response, with prompt_eval_count and eval_count
+   */
+  private reportUsage(data: any): void {
+    this.usageCallback?.({
+      promptTokens: data?.prompt_eval_count || 0,
+      completionTokens: data?.eval_count || 0
+    });
+  }
+
+  /**
+   * Build the error to throw for an aborted request
+   * @param signal - The aborted signal
+   * @returns The abort reason if it is an error, otherwise a generic error
+   */
+  private abortError(signal: AbortSignal): Error {
+    return signal.reason instanceof Error ? signal.reason : new Error('Request to Ollama was aborted');
+  }
+
+  /**
+   * Check whether an error was raised while reading a stream (already wrapped and traced)
+   * @param error - Caught error
+   */
+  private isStreamError(error: any): boolean {
+    return !!(error && error.isStreamError);
+  }
+
   /**
    * List available models
    * @returns List of available models
@@ -0,0 +1,44 @@
+/**
+ * Shared types for the Ollama chat API.
+ */
+
+/**
+ * A tool invocation requested by the model
+ */
+export interface ToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, any>;
+  };
+}
+
+/**
+ * A single message in a chat conversation
+ */
+export interface ChatMessage {
+  role: string;
+  content: string;
+  images?: string[];  // Array of base64-encoded images for multimodal support
+  tool_calls?: ToolCall[];  // Tool invocations requested by the assistant
+  tool_name?: string;  // Name of the tool that produced a 'tool' role message
+}
+
+/**
+ * A function tool the model is allowed to call
+ */
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: any;
+  };
+}
+
+/**
+ * Tokens counted by Ollama for one completed request
+ */
+export interface TokenUsage {
+  promptTokens: number;  // prompt_eval_count
+  completionTokens: number;  // eval_count
+}
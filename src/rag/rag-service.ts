@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { encode, decode } from '@msgpack/msgpack';
 import OllamaClient = require('../ollama/ollama-client');
+import { interpolate } from '../utils/interpolation';
 
 interface DocumentChunk {
   id: string;
@@ -195,7 +196,7 @@ export class RAGService {
         }
         
         const content = fs.readFileSync(file, 'utf8');
-        const chunks = this.chunkText(content, this.config.chunkSize!);
+        const chunks = RAGService.chunkText(content, this.config.chunkSize!);
       
         for (let i = 0; i < chunks.length; i++) {
           const chunk: DocumentChunk = {
@@ -262,11 +263,17 @@ export class RAGService {
   }
 
   /**
-   * Split text into chunks
+   * Split text into chunks of whole lines, up to chunkSize characters each.
+   * Lines longer than chunkSize are cut into pieces of that size.
    */
-  private chunkText(text: string, chunkSize: number): string[] {
+  static chunkText(text: string, chunkSize: number): string[] {
     const chunks: string[] = [];
-    const lines = text.split('\n');
+    const lines: string[] = [];
+    for (const line of text.split('\n')) {
+      for (let start = 0; start === 0 || start < line.length; start += chunkSize) {
+        lines.push(line.slice(start, start + chunkSize));
+      }
+    }
     let currentChunk = '';
     
     for (const line of lines) {
@@ -402,10 +409,7 @@ export class RAGService {
     // Format the overall context using context template or default format
     const contextTemplate = this.config.contextTemplate;
     if (contextTemplate) {
-      let result = contextTemplate;
-      result = result.replace(/\{\{prompt\}\}/g, originalPrompt || '');
-      result = result.replace(/\{\{chunks\}\}/g, formattedChunks);
-      return result;
+      return interpolate(contextTemplate, { prompt: originalPrompt || '', chunks: formattedChunks });
     } else {
       // Default format
       return '\n\nRelevant context from knowledge base:\n\n' + formattedChunks + '\n\n';
@@ -416,12 +420,10 @@ export class RAGService {
    * Interpolate chunk template with chunk data
    */
   private interpolateChunkTemplate(template: string, chunk: DocumentChunk, index: number): string {
-    let result = template;
-    result = result.replace(/\{\{chunk\.source\}\}/g, chunk.source);
-    result = result.replace(/\{\{chunk\.text\}\}/g, chunk.text);
-    result = result.replace(/\{\{chunk\.id\}\}/g, chunk.id);
-    result = result.replace(/\{\{index\}\}/g, index.toString());
-    result = result.replace(/\{\{number\}\}/g, (index + 1).toString());
-    return result;
+    return interpolate(template, {
+      chunk: { source: chunk.source, text: chunk.text, id: chunk.id },
+      index,
+      number: index + 1
+    });
   }
 }
@@ -1,7 +1,8 @@
 import WorkflowParser = require('../workflow/parser');
 import WorkflowExecutor = require('../workflow/executor');
-import { TestScenario, TestAssertion, TestInput } from './test-scenario';
+import { TestScenario, TestAssertion } from './test-scenario';
 import Tracer = require('../utils/tracer');
+import { MockAdapter } from '../io/mock-adapter';
 
 /**
  * Result of a single assertion
@@ -56,21 +57,22 @@ export class TestExecutor {
       const tracer = new Tracer(false); // Don't output to console during tests
       
       // Create executor with mock inputs
-      const executor = new TestWorkflowExecutor(
-        workflow,
-        this.ollamaUrl,
-        tracer,
-        scenario.inputs || []
-      );
+      const executor = new WorkflowExecutor(workflow, this.ollamaUrl, tracer);
+      const adapter = new MockAdapter(Object.fromEntries(
+        (scenario.inputs || []).map(input => [input.state, input.value])
+      ));
+      executor.setAdapter(adapter);
 
       // Execute the workflow
       await executor.execute();
 
-      // Evaluate assertions
+      // Evaluate assertions; a completed run also reached the "end" state
+      const run = adapter.getResult()!;
+      const stateHistory = run.status === 'completed' ? [...run.history, 'end'] : run.history;
       result.assertions = this.evaluateAssertions(
         scenario.assertions,
-        executor.getContext(),
-        executor.getStateHistory()
+        run.context,
+        stateHistory
       );
 
       // Check if all assertions passed
@@ -326,96 +328,3 @@ export class TestExecutor {
     return String(value).trim();
   }
 }
-
-/**
- * Extended WorkflowExecutor for testing with mocked inputs
- * This class captures execution context and state history for assertion evaluation
- * 
- * It extends the base WorkflowExecutor to:
- * - Mock user inputs for automated testing
- * - Track state execution history for assertions
- * - Expose workflow context for validation
- * 
- * @extends WorkflowExecutor
- */
-class TestWorkflowExecutor extends WorkflowExecutor {
-  private mockInputs: Map<string, string>;
-  private stateHistory: string[] = [];
-  private currentStateName: string = '';
-
-  /**
-   * Create a test workflow executor
-   * @param workflow - Workflow configuration to execute
-   * @param ollamaUrl - URL of the Ollama API
-   * @param tracer - Tracer instance for logging
-   * @param inputs - Array of mocked inputs for input states
-   */
-  constructor(workflow: any, ollamaUrl: string, tracer: Tracer, inputs: TestInput[]) {
-    super(workflow, ollamaUrl, tracer);
-    
-    // Convert inputs array to map for easy lookup
-    this.mockInputs = new Map();
-    inputs.forEach(input => {
-      this.mockInputs.set(input.state, input.value);
-    });
-    
-    // Replace readline interface with mock after construction
-    this.replaceReadlineWithMock();
-  }
-
-  /**
-   * Replace the readline interface with a mock version
-   * Note: Uses type assertion to access private 'rl' property since we need to
-   * replace it for testing without modifying the base class API
-   */
-  private replaceReadlineWithMock(): void {
-    const originalRl = (this as any).rl;  // Access private property for testing
-    if (originalRl) {
-      originalRl.close();
-    }
-    
-    const mockRl = {
-      question: (query: string, callback: (answer: string) => void) => {
-        const answer = this.mockInputs.get(this.currentStateName) || '';
-        setImmediate(() => callback(answer));
-      },
-      close: () => {
-        // No-op
-      }
-    };
-    
-    (this as any).rl = mockRl;  // Replace private property for testing
-  }
-
-  /**
-   * Override to track state history and current state
-   */
-  async executeState(stateName: string, state: any): Promise<string> {
-    this.stateHistory.push(stateName);
-    this.currentStateName = stateName;
-    const nextState = await super.executeState(stateName, state);
-    
-    // If the next state is 'end', add it to history since the main loop won't execute it
-    if (nextState === 'end') {
-      this.stateHistory.push('end');
-    }
-    
-    return nextState;
-  }
-
-  /**
-   * Get the execution context (variables)
-   * Note: Uses type assertion to access private 'context' property from parent class
-   * This is necessary for test validation without exposing it in the public API
-   */
-  getContext(): Record<string, any> {
-    return (this as any).context;  // Access private property for testing
-  }
-
-  /**
-   * Get the state history
-   */
-  getStateHistory(): string[] {
-    return this.stateHistory;
-  }
-}
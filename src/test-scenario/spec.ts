@@ -44,7 +44,7 @@ export interface TestScenarioSpec {
   name: string;
   /** Optional description of what this test validates */
   description?: string;
-  /** Array of mocked inputs for input states */
+  /** Array of mocked inputs for input states, and decisions ("approve", "reject" or edited text) for approval states */
   inputs?: TestInputSpec[];
   /** Array of assertions to validate */
   assertions: TestAssertionSpec[];
@@ -0,0 +1,76 @@
+/**
+ * Answers Utility
+ * Scripted answers for input states, so workflows can run without a terminal
+ * (for example from CI or cron with --non-interactive)
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+
+/**
+ * Answers by state name (a list is used one value per visit, a single value
+ * on every visit), or a list of answers given to input states in order
+ */
+export type AnswersSpec = Record<string, string | string[]> | string[];
+
+/**
+ * Hands out scripted answers to input states
+ */
+export class AnswerQueue {
+  private byState: Map<string, string | string[]> = new Map();
+  private inOrder: string[] = [];
+
+  constructor(answers: AnswersSpec = {}) {
+    if (Array.isArray(answers)) {
+      this.inOrder = answers.map(String);
+    } else {
+      for (const [stateName, value] of Object.entries(answers)) {
+        this.byState.set(stateName, Array.isArray(value) ? value.map(String) : String(value));
+      }
+    }
+  }
+
+  /**
+   * Take the next answer for a state
+   * @param stateName - Name of the input state
+   * @returns The answer, or undefined if the answers have none left for the state
+   */
+  next(stateName: string): string | undefined {
+    const value = this.byState.get(stateName);
+    if (Array.isArray(value)) {
+      return value.shift();
+    }
+    if (value !== undefined) {
+      return value;
+    }
+    return this.inOrder.shift();
+  }
+}
+
+/**
+ * Read scripted answers from a JSON or YAML file
+ * @param filePath - Path to the answers file
+ * @returns Answers by state name, or a list of answers in order
+ * @throws Error if the file cannot be read or has the wrong shape
+ */
+export function readAnswersFile(filePath: string): AnswersSpec {
+  let answers: any;
+  try {
+    answers = yaml.load(fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`Answers file not found: ${filePath}`);
+    }
+    throw new Error(`Failed to read answers file ${filePath}: ${error.message}`);
+  }
+
+  const isAnswer = (value: any) => ['string', 'number', 'boolean'].includes(typeof value);
+  const valid = Array.isArray(answers)
+    ? answers.every(isAnswer)
+    : typeof answers === 'object' && answers !== null &&
+      Object.values(answers).every(value => isAnswer(value) || (Array.isArray(value) && value.every(isAnswer)));
+  if (!valid) {
+    throw new Error(`Answers file ${filePath} must map state names to an answer or a list of answers, or be a list of answers`);
+  }
+  return answers;
+}
@@ -0,0 +1,73 @@
+/**
+ * Checkpoint Utility
+ * Saves the progress of a workflow run to its run directory so an
+ * interrupted run can be resumed from the last completed state
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChatMessage } from '../ollama/types';
+
+export const CHECKPOINT_FILE = 'checkpoint.json';
+
+export interface Checkpoint {
+  workflowName: string;
+  status: 'in_progress' | 'completed';
+  lastCompletedState: string | null;  // State that finished most recently (null before the first one)
+  nextState: string | null;  // State to run when the run is resumed (null once completed)
+  context: Record<string, any>;
+  history: string[];
+  conversations: Record<string, ChatMessage[]>;
+  updatedAt: string;
+}
+
+/**
+ * Get the checkpoint path for a run directory
+ * @param runDirectoryPath - Path to the run directory
+ * @returns Path to checkpoint.json
+ */
+export function getCheckpointPath(runDirectoryPath: string): string {
+  return path.join(runDirectoryPath, CHECKPOINT_FILE);
+}
+
+/**
+ * Write a checkpoint, replacing the previous one atomically so that a crash
+ * while writing never leaves a truncated file behind
+ * @param runDirectoryPath - Path to the run directory
+ * @param checkpoint - Checkpoint to write
+ */
+export function writeCheckpoint(runDirectoryPath: string, checkpoint: Checkpoint): void {
+  const checkpointPath = getCheckpointPath(runDirectoryPath);
+  const temporaryPath = `${checkpointPath}.tmp`;
+  fs.writeFileSync(temporaryPath, JSON.stringify(checkpoint, null, 2), 'utf8');
+  fs.renameSync(temporaryPath, checkpointPath);
+}
+
+/**
+ * Read the checkpoint of a run directory
+ * @param runDirectoryPath - Path to the run directory
+ * @returns The saved checkpoint
+ * @throws Error if there is no checkpoint or it cannot be read
+ */
+export function readCheckpoint(runDirectoryPath: string): Checkpoint {
+  const checkpointPath = getCheckpointPath(runDirectoryPath);
+  if (!fs.existsSync(checkpointPath)) {
+    throw new Error(`No checkpoint found in ${runDirectoryPath}`);
+  }
+
+  let checkpoint: any;
+  try {
+    checkpoint = JSON.parse(fs.readFileSync(checkpointPath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Failed to read checkpoint ${checkpointPath}: ${error.message}`);
+  }
+
+  if (typeof checkpoint !== 'object' || checkpoint === null ||
+      typeof checkpoint.context !== 'object' || !Array.isArray(checkpoint.history)) {
+    throw new Error(`Checkpoint ${checkpointPath} is malformed`);
+  }
+  return {
+    ...checkpoint,
+    conversations: checkpoint.conversations || {}
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Conversation Utility
+ * Keeps named chat histories so prompt states can talk to the model
+ * through the chat API with memory of earlier exchanges
+ */
+
+import { ChatMessage } from '../ollama/types';
+
+export const DEFAULT_CONVERSATION_NAME = 'default';
+
+export interface ConversationConfig {
+  name?: string;  // Name of the history to use (default: "default")
+  system?: string;  // System prompt sent before the history
+  maxMessages?: number;  // Most recent messages of the history to send
+  maxChars?: number;  // Character budget for the history sent
+  reset?: boolean;  // Clear the history before the state runs
+  forkFrom?: string;  // Start the history as a copy of another conversation
+}
+
+/**
+ * Combine the workflow-level conversation with a state's setting
+ * @param workflowConfig - Workflow-level conversation, applied to every prompt state
+ * @param stateConfig - State-level conversation, or false to opt out
+ * @returns The effective conversation, or undefined if the state is stateless
+ */
+export function resolveConversation(
+  workflowConfig: ConversationConfig | undefined,
+  stateConfig: ConversationConfig | false | undefined
+): ConversationConfig | undefined {
+  if (stateConfig === false || (!workflowConfig && !stateConfig)) {
+    return undefined;
+  }
+
+  const config: ConversationConfig = { ...workflowConfig };
+  for (const [key, value] of Object.entries(stateConfig || {})) {
+    if (value !== undefined) {
+      (config as any)[key] = value;
+    }
+  }
+  config.name = config.name || DEFAULT_CONVERSATION_NAME;
+  return config;
+}
+
+/**
+ * Keep the most recent messages that fit the limits. The history never starts
+ * with an assistant message, so the model always sees a complete exchange.
+ * @param messages - History, oldest first
+ * @param maxMessages - Maximum number of messages to keep
+ * @param maxChars - Maximum total length of message contents
+ * @returns The messages to send
+ */
+export function truncateHistory(messages: ChatMessage[], maxMessages?: number, maxChars?: number): ChatMessage[] {
+  let start = maxMessages !== undefined ? Math.max(0, messages.length - maxMessages) : 0;
+
+  if (maxChars !== undefined) {
+    let total = messages.slice(start).reduce((sum, message) => sum + message.content.length, 0);
+    while (start < messages.length && total > maxChars) {
+      total -= messages[start].content.length;
+      start++;
+    }
+  }
+
+  while (start < messages.length && messages[start].role !== 'user') {
+    start++;
+  }
+  return messages.slice(start);
+}
+
+/**
+ * Named chat histories for a workflow run
+ */
+export class ConversationStore {
+  private histories: Map<string, ChatMessage[]> = new Map();
+
+  /**
+   * Get a copy of a conversation's history
+   * @param name - Conversation name
+   * @returns Messages, oldest first
+   */
+  getHistory(name: string): ChatMessage[] {
+    return [...(this.histories.get(name) || [])];
+  }
+
+  /**
+   * Get a copy of every conversation, e.g. for saving a checkpoint
+   * @returns Histories by conversation name
+   */
+  snapshot(): Record<string, ChatMessage[]> {
+    const histories: Record<string, ChatMessage[]> = {};
+    for (const [name, messages] of this.histories) {
+      histories[name] = [...messages];
+    }
+    return histories;
+  }
+
+  /**
+   * Replace every conversation with previously saved histories
+   * @param histories - Histories by conversation name
+   */
+  restore(histories: Record<string, ChatMessage[]>): void {
+    this.histories = new Map(Object.entries(histories).map(([name, messages]) => [name, [...messages]]));
+  }
+
+  /**
+   * Apply a state's reset and fork options before it talks to the model
+   * @param config - Resolved conversation configuration
+   */
+  prepare(config: ConversationConfig): void {
+    const name = config.name || DEFAULT_CONVERSATION_NAME;
+    if (config.forkFrom) {
+      this.histories.set(name, this.getHistory(config.forkFrom));
+    } else if (config.reset) {
+      this.histories.delete(name);
+    }
+  }
+
+  /**
+   * Build the messages for a chat request
+   * @param config - Resolved conversation configuration
+   * @param system - System prompt, already interpolated
+   * @param userMessage - The new user message
+   * @returns System prompt, truncated history and the new message
+   */
+  buildMessages(config: ConversationConfig, system: string | undefined, userMessage: ChatMessage): ChatMessage[] {
+    const history = truncateHistory(
+      this.getHistory(config.name || DEFAULT_CONVERSATION_NAME),
+      config.maxMessages,
+      config.maxChars
+    );
+    const messages: ChatMessage[] = system ? [{ role: 'system', content: system }] : [];
+    return [...messages, ...history, userMessage];
+  }
+
+  /**
+   * Record an exchange in a conversation
+   * @param name - Conversation name
+   * @param prompt - Prompt sent by the user
+   * @param response - Model's reply
+   */
+  append(name: string, prompt: string, response: string): void {
+    const history = this.histories.get(name) || [];
+    history.push({ role: 'user', content: prompt }, { role: 'assistant', content: response });
+    this.histories.set(name, history);
+  }
+}
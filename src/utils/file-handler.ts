@@ -38,7 +38,7 @@ class FileHandler {
     const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.bmp'];
     const pdfExtensions = ['.pdf'];
     const wordExtensions = ['.doc', '.docx'];
-    const textExtensions = ['.txt', '.md', '.json', '.yaml', '.yml', '.csv'];
+    const textExtensions = ['.txt', '.md', '.json', '.yaml', '.yml', '.csv', '.log'];
     
     if (imageExtensions.includes(ext)) {
       return FileType.IMAGE;
@@ -74,7 +74,8 @@ class FileHandler {
       '.json': 'application/json',
       '.yaml': 'text/yaml',
       '.yml': 'text/yaml',
-      '.csv': 'text/csv'
+      '.csv': 'text/csv',
+      '.log': 'text/plain'
     };
     
     return mimeTypes[ext] || 'application/octet-stream';
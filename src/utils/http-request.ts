@@ -0,0 +1,101 @@
+/**
+ * HTTP Request Utility
+ * Sends the requests of http states and returns the status, headers and
+ * body of the response, with JSON bodies parsed.
+ */
+
+import axios from 'axios';
+import { RetryableError } from './retry';
+
+export const DEFAULT_HTTP_TIMEOUT_MS = 30000;
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD'];
+
+export interface HttpRequest {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  query?: Record<string, any>;  // Appended to the URL, encoded
+  body?: any;  // Objects and arrays are sent as JSON
+}
+
+export interface HttpResponse {
+  status: number;
+  headers: Record<string, string>;  // Lower-case names
+  body: any;  // Parsed when the response is JSON, otherwise the text
+}
+
+export interface SendHttpRequestOptions {
+  timeoutMs?: number;  // Time limit for the request (default: 30 seconds)
+  signal?: AbortSignal;  // Cancels the request when aborted
+}
+
+/**
+ * Send an HTTP request. Responses with error statuses are returned like any
+ * other, so the caller decides how to handle them.
+ * @param request - Request to send
+ * @param options - Send options
+ * @returns Status, headers and body of the response
+ * @throws RetryableError with category "timeout" if the time limit is reached,
+ * or the connection error if the server cannot be reached
+ */
+export async function sendHttpRequest(request: HttpRequest, options: SendHttpRequestOptions = {}): Promise<HttpResponse> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_HTTP_TIMEOUT_MS;
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new RetryableError(`HTTP request timed out after ${timeoutMs}ms`, 'timeout')),
+    timeoutMs
+  );
+  const onAbort = () => controller.abort(options.signal!.reason);
+  if (options.signal?.aborted) {
+    onAbort();
+  }
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = await axios.request({
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      params: request.query,
+      data: request.body,
+      responseType: 'text',
+      transformResponse: (data: any) => data,
+      validateStatus: () => true,
+      signal: controller.signal
+    });
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(response.headers)) {
+      if (value !== undefined && value !== null) {
+        headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
+    }
+    return { status: response.status, headers, body: parseBody(response.data, headers['content-type']) };
+  } catch (error: any) {
+    // Report why the request was cancelled rather than axios' generic "canceled"
+    if (controller.signal.aborted) {
+      throw controller.signal.reason instanceof Error ? controller.signal.reason : new Error('HTTP request aborted');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Parse a response body according to its content type
+ * @param text - Body text
+ * @param contentType - Value of the Content-Type header
+ * @returns The parsed JSON for JSON responses, otherwise the text
+ */
+function parseBody(text: string, contentType?: string): any {
+  if (!text || !contentType || !/[/+]json\b/i.test(contentType)) {
+    return text ?? '';
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Interpolation Utility
+ * Replaces {{placeholders}} in prompts and templates with values from a context.
+ * Shared by the CLI executor, the web executor and RAG templates.
+ *
+ * Supported syntax:
+ * - Paths: {{name}}, {{result.title}}, {{items[0]}}, {{items.0.name}}
+ * - Filters, applied left to right: {{name | trim | upper}}
+ * - Filter arguments: {{text | truncate: 500}}, {{tags | join: ", "}}
+ * - Defaults for missing or empty values: {{name | default: "friend"}}
+ *
+ * Placeholders whose variable is missing are left untouched, unless strict
+ * mode is enabled, in which case an error is thrown.
+ */
+
+export interface InterpolationOptions {
+  /** Throw instead of leaving the placeholder untouched when a variable is undefined */
+  strict?: boolean;
+  /** Applied to each substituted value, e.g. to quote it as a shell argument */
+  escape?: (text: string) => string;
+}
+
+interface FilterCall {
+  name: string;
+  args: (string | number)[];
+}
+
+interface Placeholder {
+  path: (string | number)[];
+  filters: FilterCall[];
+}
+
+const PLACEHOLDER_PATTERN = /\{\{([^{}]*)\}\}/g;
+const PATH_PATTERN = /^[A-Za-z_]\w*(?:\.\w+|\[\d+\])*$/;
+
+const FILTERS: Record<string, { minArgs: number; maxArgs: number; apply: (value: any, ...args: any[]) => any }> = {
+  default: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (value: any, fallback: any) => (isMissing(value) || value === '' ? fallback : value)
+  },
+  upper: { minArgs: 0, maxArgs: 0, apply: (value: any) => toText(value).toUpperCase() },
+  lower: { minArgs: 0, maxArgs: 0, apply: (value: any) => toText(value).toLowerCase() },
+  trim: { minArgs: 0, maxArgs: 0, apply: (value: any) => toText(value).trim() },
+  json: { minArgs: 0, maxArgs: 0, apply: (value: any) => JSON.stringify(value, null, 2) },
+  truncate: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (value: any, length: any) => {
+      const text = toText(value);
+      const limit = Number(length);
+      return text.length > limit ? text.slice(0, limit) + '...' : text;
+    }
+  },
+  lines: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (value: any) => {
+      if (Array.isArray(value)) {
+        return value;
+      }
+      return toText(value).split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    }
+  },
+  join: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value: any, separator: any = ', ') => {
+      if (!Array.isArray(value)) {
+        return toText(value);
+      }
+      return value.map(item => toText(item)).join(String(separator));
+    }
+  }
+};
+
+/**
+ * Replace placeholders in a template with values from a context
+ * @param template - Text with placeholders like {{name}} or {{result.title | upper}}
+ * @param context - Values available to the template
+ * @param options - Interpolation options
+ * @returns Text with placeholders replaced
+ * @throws Error if a filter is unknown or used incorrectly, or in strict mode when a variable is undefined
+ */
+export function interpolate(template: string, context: Record<string, any>, options: InterpolationOptions = {}): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, expression: string) => {
+    const placeholder = parsePlaceholder(expression);
+    if (!placeholder) {
+      return match;
+    }
+
+    const value = evaluatePlaceholder(placeholder, context);
+    if (isMissing(value)) {
+      if (options.strict) {
+        throw new Error(`Undefined variable "${expression.split('|')[0].trim()}" in ${match}`);
+      }
+      return match;
+    }
+    return options.escape ? options.escape(toText(value)) : toText(value);
+  });
+}
+
+/**
+ * Interpolate a value, keeping the original type when the whole value is a
+ * single placeholder, so that lists and objects can be passed on intact
+ * @param value - A template, or any non-string value (returned unchanged)
+ * @param context - Values available to the template
+ * @param options - Interpolation options
+ * @returns The referenced value, or the interpolated text
+ */
+export function interpolateValue(value: any, context: Record<string, any>, options: InterpolationOptions = {}): any {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const single = value.trim().match(/^\{\{([^{}]*)\}\}$/);
+  const placeholder = single ? parsePlaceholder(single[1]) : null;
+  if (placeholder) {
+    const resolved = evaluatePlaceholder(placeholder, context);
+    if (!isMissing(resolved)) {
+      return resolved;
+    }
+  }
+  return interpolate(value, context, options);
+}
+
+/**
+ * Parse a variable path such as "result.items[0]"
+ * @param text - Path text
+ * @returns Keys and indexes to follow, or null if the text is not a valid path
+ */
+export function parseVariablePath(text: string): (string | number)[] | null {
+  const trimmed = text.trim();
+  if (!PATH_PATTERN.test(trimmed)) {
+    return null;
+  }
+
+  const path: (string | number)[] = [];
+  for (const [, key, index] of trimmed.matchAll(/(\w+)|\[(\d+)\]/g)) {
+    path.push(index !== undefined ? Number(index) : key);
+  }
+  return path;
+}
+
+/**
+ * Check the placeholders in a template without interpolating it
+ * @param template - Text with placeholders
+ * @returns List of errors (empty if every placeholder is valid)
+ */
+export function findTemplateErrors(template: string): string[] {
+  const errors: string[] = [];
+  for (const [, expression] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    try {
+      parsePlaceholder(expression);
+    } catch (error: any) {
+      errors.push(error.message);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Look up a path such as ["result", "items", 0] in a context
+ * @param context - Values to look in
+ * @param path - Keys and indexes to follow
+ * @returns The value, or undefined if any part of the path is missing
+ */
+export function resolvePath(context: Record<string, any>, path: (string | number)[]): any {
+  return path.reduce(
+    (current: any, key) => (current === undefined || current === null ? undefined : current[key]),
+    context
+  );
+}
+
+/**
+ * Parse the text between {{ and }}
+ * @param expression - Placeholder contents, e.g. "name | default: \"friend\""
+ * @returns The parsed placeholder, or null if the text does not start with a variable path
+ * @throws Error if a filter is unknown or has the wrong arguments
+ */
+function parsePlaceholder(expression: string): Placeholder | null {
+  const [pathText, ...filterTexts] = splitOutsideQuotes(expression, '|');
+  const path = parseVariablePath(pathText);
+  if (!path) {
+    return null;
+  }
+
+  const filters = filterTexts.map(text => parseFilter(text, expression));
+  return { path, filters };
+}
+
+/**
+ * Resolve a placeholder's variable and apply its filters
+ * @param placeholder - Parsed placeholder
+ * @param context - Values available to the template
+ * @returns The resulting value (undefined or null if the variable is missing)
+ */
+function evaluatePlaceholder(placeholder: Placeholder, context: Record<string, any>): any {
+  let value = resolvePath(context, placeholder.path);
+  for (const filter of placeholder.filters) {
+    if (isMissing(value) && filter.name !== 'default') {
+      continue;
+    }
+    value = FILTERS[filter.name].apply(value, ...filter.args);
+  }
+  return value;
+}
+
+/**
+ * Parse a single filter such as "truncate: 500" or "join: \", \""
+ * @param text - Filter text
+ * @param expression - Whole placeholder, for error messages
+ * @returns The filter name and its arguments
+ */
+function parseFilter(text: string, expression: string): FilterCall {
+  const colon = text.indexOf(':');
+  const name = (colon === -1 ? text : text.slice(0, colon)).trim();
+  const filter = FILTERS[name];
+  if (!filter) {
+    throw new Error(`Unknown filter "${name}" in {{${expression}}}. Available filters: ${Object.keys(FILTERS).join(', ')}`);
+  }
+
+  const args = colon === -1
+    ? []
+    : splitOutsideQuotes(text.slice(colon + 1), ',').map(arg => parseArgument(arg.trim(), expression));
+  if (args.length < filter.minArgs || args.length > filter.maxArgs) {
+    const expected = filter.minArgs === filter.maxArgs ? `${filter.minArgs}` : `${filter.minArgs}-${filter.maxArgs}`;
+    throw new Error(`Filter "${name}" expects ${expected} argument(s) but got ${args.length} in {{${expression}}}`);
+  }
+  if (name === 'truncate' && !(Number.isInteger(args[0]) && (args[0] as number) > 0)) {
+    throw new Error(`Filter "truncate" expects a positive integer length in {{${expression}}}`);
+  }
+
+  return { name, args };
+}
+
+/**
+ * Parse a filter argument: a quoted string (with \n and \t escapes) or a number
+ * @param text - Argument text
+ * @param expression - Whole placeholder, for error messages
+ * @returns The argument value
+ */
+function parseArgument(text: string, expression: string): string | number {
+  const quote = text[0];
+  if ((quote === '"' || quote === "'") && text.length >= 2 && text[text.length - 1] === quote) {
+    return text.slice(1, -1).replace(/\\(.)/g, (_, escaped: string) =>
+      escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped
+    );
+  }
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  throw new Error(`Invalid filter argument "${text}" in {{${expression}}}. Use a number or a quoted string`);
+}
+
+/**
+ * Split text on a separator, ignoring separators inside quoted strings
+ * @param text - Text to split
+ * @param separator - Single separator character
+ * @returns The parts
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && i + 1 < text.length) {
+        current += char + text[++i];
+        continue;
+      }
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+function isMissing(value: any): boolean {
+  return value === undefined || value === null;
+}
+
+function toText(value: any): string {
+  if (isMissing(value)) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,172 @@
+/**
+ * JSON Schema Utility
+ * Parses JSON from model responses and validates it against a JSON Schema.
+ *
+ * Supports the subset of JSON Schema that is useful for describing model output:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * minItems, maxItems, minLength, maxLength, pattern, minimum and maximum.
+ * Other keywords are ignored.
+ */
+
+const SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+/**
+ * Parse JSON from a model response, tolerating a surrounding markdown code fence
+ * @param text - Response text
+ * @returns Parsed value
+ * @throws Error if the text is not valid JSON
+ */
+export function parseJsonResponse(text: string): any {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+  try {
+    return JSON.parse(unfenced);
+  } catch (error: any) {
+    throw new Error(`Response is not valid JSON: ${error.message}`);
+  }
+}
+
+/**
+ * Check that a schema only uses known types
+ * @param schema - Schema to check
+ * @param path - Location within the schema, for error messages
+ * @throws Error if the schema is malformed
+ */
+export function checkSchema(schema: any, path: string = 'schema'): void {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    for (const type of types) {
+      if (!SCHEMA_TYPES.includes(type)) {
+        throw new Error(`${path} has invalid type "${type}". Must be one of: ${SCHEMA_TYPES.join(', ')}`);
+      }
+    }
+  }
+
+  if (schema.properties !== undefined) {
+    if (typeof schema.properties !== 'object' || schema.properties === null) {
+      throw new Error(`${path} properties must be an object`);
+    }
+    for (const [name, propertySchema] of Object.entries(schema.properties)) {
+      checkSchema(propertySchema, `${path}.properties.${name}`);
+    }
+  }
+
+  if (schema.items !== undefined) {
+    checkSchema(schema.items, `${path}.items`);
+  }
+
+  if (schema.required !== undefined && !Array.isArray(schema.required)) {
+    throw new Error(`${path} required must be an array`);
+  }
+}
+
+/**
+ * Validate a value against a schema
+ * @param value - Value to validate
+ * @param schema - JSON Schema
+ * @param path - Location of the value, for error messages
+ * @returns List of validation errors (empty if the value is valid)
+ */
+export function validateAgainstSchema(value: any, schema: any, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')} but got ${describeType(value)}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some((option: any) => deepEqual(option, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters long`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters long`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateAgainstSchema(item, schema.items, `${path}[${index}]`)));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const name of schema.required || []) {
+      if (!(name in value)) {
+        errors.push(`${path}: missing required property "${name}"`);
+      }
+    }
+
+    const properties = schema.properties || {};
+    for (const [name, propertyValue] of Object.entries(value)) {
+      if (properties[name]) {
+        errors.push(...validateAgainstSchema(propertyValue, properties[name], `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${name}"`);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateAgainstSchema(propertyValue, schema.additionalProperties, `${path}.${name}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'object': return isPlainObject(value);
+    case 'array': return Array.isArray(value);
+    case 'null': return value === null;
+    default: return false;
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,83 @@
+/**
+ * Output Validation Utility
+ * Checks model responses against the validate block of a prompt state:
+ * length limits, required and forbidden text, patterns, JSON and refusals.
+ */
+
+import { parseJsonResponse } from './json-schema';
+
+export interface ValidateConfig {
+  minLength?: number;  // Minimum number of characters, ignoring surrounding whitespace
+  maxLength?: number;  // Maximum number of characters, ignoring surrounding whitespace
+  mustContain?: string[];  // Text that must appear in the response
+  mustNotContain?: string[];  // Text that must not appear in the response
+  regex?: string[];  // Patterns the response must match
+  isJson?: boolean;  // The response must be valid JSON
+  refusalPhrases?: string[];  // Phrases that mark a refusal, matched case-insensitively
+}
+
+export const VALIDATE_CHECKS = ['min_length', 'max_length', 'must_contain', 'must_not_contain', 'regex', 'is_json', 'no_refusal'];
+
+/**
+ * Phrases checked by no_refusal: true, matched case-insensitively
+ */
+export const DEFAULT_REFUSAL_PHRASES = [
+  "I'm sorry, but I can't",
+  "I'm sorry, but I cannot",
+  "I can't help with",
+  'I cannot help with',
+  "I can't assist with",
+  'I cannot assist with',
+  "I'm unable to",
+  'I am unable to',
+  "I won't be able to",
+  'As an AI language model',
+  'As an AI model'
+];
+
+/**
+ * Check a response against a state's validate block
+ * @param response - Response text
+ * @param checks - Checks to apply
+ * @returns Descriptions of the failed checks (empty if the response passes)
+ */
+export function checkResponse(response: string, checks: ValidateConfig): string[] {
+  const text = response.trim();
+  const errors: string[] = [];
+
+  if (checks.minLength !== undefined && text.length < checks.minLength) {
+    errors.push(`Response is ${text.length} characters long, but must be at least ${checks.minLength}`);
+  }
+  if (checks.maxLength !== undefined && text.length > checks.maxLength) {
+    errors.push(`Response is ${text.length} characters long, but must be at most ${checks.maxLength}`);
+  }
+  for (const expected of checks.mustContain || []) {
+    if (!text.includes(expected)) {
+      errors.push(`Response must contain "${expected}"`);
+    }
+  }
+  for (const unexpected of checks.mustNotContain || []) {
+    if (text.includes(unexpected)) {
+      errors.push(`Response must not contain "${unexpected}"`);
+    }
+  }
+  for (const pattern of checks.regex || []) {
+    if (!new RegExp(pattern).test(text)) {
+      errors.push(`Response must match the pattern /${pattern}/`);
+    }
+  }
+  if (checks.isJson) {
+    try {
+      parseJsonResponse(text);
+    } catch (error: any) {
+      errors.push(error.message);
+    }
+  }
+  const lowerText = text.toLowerCase();
+  const refusal = (checks.refusalPhrases || []).find(phrase => lowerText.includes(phrase.toLowerCase()));
+  if (refusal) {
+    errors.push(`Response must answer the request instead of refusing it (found "${refusal}")`);
+  }
+
+  return errors;
+}
@@ -0,0 +1,179 @@
+/**
+ * Retry Utility
+ * Classifies failures of model calls and retries them with backoff
+ */
+
+export type RetryCondition = 'connection' | 'timeout' | 'empty_response' | 'validation';
+
+export interface RetryConfig {
+  maxAttempts?: number;
+  backoff?: 'exponential' | 'fixed';
+  initialDelayMs?: number;
+  retryOn?: RetryCondition[];
+}
+
+export const RETRY_CONDITIONS: RetryCondition[] = ['connection', 'timeout', 'empty_response', 'validation'];
+export const BACKOFF_STRATEGIES = ['exponential', 'fixed'];
+
+export const DEFAULT_RETRY_POLICY: Required<RetryConfig> = {
+  maxAttempts: 3,
+  backoff: 'exponential',
+  initialDelayMs: 1000,
+  retryOn: RETRY_CONDITIONS
+};
+
+/**
+ * Error raised for a failure that a retry policy can match by category,
+ * such as an empty model response or output that failed validation
+ */
+export class RetryableError extends Error {
+  constructor(message: string, public readonly category: RetryCondition) {
+    super(message);
+    this.name = 'RetryableError';
+  }
+}
+
+/**
+ * Error raised for an HTTP response with an error status. Retry policies
+ * treat server errors (5xx) as connection failures and never retry client
+ * errors (4xx).
+ */
+export class HttpStatusError extends Error {
+  constructor(public readonly status: number) {
+    super(`Request failed with status code ${status}`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/**
+ * Details of a single attempt, reported to the caller for tracing
+ */
+export interface RetryAttemptEvent {
+  attempt: number;
+  maxAttempts: number;
+  success: boolean;
+  error?: string;
+  category?: RetryCondition;
+  /** Delay before the next attempt, when another attempt will be made */
+  delayMs?: number;
+}
+
+/**
+ * Combine retry configurations, later ones overriding earlier ones field by field
+ * @param configs - Retry configurations, e.g. workflow-level then state-level
+ * @returns The effective policy, or undefined if no configuration is present
+ */
+export function resolveRetryPolicy(...configs: (RetryConfig | undefined)[]): Required<RetryConfig> | undefined {
+  const present = configs.filter((config): config is RetryConfig => config !== undefined);
+  if (present.length === 0) {
+    return undefined;
+  }
+
+  const policy = { ...DEFAULT_RETRY_POLICY };
+  for (const config of present) {
+    if (config.maxAttempts !== undefined) policy.maxAttempts = config.maxAttempts;
+    if (config.backoff !== undefined) policy.backoff = config.backoff;
+    if (config.initialDelayMs !== undefined) policy.initialDelayMs = config.initialDelayMs;
+    if (config.retryOn !== undefined) policy.retryOn = config.retryOn;
+  }
+  return policy;
+}
+
+/**
+ * Determine which retry condition an error falls under
+ * @param error - Error thrown by an attempt
+ * @returns The matching condition, or undefined if the error is not retryable
+ */
+export function classifyError(error: any): RetryCondition | undefined {
+  if (error instanceof RetryableError) {
+    return error.category;
+  }
+  if (error instanceof HttpStatusError) {
+    return error.status >= 500 ? 'connection' : undefined;
+  }
+
+  const code = error?.code || '';
+  const message = String(error?.message || '');
+
+  if (code === 'ETIMEDOUT' || code === 'ECONNABORTED' || /timed? ?out/i.test(message)) {
+    return 'timeout';
+  }
+  if (['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'].includes(code) ||
+      /cannot connect|ECONNREFUSED|ECONNRESET|socket hang up|status code 5\d\d/i.test(message)) {
+    return 'connection';
+  }
+  return undefined;
+}
+
+/**
+ * Delay before the given retry
+ * @param policy - Retry policy
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(policy: Required<RetryConfig>, attempt: number): number {
+  if (policy.backoff === 'fixed') {
+    return policy.initialDelayMs;
+  }
+  return policy.initialDelayMs * Math.pow(2, attempt - 1);
+}
+
+/**
+ * Wait before the next attempt
+ * @param ms - Delay in milliseconds
+ * @param signal - Ends the wait early when aborted
+ * @throws The signal's reason if it is aborted before the delay has passed
+ */
+function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run an operation, retrying failures that match the policy
+ * @param operation - Operation to run, given the 1-based attempt number
+ * @param policy - Retry policy
+ * @param onAttempt - Callback invoked after every attempt
+ * @param signal - Cancels the wait between attempts when aborted
+ * @returns Result of the first successful attempt
+ * @throws The last error when attempts run out or the error is not retryable,
+ * or the signal's reason if it is aborted while waiting for the next attempt
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: Required<RetryConfig>,
+  onAttempt?: (event: RetryAttemptEvent) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await operation(attempt);
+      onAttempt?.({ attempt, maxAttempts: policy.maxAttempts, success: true });
+      return result;
+    } catch (error: any) {
+      const category = classifyError(error);
+      const willRetry = attempt < policy.maxAttempts && category !== undefined && policy.retryOn.includes(category);
+      const delayMs = willRetry ? getRetryDelay(policy, attempt) : undefined;
+
+      onAttempt?.({ attempt, maxAttempts: policy.maxAttempts, success: false, error: error.message, category, delayMs });
+
+      if (!willRetry) {
+        throw error;
+      }
+      await waitForRetry(delayMs!, signal);
+    }
+  }
+}
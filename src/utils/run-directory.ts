@@ -13,6 +13,13 @@ export interface RunDirectoryInfo {
   timestamp: string;
 }
 
+export interface RunMetadata {
+  workflowName: string;
+  workflowFile?: string;
+  timestamp: string;
+  runDirectory: string;
+}
+
 /**
  * Generate a unique directory name for a workflow run
  * @param workflowName - Name of the workflow
@@ -83,11 +90,13 @@ export function getTraceLogPath(runDirectoryPath: string): string {
 /**
  * Write run metadata to the run directory
  * @param runDirInfo - Run directory information
+ * @param workflowFile - Optional absolute path of the workflow file, needed to resume the run
  */
-export function writeRunMetadata(runDirInfo: RunDirectoryInfo): void {
+export function writeRunMetadata(runDirInfo: RunDirectoryInfo, workflowFile?: string): void {
   const metadataPath = path.join(runDirInfo.path, 'run-metadata.json');
-  const metadata = {
+  const metadata: RunMetadata = {
     workflowName: runDirInfo.workflowName,
+    workflowFile,
     timestamp: runDirInfo.timestamp,
     runDirectory: runDirInfo.path
   };
@@ -99,3 +108,22 @@ export function writeRunMetadata(runDirInfo: RunDirectoryInfo): void {
     console.warn(`Warning: Failed to write run metadata: ${error.message}`);
   }
 }
+
+/**
+ * Read the run metadata of a run directory
+ * @param runDirectoryPath - Path to the run directory
+ * @returns Run metadata
+ * @throws Error if the metadata file is missing or invalid
+ */
+export function readRunMetadata(runDirectoryPath: string): RunMetadata {
+  const metadataPath = path.join(runDirectoryPath, 'run-metadata.json');
+  if (!fs.existsSync(metadataPath)) {
+    throw new Error(`Not a run directory (missing run-metadata.json): ${runDirectoryPath}`);
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Failed to read run metadata ${metadataPath}: ${error.message}`);
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Run Limits Utility
+ * Tracks what a run has used (states, model calls, tokens and time) and finds
+ * the first workflow-level limit it has reached.
+ */
+
+export interface RunLimits {
+  maxStatesExecuted?: number;  // States started, including fallbacks and states of called workflows
+  maxLlmCalls?: number;  // Completed model calls
+  maxTotalTokens?: number;  // Prompt and response tokens, as counted by Ollama
+  maxDurationMs?: number;  // Wall-clock time since the run started
+  onLimit?: string;  // State to go to when a limit is reached (default: stop the run)
+}
+
+export interface RunUsage {
+  statesExecuted: number;
+  llmCalls: number;
+  totalTokens: number;
+  startedAt: number;  // Epoch milliseconds
+}
+
+export const LIMIT_FIELDS = ['max_states_executed', 'max_llm_calls', 'max_total_tokens', 'max_duration', 'on_limit'];
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+
+/**
+ * Create the usage of a run that starts now
+ * @param now - Start time in epoch milliseconds
+ * @returns Usage with every counter at zero
+ */
+export function createRunUsage(now: number = Date.now()): RunUsage {
+  return { statesExecuted: 0, llmCalls: 0, totalTokens: 0, startedAt: now };
+}
+
+/**
+ * Convert a duration to milliseconds
+ * @param value - Milliseconds, or a number with a unit such as "500ms", "90s", "10m" or "1h"
+ * @returns Milliseconds, or undefined if the value is not a positive duration
+ */
+export function parseDuration(value: number | string): number | undefined {
+  if (typeof value === 'number') {
+    return value > 0 ? value : undefined;
+  }
+  const match = typeof value === 'string' ? value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h)$/) : null;
+  if (!match) {
+    return undefined;
+  }
+  const ms = parseFloat(match[1]) * DURATION_UNITS[match[2]];
+  return ms > 0 ? ms : undefined;
+}
+
+/**
+ * Find the first limit a run has reached
+ * @param limits - Limits of the workflow
+ * @param usage - What the run has used so far
+ * @param now - Current time in epoch milliseconds
+ * @returns Description of the reached limit, or undefined if the run may go on
+ */
+export function findExceededLimit(limits: RunLimits, usage: RunUsage, now: number = Date.now()): string | undefined {
+  if (limits.maxStatesExecuted !== undefined && usage.statesExecuted >= limits.maxStatesExecuted) {
+    return `Limit max_states_executed of ${limits.maxStatesExecuted} reached`;
+  }
+  if (limits.maxLlmCalls !== undefined && usage.llmCalls >= limits.maxLlmCalls) {
+    return `Limit max_llm_calls of ${limits.maxLlmCalls} reached`;
+  }
+  if (limits.maxTotalTokens !== undefined && usage.totalTokens >= limits.maxTotalTokens) {
+    return `Limit max_total_tokens of ${limits.maxTotalTokens} reached (${usage.totalTokens} tokens used)`;
+  }
+  const elapsed = now - usage.startedAt;
+  if (limits.maxDurationMs !== undefined && elapsed >= limits.maxDurationMs) {
+    return `Limit max_duration of ${limits.maxDurationMs} ms reached (${elapsed} ms elapsed)`;
+  }
+  return undefined;
+}
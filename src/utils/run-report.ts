@@ -0,0 +1,184 @@
+/**
+ * Run Report Utility
+ * Records what happened during a run (states, outputs, timings and errors)
+ * for machine-readable output with `agentmech run --output json|jsonl`
+ */
+
+export const OUTPUT_FORMATS = ['text', 'json', 'jsonl'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export type RunStatus = 'completed' | 'failed' | 'stopped';
+
+export interface StateRecord {
+  state: string;
+  type: string;
+  status: 'completed' | 'failed';
+  startedAt: string;
+  durationMs: number;
+  output?: any;  // The state's saved value or response
+  error?: string;
+}
+
+export interface RunReport {
+  workflow: string;
+  status: RunStatus;
+  runDirectory?: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  history: string[];
+  states: StateRecord[];
+  outputs: Record<string, any>;  // Latest output of each state that produced one
+  context: Record<string, any>;
+  error?: string;
+  reason?: string;  // Why a stopped run stopped, when it was not stopped by the user
+}
+
+export type RunEvent =
+  | { type: 'run_start'; timestamp: string; workflow: string; runDirectory?: string }
+  | { type: 'state_start'; timestamp: string; state: string; stateType: string }
+  | { type: 'state_complete'; timestamp: string; state: string; stateType: string; durationMs: number; output?: any }
+  | { type: 'state_error'; timestamp: string; state: string; stateType: string; durationMs: number; error: string }
+  | ({ type: 'run_end'; timestamp: string } & RunReport);
+
+/**
+ * Collects the events of a run into a report
+ */
+export class RunRecorder {
+  private workflowName: string;
+  private runDirectory?: string;
+  private onEvent?: (event: RunEvent) => void;
+  private startedAt: Date;
+  private states: StateRecord[] = [];
+  private current?: { state: string; type: string; started: Date };
+  private report?: RunReport;
+
+  /**
+   * @param workflowName - Name of the workflow being run
+   * @param runDirectory - Run directory, if any
+   * @param onEvent - Called with each event as it happens
+   */
+  constructor(workflowName: string, runDirectory?: string, onEvent?: (event: RunEvent) => void) {
+    this.workflowName = workflowName;
+    this.runDirectory = runDirectory;
+    this.onEvent = onEvent;
+    this.startedAt = new Date();
+    this.emit({ type: 'run_start', timestamp: this.startedAt.toISOString(), workflow: workflowName, runDirectory });
+  }
+
+  /**
+   * Record that a state started
+   * @param stateName - Name of the state
+   * @param stateType - Type of the state
+   */
+  stateStarted(stateName: string, stateType: string): void {
+    const started = new Date();
+    this.current = { state: stateName, type: stateType, started };
+    this.emit({ type: 'state_start', timestamp: started.toISOString(), state: stateName, stateType });
+  }
+
+  /**
+   * Record that the current state completed
+   * @param output - The state's output, if it produced one
+   */
+  stateCompleted(output?: any): void {
+    const record = this.finishState('completed');
+    if (output !== undefined) {
+      record.output = output;
+    }
+    this.emit({ type: 'state_complete', timestamp: new Date().toISOString(), state: record.state, stateType: record.type, durationMs: record.durationMs, output });
+  }
+
+  /**
+   * Record that the current state failed
+   * @param error - Error message
+   */
+  stateFailed(error: string): void {
+    const record = this.finishState('failed');
+    record.error = error;
+    this.emit({ type: 'state_error', timestamp: new Date().toISOString(), state: record.state, stateType: record.type, durationMs: record.durationMs, error });
+  }
+
+  /**
+   * Record the end of the run
+   * @param status - How the run ended
+   * @param context - Final context
+   * @param history - States run, in order
+   * @param error - Error that ended the run, if it failed
+   * @param reason - Why the run stopped, if a limit stopped it
+   */
+  runFinished(status: RunStatus, context: Record<string, any>, history: string[], error?: string, reason?: string): void {
+    const finished = new Date();
+    const outputs: Record<string, any> = {};
+    for (const record of this.states) {
+      if (record.output !== undefined) {
+        outputs[record.state] = record.output;
+      }
+    }
+
+    this.report = {
+      workflow: this.workflowName,
+      status,
+      runDirectory: this.runDirectory,
+      startedAt: this.startedAt.toISOString(),
+      finishedAt: finished.toISOString(),
+      durationMs: finished.getTime() - this.startedAt.getTime(),
+      history: [...history],
+      states: this.states,
+      outputs,
+      context: { ...context },
+      ...(error !== undefined ? { error } : {}),
+      ...(reason !== undefined ? { reason } : {})
+    };
+    this.emit({ type: 'run_end', timestamp: finished.toISOString(), ...this.report });
+  }
+
+  /**
+   * Get the report of a finished run
+   * @returns The report, or undefined if the run has not finished
+   */
+  getReport(): RunReport | undefined {
+    return this.report;
+  }
+
+  private finishState(status: StateRecord['status']): StateRecord {
+    const current = this.current || { state: 'unknown', type: 'unknown', started: new Date() };
+    const record: StateRecord = {
+      state: current.state,
+      type: current.type,
+      status,
+      startedAt: current.started.toISOString(),
+      durationMs: Date.now() - current.started.getTime()
+    };
+    this.states.push(record);
+    this.current = undefined;
+    return record;
+  }
+
+  private emit(event: RunEvent): void {
+    if (this.onEvent) {
+      this.onEvent(event);
+    }
+  }
+}
+
+/**
+ * Send everything written to stdout, including console output and streamed
+ * tokens, to stderr instead, so that stdout only carries machine-readable output
+ * @returns Writes text to the real stdout, and restores stdout when done
+ */
+export function redirectStdoutToStderr(): { write: (text: string) => void; restore: () => void } {
+  const stdoutWrite = process.stdout.write;
+
+  process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+
+  return {
+    write: (text: string) => {
+      stdoutWrite.call(process.stdout, text);
+    },
+    restore: () => {
+      process.stdout.write = stdoutWrite;
+    }
+  };
+}
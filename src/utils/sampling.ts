@@ -0,0 +1,91 @@
+/**
+ * Sampling Utility
+ * Picks one response out of several samples of the same prompt, by majority
+ * vote, by length or with a judge prompt, and reads numbered choices from
+ * model answers.
+ */
+
+export type SelectStrategy = 'majority' | 'longest' | 'judge';
+
+export const SELECT_STRATEGIES: SelectStrategy[] = ['majority', 'longest', 'judge'];
+
+/**
+ * Normalize an answer for voting, so that answers differing only in case,
+ * whitespace, quotes, markdown emphasis or final punctuation count as the same
+ * @param text - Answer text
+ * @returns Normalized answer
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[*_`"]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[.!?;:,]+$/, '')
+    .trim();
+}
+
+/**
+ * Find the most frequent of a list of keys. Ties go to the key seen first.
+ * @param keys - Keys to count, such as normalized answers
+ * @returns Index of the first occurrence of the winning key, and its count
+ */
+export function pickMajority(keys: string[]): { index: number; votes: number } {
+  const counts = new Map<string, number>();
+  for (const key of keys) {
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+
+  let best = { index: 0, votes: 0 };
+  keys.forEach((key, index) => {
+    const votes = counts.get(key)!;
+    if (votes > best.votes) {
+      best = { index, votes };
+    }
+  });
+  return best;
+}
+
+/**
+ * Find the longest of a list of responses. Ties go to the earliest.
+ * @param responses - Responses to compare
+ * @returns Index of the longest response
+ */
+export function pickLongest(responses: string[]): number {
+  let best = 0;
+  responses.forEach((response, index) => {
+    if (response.trim().length > responses[best].trim().length) {
+      best = index;
+    }
+  });
+  return best;
+}
+
+/**
+ * Build the prompt that asks a judge model to pick the best candidate
+ * @param prompt - Prompt the candidates answer
+ * @param candidates - Candidate responses
+ * @returns Judge prompt
+ */
+export function buildJudgePrompt(prompt: string, candidates: string[]): string {
+  const listed = candidates.map((candidate, index) => `Candidate ${index + 1}:\n${candidate}`).join('\n\n');
+  return `Several candidate responses were written for the following task.\n\n` +
+    `Task:\n${prompt}\n\n${listed}\n\n` +
+    `Which candidate answers the task best? Respond with ONLY the number (1-${candidates.length}) of the best candidate.`;
+}
+
+/**
+ * Read a numbered choice from a model answer, such as "2" or "Option 2."
+ * @param answer - Model answer
+ * @param count - Number of options, numbered from 1
+ * @returns Zero-based index of the chosen option, or undefined if the first
+ * number in the answer is out of range or there is none
+ */
+export function parseChoice(answer: string, count: number): number | undefined {
+  const match = answer.match(/\d+/);
+  if (!match) {
+    return undefined;
+  }
+  const index = parseInt(match[0], 10) - 1;
+  return index >= 0 && index < count ? index : undefined;
+}
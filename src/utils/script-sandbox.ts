@@ -0,0 +1,93 @@
+/**
+ * Script Sandbox Utility
+ * Runs the JavaScript of script states in a separate V8 context. Scripts see
+ * a JSON copy of the workflow variables and nothing of the host: no require,
+ * no process, no filesystem or network, and no eval. Their return value is
+ * passed back as JSON, so no object crosses between the two contexts.
+ */
+
+import * as vm from 'vm';
+
+export const DEFAULT_SCRIPT_TIMEOUT_MS = 1000;
+
+/**
+ * Parses the variables inside the sandbox and makes them globals, without
+ * hiding the built-ins scripts rely on (JSON, Math, ...)
+ */
+const SETUP_CODE = `(() => {
+  const variables = JSON.parse(__variables);
+  delete globalThis.__variables;
+  for (const [name, value] of Object.entries(variables)) {
+    if (!(name in globalThis)) {
+      globalThis[name] = value;
+    }
+  }
+  globalThis.context = variables;
+})()`;
+
+export interface RunScriptOptions {
+  timeoutMs?: number;  // Time limit for the script (default: 1 second)
+}
+
+/**
+ * Compile a script, to report syntax errors before it runs
+ * @param code - Function body; its return value is the result
+ * @returns Compiled script
+ * @throws Error if the script is not valid JavaScript
+ */
+export function compileScript(code: string): vm.Script {
+  try {
+    return new vm.Script(wrapScript(code), { filename: 'script.js' });
+  } catch (error: any) {
+    throw new Error(`Script has a syntax error: ${error.message}`);
+  }
+}
+
+/**
+ * Run a script over the workflow variables
+ * @param code - Function body; its return value is the result
+ * @param variables - Workflow variables, available by name and as `context`
+ * @param options - Run options
+ * @returns The script's return value, or undefined if it returns nothing
+ * @throws Error if the script throws, times out or returns a value that is not JSON
+ */
+export function runScript(code: string, variables: Record<string, any>, options: RunScriptOptions = {}): any {
+  const script = compileScript(code);
+
+  // A global object without a prototype gives scripts no path to the host's Function
+  const sandbox = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: 'afterEvaluate'
+  });
+  sandbox.__variables = JSON.stringify(variables);
+  vm.runInContext(SETUP_CODE, sandbox);
+
+  let result: string | undefined;
+  try {
+    result = script.runInContext(sandbox, { timeout: options.timeoutMs ?? DEFAULT_SCRIPT_TIMEOUT_MS });
+  } catch (error: any) {
+    // Errors thrown inside the sandbox are not host Error objects
+    const message = error && error.message ? error.message : String(error);
+    throw new Error(error && error.name && error.name !== 'Error' ? `${error.name}: ${message}` : message);
+  }
+
+  return result === undefined ? undefined : JSON.parse(result);
+}
+
+/**
+ * Turn a script into an expression that returns its result as JSON text
+ * @param code - Function body
+ * @returns Expression to run in the sandbox
+ */
+function wrapScript(code: string): string {
+  return `(() => {
+  const result = (function () {
+    "use strict";
+${code}
+  })();
+  if (result && typeof result.then === 'function') {
+    throw new Error('Scripts run synchronously and must not return a promise');
+  }
+  return JSON.stringify(result);
+})()`;
+}
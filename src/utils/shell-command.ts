@@ -0,0 +1,217 @@
+/**
+ * Shell Command Utility
+ * Checks command templates against an allowlist and runs commands for
+ * command states, capturing their output and exit code.
+ */
+
+import { spawn } from 'child_process';
+import * as os from 'os';
+
+export const DEFAULT_COMMAND_TIMEOUT_MS = 60000;
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+  exit_code: number;  // Named as used in workflows, e.g. {{diff.exit_code}}
+}
+
+export interface RunCommandOptions {
+  cwd: string;
+  timeoutMs?: number;  // Time limit for the command (default: 60 seconds)
+  signal?: AbortSignal;  // Kills the command when aborted
+}
+
+/**
+ * Quote a value as a single shell argument
+ * @param value - Value to quote
+ * @returns The value in single quotes
+ */
+export function quoteShellArg(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quote a value interpolated into a command as one argument. Values starting
+ * with "-" are rejected, since commands would read them as options.
+ * @param value - Value to quote
+ * @returns The value in single quotes
+ * @throws Error if the value starts with "-"
+ */
+export function quoteCommandValue(value: string): string {
+  if (value.startsWith('-')) {
+    throw new Error(`Command values cannot start with "-", as they would be read as options (got "${value}")`);
+  }
+  return quoteShellArg(value);
+}
+
+/**
+ * Find the commands of a command template that are not allowed. Every command
+ * of the line (separated by ;, &&, ||, | or &) must start with the words of
+ * an allowed command, e.g. "git" allows "git diff" and "npx eslint" allows
+ * "npx eslint src".
+ * @param template - Command template, before interpolation
+ * @param allowedCommands - Allowed commands
+ * @returns Error messages (empty if the template only runs allowed commands)
+ */
+export function findDisallowedCommands(template: string, allowedCommands: string[]): string[] {
+  const syntaxErrors = findDisallowedSyntax(template);
+  if (syntaxErrors.length > 0) {
+    return syntaxErrors;
+  }
+
+  const allowed = allowedCommands.map(command => command.trim().split(/\s+/));
+  const errors: string[] = [];
+  for (const segment of splitCommandLine(template)) {
+    const words = segment.trim().split(/\s+/).filter(word => word.length > 0);
+    if (words.length === 0) {
+      continue;
+    }
+    const isAllowed = allowed.some(prefix => prefix.every((word, i) => words[i] === word));
+    if (!isAllowed) {
+      errors.push(`"${words.join(' ')}" is not an allowed command (allowed: ${allowedCommands.join(', ')})`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Find shell syntax that would let interpolated values run as code: command
+ * and process substitution, ${...} expansion, and placeholders inside quotes
+ * (which would put the quoted value inside the template's own quotes)
+ * @param template - Command template, before interpolation
+ * @returns Error messages (empty if there is none of this syntax)
+ */
+function findDisallowedSyntax(template: string): string[] {
+  const errors: string[] = [];
+  if (/\$\(|`/.test(template)) {
+    errors.push('Command substitution ($(...) or backticks) is not allowed');
+  }
+  if (/[<>]\(/.test(template)) {
+    errors.push('Process substitution (<(...) or >(...)) is not allowed');
+  }
+  if (/\$\{/.test(template)) {
+    errors.push('Parameter expansion (${...}) is not allowed');
+  }
+
+  let quote: string | null = null;
+  for (let i = 0; i < template.length; i++) {
+    const char = template[i];
+    if (char === '\\' && quote !== "'") {
+      i++;
+    } else if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (template.startsWith('{{', i)) {
+        const end = template.indexOf('}}', i);
+        const placeholder = end === -1 ? template.slice(i) : template.slice(i, end + 2);
+        errors.push(`Placeholder ${placeholder} cannot be inside quotes, as values are quoted when the command runs`);
+        i = end === -1 ? template.length : end + 1;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    }
+  }
+  return errors;
+}
+
+/**
+ * Split a command line into its commands at ;, &&, ||, |, & and newlines,
+ * leaving quoted text and redirections such as 2>&1 intact
+ * @param line - Command line
+ * @returns Commands of the line
+ */
+function splitCommandLine(line: string): string[] {
+  const segments: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"') {
+        current += char + (line[++i] ?? '');
+        continue;
+      }
+      current += char;
+    } else if (char === '\\') {
+      current += char + (line[++i] ?? '');
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === '&' && (line[i - 1] === '>' || line[i - 1] === '<' || line[i + 1] === '>')) {
+      current += char;
+    } else if (';|&\n'.includes(char)) {
+      segments.push(current);
+      current = '';
+      if ((char === '&' || char === '|') && line[i + 1] === char) {
+        i++;
+      }
+    } else {
+      current += char;
+    }
+  }
+  segments.push(current);
+  return segments;
+}
+
+/**
+ * Run a command line with the system shell
+ * @param command - Command line to run
+ * @param options - Run options
+ * @returns Output and exit code of the command
+ * @throws Error if the command cannot be started, times out or is aborted
+ */
+export function runCommand(command: string, options: RunCommandOptions): Promise<CommandResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS;
+
+  return new Promise((resolve, reject) => {
+    // Its own process group, so a kill also reaches the commands the shell started
+    const detached = process.platform !== 'win32';
+    const child = spawn(command, { cwd: options.cwd, shell: true, detached, stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    let failure: Error | undefined;
+
+    const kill = (error: Error) => {
+      failure = failure || error;
+      try {
+        if (detached && child.pid) {
+          process.kill(-child.pid, 'SIGTERM');
+        } else {
+          child.kill('SIGTERM');
+        }
+      } catch {
+        // The command has already exited
+      }
+    };
+    const timer = setTimeout(() => kill(new Error(`Command timed out after ${timeoutMs}ms`)), timeoutMs);
+    const onAbort = () => kill(options.signal!.reason instanceof Error ? options.signal!.reason : new Error('Command aborted'));
+    if (options.signal?.aborted) {
+      onAbort();
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stdout!.setEncoding('utf8').on('data', chunk => { stdout += chunk; });
+    child.stderr!.setEncoding('utf8').on('data', chunk => { stderr += chunk; });
+
+    const settle = () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+    child.on('error', error => {
+      settle();
+      reject(new Error(`Failed to start command: ${error.message}`));
+    });
+    child.on('close', (code, signal) => {
+      settle();
+      if (failure) {
+        reject(failure);
+        return;
+      }
+      // A command killed by a signal has no exit code; report it the way shells do
+      resolve({ stdout, stderr, exit_code: code ?? 128 + (signal ? os.constants.signals[signal] : 0) });
+    });
+  });
+}
@@ -5,6 +5,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { HttpRequest, HttpResponse } from './http-request';
 
 interface TraceEvent {
   timestamp: string;
@@ -144,6 +145,30 @@ class Tracer {
     });
   }
 
+  /**
+   * Log a request sent by an http state (headers are left out, as they often hold credentials)
+   * @param stateName - Name of the state
+   * @param request - Request sent
+   * @param durationMs - Time until the response or failure
+   * @param response - Response received, if any
+   * @param error - Error message if the request failed
+   */
+  traceHttpRequest(stateName: string, request: HttpRequest, durationMs: number, response?: HttpResponse, error?: string): void {
+    const toText = (body: any) => (typeof body === 'string' ? body : JSON.stringify(body));
+    this.trace('http_request', {
+      state: stateName,
+      method: request.method,
+      url: request.url,
+      query: request.query ?? null,
+      request_body: request.body !== undefined ? this.truncate(toText(request.body), 200) : null,
+      status: response ? response.status : null,
+      response_body: response ? this.truncate(toText(response.body), 200) : null,
+      duration_ms: durationMs,
+      success: !error,
+      error: error || null
+    });
+  }
+
   /**
    * Log an MCP server registration
    * @param serverName - Name of the server
@@ -180,6 +205,25 @@ class Tracer {
     });
   }
 
+  /**
+   * Log an MCP tool call
+   * @param serverName - Name of the server providing the tool
+   * @param toolName - Name of the tool
+   * @param args - Arguments passed to the tool
+   * @param result - Text result returned by the tool
+   * @param error - Error message if the call failed
+   */
+  traceToolCall(serverName: string, toolName: string, args: Record<string, any>, result?: string, error?: string): void {
+    this.trace('mcp_tool_call', {
+      server: serverName,
+      tool: toolName,
+      arguments: this.truncate(JSON.stringify(args), 200),
+      result: result !== undefined ? this.truncate(result, 200) : undefined,
+      success: !error,
+      error
+    });
+  }
+
   /**
    * Log a context variable update
    * @param variableName - Name of the variable
@@ -219,6 +263,41 @@ class Tracer {
     });
   }
 
+  /**
+   * Log an attempt of a model call made under a retry policy
+   * @param stateName - Name of the state making the call
+   * @param attempt - Attempt number (1-based)
+   * @param maxAttempts - Maximum number of attempts
+   * @param error - Error message if the attempt failed
+   * @param category - Retry category of the failure, if it has one
+   * @param delayMs - Delay before the next attempt, if another will be made
+   */
+  traceRetryAttempt(stateName: string, attempt: number, maxAttempts: number, error?: string, category?: string, delayMs?: number): void {
+    this.trace('retry_attempt', {
+      state: stateName,
+      attempt,
+      max_attempts: maxAttempts,
+      success: !error,
+      error: error || null,
+      category: category || null,
+      retry_in_ms: delayMs ?? null
+    });
+  }
+
+  /**
+   * Log an expression-based routing decision
+   * @param stateName - Name of the state whose switch was evaluated
+   * @param nextState - Selected next state
+   * @param matchedExpression - Expression of the matching case, if any
+   */
+  traceSwitchDecision(stateName: string, nextState: string, matchedExpression?: string): void {
+    this.trace('switch_decision', {
+      state: stateName,
+      next_state: nextState,
+      matched: matchedExpression || null
+    });
+  }
+
   /**
    * Log an error
    * @param errorType - Type of error
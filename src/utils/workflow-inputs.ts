@@ -0,0 +1,199 @@
+/**
+ * Workflow Inputs Utility
+ * Checks and converts the values given for a workflow's declared inputs,
+ * whether they come from --var, an inputs file, the web form or a call state
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const INPUT_TYPES = ['string', 'number', 'boolean', 'enum', 'file', 'json'] as const;
+
+export type InputType = typeof INPUT_TYPES[number];
+
+export interface InputDefinition {
+  type: InputType;
+  description?: string;
+  required?: boolean;
+  default?: any;  // Used when no value is given (for file inputs, an absolute path)
+  values?: string[];  // Allowed values of an enum input
+}
+
+export interface ResolveInputsOptions {
+  /** Directory that file input paths are relative to. When omitted, file inputs hold the file contents. */
+  fileBaseDir?: string;
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+/**
+ * Check the given values against the declared inputs and convert them to their types
+ * @param definitions - Declared inputs, or undefined if the workflow declares none
+ * @param provided - Given values by input name
+ * @param options - Resolution options
+ * @returns Variables to start the run with, including defaults
+ * @throws Error listing every unknown, missing or invalid input
+ */
+export function resolveInputs(
+  definitions: Record<string, InputDefinition> | undefined,
+  provided: Record<string, any>,
+  options: ResolveInputsOptions = {}
+): Record<string, any> {
+  // Workflows without declared inputs take the values as they are
+  if (!definitions) {
+    return { ...provided };
+  }
+
+  const errors: string[] = [];
+  const values: Record<string, any> = {};
+
+  for (const name of Object.keys(provided)) {
+    if (!definitions[name]) {
+      errors.push(`Unknown input "${name}". Declared inputs: ${Object.keys(definitions).join(', ') || 'none'}`);
+    }
+  }
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    try {
+      if (provided[name] !== undefined) {
+        values[name] = coerceInput(name, definition, provided[name], options.fileBaseDir);
+      } else if (definition.default !== undefined) {
+        // File defaults are always paths, resolved when the workflow was parsed
+        values[name] = coerceInput(name, definition, definition.default, definition.type === 'file' ? '' : undefined);
+      } else if (definition.required) {
+        errors.push(`Missing required input "${name}"${definition.description ? ` (${definition.description})` : ''}`);
+      }
+    } catch (error: any) {
+      errors.push(error.message);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid workflow inputs:\n  - ${errors.join('\n  - ')}`);
+  }
+  return values;
+}
+
+/**
+ * Find required inputs that have neither a given value nor a default
+ * @param definitions - Declared inputs
+ * @param provided - Given values by input name
+ * @returns Names of the missing inputs
+ */
+export function findMissingInputs(definitions: Record<string, InputDefinition> | undefined, provided: Record<string, any>): string[] {
+  return Object.entries(definitions || {})
+    .filter(([name, definition]) => definition.required && definition.default === undefined && provided[name] === undefined)
+    .map(([name]) => name);
+}
+
+/**
+ * Convert a value to an input's type
+ * @param name - Input name, for error messages
+ * @param definition - Input definition
+ * @param value - Given value
+ * @param fileBaseDir - Directory file paths are relative to; undefined if file values are contents
+ * @returns The converted value
+ * @throws Error if the value does not match the type
+ */
+export function coerceInput(name: string, definition: InputDefinition, value: any, fileBaseDir?: string): any {
+  const text = typeof value === 'string' ? value.trim() : value;
+
+  switch (definition.type) {
+    case 'number': {
+      const number = typeof text === 'number' ? text : Number(text);
+      if (text === '' || typeof text === 'boolean' || !Number.isFinite(number)) {
+        throw new Error(`Input "${name}" must be a number, got ${JSON.stringify(value)}`);
+      }
+      return number;
+    }
+    case 'boolean': {
+      if (typeof text === 'boolean') {
+        return text;
+      }
+      const normalized = String(text).toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) {
+        return true;
+      }
+      if (FALSE_VALUES.includes(normalized)) {
+        return false;
+      }
+      throw new Error(`Input "${name}" must be true or false, got ${JSON.stringify(value)}`);
+    }
+    case 'enum': {
+      const allowed = definition.values || [];
+      if (!allowed.includes(String(text))) {
+        throw new Error(`Input "${name}" must be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+      }
+      return String(text);
+    }
+    case 'json': {
+      if (typeof value !== 'string') {
+        return value;
+      }
+      try {
+        return JSON.parse(value);
+      } catch (error: any) {
+        throw new Error(`Input "${name}" must be valid JSON: ${error.message}`);
+      }
+    }
+    case 'file': {
+      if (fileBaseDir === undefined) {
+        return String(value);
+      }
+      const filePath = path.resolve(fileBaseDir, String(text));
+      try {
+        return fs.readFileSync(filePath, 'utf8');
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          throw new Error(`Input "${name}" file not found: ${filePath}`);
+        }
+        throw new Error(`Failed to read file for input "${name}": ${error.message}`);
+      }
+    }
+    default:
+      return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  }
+}
+
+/**
+ * Parse --var assignments such as "topic=solar power"
+ * @param assignments - Assignments in key=value form
+ * @returns Values by input name (later assignments win)
+ * @throws Error if an assignment has no "=" or an empty key
+ */
+export function parseVarAssignments(assignments: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const assignment of assignments) {
+    const separator = assignment.indexOf('=');
+    const key = separator === -1 ? '' : assignment.slice(0, separator).trim();
+    if (!key) {
+      throw new Error(`Invalid --var "${assignment}". Use --var key=value`);
+    }
+    values[key] = assignment.slice(separator + 1);
+  }
+  return values;
+}
+
+/**
+ * Read input values from a JSON file
+ * @param filePath - Path to a JSON file holding an object of input values
+ * @returns Values by input name
+ * @throws Error if the file cannot be read or does not hold an object
+ */
+export function readInputsFile(filePath: string): Record<string, any> {
+  let values: any;
+  try {
+    values = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`Inputs file not found: ${filePath}`);
+    }
+    throw new Error(`Failed to read inputs file ${filePath}: ${error.message}`);
+  }
+
+  if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+    throw new Error(`Inputs file ${filePath} must contain a JSON object of input values`);
+  }
+  return values;
+}
@@ -2,12 +2,17 @@ import express, { Request, Response } from 'express';
 import cors from 'cors';
 import * as path from 'path';
 import * as fs from 'fs';
+import { randomUUID } from 'crypto';
 import WorkflowDiscovery = require('../workflow/discovery');
 import WorkflowParser = require('../workflow/parser');
 import WorkflowExecutor = require('../workflow/executor');
-import WebWorkflowExecutor = require('./workflow-executor');
+import { SseAdapter } from '../io/sse-adapter';
 import * as RunDirectory from '../utils/run-directory';
 import CliFormatter from '../utils/cli-formatter';
+import { resolveInputs } from '../utils/workflow-inputs';
+
+// How long submitted input values wait for the run that uses them
+const SUBMITTED_INPUTS_TTL_MS = 10 * 60 * 1000;
 
 interface ServeOptions {
   port: number;
@@ -19,16 +24,18 @@ class WebServer {
   private app: express.Application;
   private options: ServeOptions;
   private server: any;
-  private activeExecutions: Map<string, WebWorkflowExecutor>;
+  private activeExecutions: Map<string, { executor: WorkflowExecutor; adapter: SseAdapter }>;
+  private submittedInputs: Map<string, Record<string, any>>;
 
   constructor(options: ServeOptions) {
     this.options = options;
     this.app = express();
     this.activeExecutions = new Map();
+    this.submittedInputs = new Map();
     
     // Middleware
     this.app.use(cors());
-    this.app.use(express.json());
+    this.app.use(express.json({ limit: '10mb' }));
     
     // Setup routes
     this.setupRoutes();
@@ -88,6 +95,31 @@ class WebServer {
       }
     });
 
+    // API: Check input values for a workflow before starting it
+    this.app.post('/api/workflows/:fileName/inputs', (req: Request, res: Response) => {
+      const filePath = path.join(this.options.workflowDir, req.params.fileName);
+      
+      // Security check: ensure file is within workflow directory
+      const resolvedPath = path.resolve(filePath);
+      const resolvedDir = path.resolve(this.options.workflowDir);
+      if (!resolvedPath.startsWith(resolvedDir)) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      
+      try {
+        const workflow = WorkflowParser.parseFile({filePath, workflowDir: '', visitedFiles: new Set()});
+        // File inputs are sent as their contents, never as paths on the server
+        const inputs = resolveInputs(workflow.inputs, req.body.inputs || {});
+        const inputsId = randomUUID();
+        this.submittedInputs.set(inputsId, inputs);
+        // Values no run picks up, such as when the page is closed first, are dropped
+        setTimeout(() => this.submittedInputs.delete(inputsId), SUBMITTED_INPUTS_TTL_MS).unref();
+        res.json({ inputsId });
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+      }
+    });
+
     // API: Start workflow execution with SSE
     this.app.get('/api/workflows/:fileName/execute', (req: Request, res: Response) => {
       const filePath = path.join(this.options.workflowDir, req.params.fileName);
@@ -99,24 +131,48 @@ class WebServer {
         return res.status(403).json({ error: 'Access denied' });
       }
       
+      // Input values submitted from the execution page form beforehand, used once
+      // whether or not the run gets started
+      const inputsId = req.query.inputsId ? String(req.query.inputsId) : undefined;
+      const submitted = inputsId ? this.submittedInputs.get(inputsId) : undefined;
+      if (inputsId) {
+        this.submittedInputs.delete(inputsId);
+      }
+      
       try {
         // Parse and create executor
         const workflow = WorkflowParser.parseFile({filePath, workflowDir: '', visitedFiles: new Set()});
         const sessionId = `${req.params.fileName}-${Date.now()}`;
         
+        let inputs: Record<string, any> = {};
+        if (inputsId) {
+          if (!submitted) {
+            return res.status(400).json({ error: 'Input values not found or already used' });
+          }
+          inputs = submitted;
+        } else {
+          try {
+            inputs = resolveInputs(workflow.inputs, {});
+          } catch (error: any) {
+            return res.status(400).json({ error: error.message });
+          }
+        }
+        
         // Create unique run directory for this workflow execution
         const runDirInfo = RunDirectory.createRunDirectory(workflow.name);
         RunDirectory.writeRunMetadata(runDirInfo);
         
-        const executor = new WebWorkflowExecutor(workflow, this.options.ollamaUrl, runDirInfo.path);
-        
-        // Store executor
-        this.activeExecutions.set(sessionId, executor);
+        const executor = new WorkflowExecutor(workflow, this.options.ollamaUrl, undefined, runDirInfo.path);
+        executor.setInputs(inputs);
         
-        // Set SSE response and send session ID
+        // Open the SSE stream and send the session ID
         // Note: This calls writeHead() which must be done before any other response methods
         // like res.json() or res.setHeader() that would fail after headers are sent
-        executor.setSseResponse(res, sessionId);
+        const adapter = new SseAdapter(res, sessionId);
+        executor.setAdapter(adapter);
+        
+        // Store execution
+        this.activeExecutions.set(sessionId, { executor, adapter });
         
         // Handle client disconnect
         req.on('close', () => {
@@ -148,12 +204,12 @@ class WebServer {
           return res.status(400).json({ error: 'Missing sessionId or input' });
         }
         
-        const executor = this.activeExecutions.get(sessionId);
-        if (!executor) {
+        const execution = this.activeExecutions.get(sessionId);
+        if (!execution) {
           return res.status(404).json({ error: 'Execution session not found' });
         }
         
-        executor.provideInput(input);
+        execution.adapter.provideInput(input);
         res.json({ success: true });
         
       } catch (error: any) {
@@ -170,12 +226,12 @@ class WebServer {
           return res.status(400).json({ error: 'Missing sessionId' });
         }
         
-        const executor = this.activeExecutions.get(sessionId);
-        if (!executor) {
+        const execution = this.activeExecutions.get(sessionId);
+        if (!execution) {
           return res.status(404).json({ error: 'Execution session not found' });
         }
         
-        executor.stop();
+        execution.executor.stop();
         res.json({ success: true });
         
       } catch (error: any) {
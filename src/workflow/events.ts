@@ -0,0 +1,103 @@
+/**
+ * Workflow Events
+ * Typed events emitted by the executor while a workflow runs. The terminal
+ * output, the web UI and programmatic callers of runWorkflow all consume these.
+ */
+
+import { ToolCallEvent } from '../mcp/tool-calling';
+import { RunStatus } from '../utils/run-report';
+
+/**
+ * How a log message is presented (maps to the CliFormatter style of the same name)
+ */
+export type LogLevel = 'info' | 'success' | 'warning' | 'loading' | 'step' | 'tool' | 'rag' | 'model' | 'image' | 'ai' | 'stop';
+
+/**
+ * An input state waiting for an answer
+ */
+export interface InputRequest {
+  state: string;
+  prompt?: string;        // The state's interpolated prompt
+  defaultValue?: string;  // Used when the answer is empty
+}
+
+/**
+ * Answers input states; return an empty string to use the state's default value
+ */
+export type InputHandler = (request: InputRequest) => string | Promise<string>;
+
+export type ApprovalDecisionType = 'approve' | 'reject' | 'edit';
+
+export const APPROVAL_DECISIONS: ApprovalDecisionType[] = ['approve', 'reject', 'edit'];
+
+/**
+ * An approval state waiting for a person to sign off on its content
+ */
+export interface ApprovalRequest {
+  state: string;
+  prompt?: string;                           // The state's interpolated prompt
+  content: string;                           // The interpolated text to review
+  defaultDecision?: 'approve' | 'reject';    // Used when no decision is made in time
+}
+
+/**
+ * A person's decision on an approval state
+ */
+export interface ApprovalDecision {
+  decision: ApprovalDecisionType;
+  text?: string;  // The edited content, for 'edit'
+}
+
+/**
+ * Answers approval states
+ */
+export type ApprovalHandler = (request: ApprovalRequest) => ApprovalDecision | Promise<ApprovalDecision>;
+
+/**
+ * Read a text answer to an approval state, as given in answers files and test scenarios
+ * @param answer - "approve", "reject", or anything else as the edited content
+ * @returns The decision
+ */
+export function parseApprovalAnswer(answer: string): ApprovalDecision {
+  const word = answer.trim().toLowerCase();
+  if (word === 'approve' || word === 'reject') {
+    return { decision: word };
+  }
+  return { decision: 'edit', text: answer };
+}
+
+export interface WorkflowEventMap {
+  workflowStart: { workflow: string; description?: string; startState: string };
+  stateStart: { state: string; stateType: string };
+  prompt: { state: string; prompt: string; model: string };
+  responseStart: { state: string; model: string };
+  token: { state: string; token: string };
+  responseEnd: { state: string; response: string; streamed: boolean };
+  toolCall: ToolCallEvent & { state: string };
+  inputRequested: InputRequest;
+  approvalRequested: ApprovalRequest;
+  stateComplete: { state: string; stateType: string; next: string; output?: any };
+  log: { level: LogLevel; message: string };
+  error: { state?: string; message: string; fallback?: string };
+  workflowEnd: { workflow: string; status: RunStatus; context: Record<string, any>; history: string[]; error?: string; reason?: string };
+}
+
+export type WorkflowEventName = keyof WorkflowEventMap;
+
+export type WorkflowEventListener<K extends WorkflowEventName> = (event: WorkflowEventMap[K]) => void;
+
+/**
+ * Names of all workflow events
+ */
+export const WORKFLOW_EVENTS: WorkflowEventName[] = [
+  'workflowStart', 'stateStart', 'prompt', 'responseStart', 'token', 'responseEnd', 'toolCall',
+  'inputRequested', 'approvalRequested', 'stateComplete', 'log', 'error', 'workflowEnd'
+];
+
+/**
+ * Events a called workflow passes on to the workflow that called it; its own
+ * start and end are reported by the call state instead
+ */
+export const FORWARDED_EVENTS: WorkflowEventName[] = WORKFLOW_EVENTS.filter(
+  name => name !== 'workflowStart' && name !== 'workflowEnd'
+);
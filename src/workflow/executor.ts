@@ -1,23 +1,69 @@
-import * as readline from 'readline';
 import * as path from 'path';
+import { EventEmitter } from 'events';
 import OllamaClient = require('../ollama/ollama-client');
+import WorkflowParser = require('./parser');
 import McpClient = require('../mcp/mcp-client');
+import { buildToolSet, runToolCallingLoop, ToolCallEvent } from '../mcp/tool-calling';
 import { RAGConfig, RAGService } from '../rag/rag-service';
-import { Workflow, State, NextOption } from './workflow';
+import { Workflow, State } from './workflow';
+import {
+  APPROVAL_DECISIONS, ApprovalDecision, ApprovalRequest, FORWARDED_EVENTS, InputRequest, LogLevel, WorkflowEventMap, WorkflowEventName,
+  parseApprovalAnswer
+} from './events';
+import { StateTypeHandler, StateTypeResult } from './state-types';
+import { evaluateExpression } from './expression';
+import { HttpStatusError, RetryableError, RetryAttemptEvent, RetryConfig, resolveRetryPolicy, withRetry } from '../utils/retry';
+import { parseJsonResponse, validateAgainstSchema } from '../utils/json-schema';
+import { checkResponse } from '../utils/output-validation';
+import { buildJudgePrompt, normalizeAnswer, parseChoice, pickLongest, pickMajority } from '../utils/sampling';
+import { DEFAULT_SCRIPT_TIMEOUT_MS, runScript } from '../utils/script-sandbox';
+import { CommandResult, quoteCommandValue, runCommand } from '../utils/shell-command';
+import { HttpRequest, HttpResponse, sendHttpRequest } from '../utils/http-request';
+import { interpolate, interpolateValue, parseVariablePath, resolvePath } from '../utils/interpolation';
+import { resolveInputs } from '../utils/workflow-inputs';
+import { AnswerQueue } from '../utils/answers';
+import { RunRecorder } from '../utils/run-report';
+import { ConversationStore, resolveConversation } from '../utils/conversation';
+import { ChatMessage, TokenUsage } from '../ollama/types';
+import { Checkpoint, writeCheckpoint } from '../utils/checkpoint';
+import { RunUsage, createRunUsage, findExceededLimit } from '../utils/run-limits';
 import Tracer = require('../utils/tracer');
 import FileHandler = require('../utils/file-handler');
-import CliFormatter from '../utils/cli-formatter';
+import { IOAdapter } from '../io/io-adapter';
+import { HeadlessAdapter } from '../io/headless-adapter';
 
 // Constants for state types and special state names
 const END_STATE = 'end';
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+const DEFAULT_CHUNK_SIZE = 4000;
+const RESULT_SEPARATOR = '\n\n---\n\n';  // Between the partial results given to a reduce prompt
+const DEFAULT_MAX_CALL_DEPTH = 10;
 const STATE_TYPE = {
   PROMPT: 'prompt',
   INPUT: 'input',
   TRANSITION: 'transition',
+  PARALLEL: 'parallel',
+  FOREACH: 'foreach',
+  CALL: 'call',
+  SCRIPT: 'script',
+  COMMAND: 'command',
+  HTTP: 'http',
+  APPROVAL: 'approval',
+  MAP_REDUCE: 'map_reduce',
   END: 'end'
 } as const;
 
-class WorkflowExecutor {
+/**
+ * Listener arguments of each workflow event, in the form EventEmitter expects
+ */
+type WorkflowEventArgs = { [K in WorkflowEventName]: [WorkflowEventMap[K]] };
+
+/**
+ * Runs a workflow and reports its progress as events (see ./events). The
+ * executor does no I/O itself: an adapter (see ../io) shows the events and
+ * answers input states for the terminal, the web UI, tests or headless runs.
+ */
+class WorkflowExecutor extends EventEmitter<WorkflowEventArgs> {
   private workflow: Workflow;
   private ollamaClient: OllamaClient;
   private mcpClient: McpClient;
@@ -25,20 +71,52 @@ class WorkflowExecutor {
   private namedRagServices: Map<string, RAGService>;
   private context: Record<string, any>;
   private history: string[];
-  private rl?: readline.Interface;
   private tracer: Tracer;
   private stopRequested: boolean;
+  private activeRequests: Set<AbortController>;
+  private conversations: ConversationStore;
+  private activeCalls: Set<WorkflowExecutor>;
+  private providedInputs: Set<string>;
+  private answers?: AnswerQueue;  // Set when the run is non-interactive
+  private adapter: IOAdapter;
+  private recorder?: RunRecorder;
+  private lastStateOutput: any;
+  private routeChosen: boolean;  // Set by a state that picked its own next state, which switch then leaves alone
+  private callDepth: number;
+  private maxCallDepth: number;
+  private ollamaUrl: string;
   private runDirectory?: string;
+  private usage: RunUsage;  // Shared with called workflows, so their work counts towards the limits
+  private limitReached?: string;  // Set when a limit stopped the run
 
-  constructor(workflow: Workflow, ollamaUrl: string = 'http://localhost:11434', tracer?: Tracer, runDirectory?: string) {
+  /**
+   * @param workflow - Workflow to run
+   * @param ollamaUrl - URL of the Ollama server
+   * @param tracer - Tracer for the run's trace events
+   * @param runDirectory - Directory the workflow's filesystem tools can write to
+   * @param ollamaClient - Client for model calls (default: a client for ollamaUrl)
+   */
+  constructor(workflow: Workflow, ollamaUrl: string = 'http://localhost:11434', tracer?: Tracer, runDirectory?: string, ollamaClient?: OllamaClient) {
+    super();
     this.workflow = workflow;
-    this.ollamaClient = new OllamaClient(ollamaUrl, tracer);
+    this.ollamaClient = ollamaClient || new OllamaClient(ollamaUrl, tracer);
+    this.ollamaClient.onUsage(usage => this.recordUsage(usage));
     this.mcpClient = new McpClient(tracer);
     this.context = {};
     this.history = [];
     this.namedRagServices = new Map();
     this.stopRequested = false;
+    this.activeRequests = new Set();
+    this.conversations = new ConversationStore();
+    this.activeCalls = new Set();
+    this.providedInputs = new Set();
+    this.routeChosen = false;
+    this.callDepth = 0;
+    this.maxCallDepth = workflow.maxCallDepth ?? DEFAULT_MAX_CALL_DEPTH;
+    this.usage = createRunUsage();
+    this.ollamaUrl = ollamaUrl;
     this.runDirectory = runDirectory;
+    this.adapter = new HeadlessAdapter();
     
     // Initialize context with workflow variables
     if (workflow.variables) {
@@ -54,16 +132,25 @@ class WorkflowExecutor {
   }
 
   /**
-   * Get or create the readline interface
+   * Emit a workflow event
+   * @param name - Event name
+   * @param event - Event details
    */
-  private getReadlineInterface(): readline.Interface {
-    if (!this.rl) {
-      this.rl = readline.createInterface({
-        input: process.stdin,
-        output: process.stdout
-      });
+  private emitEvent<K extends WorkflowEventName>(name: K, event: WorkflowEventMap[K]): void {
+    // EventEmitter throws unhandled 'error' events; state errors are handled by the run itself
+    if (name === 'error' && this.listenerCount('error') === 0) {
+      return;
     }
-    return this.rl;
+    (this.emit as (name: K, event: WorkflowEventMap[K]) => boolean)(name, event);
+  }
+
+  /**
+   * Emit a log message
+   * @param level - How the message is presented
+   * @param message - Message text
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emitEvent('log', { level, message });
   }
 
   /**
@@ -79,14 +166,14 @@ class WorkflowExecutor {
       return { images, textContents };
     }
 
-    console.log('\n' + CliFormatter.loading(`Processing ${filePaths.length} file(s) for multimodal input...`));
+    this.log('loading', `Processing ${filePaths.length} file(s) for multimodal input...`);
 
     for (const filePath of filePaths) {
       try {
         const resolvedPath = this.interpolateVariables(filePath);
         const processedFile = await FileHandler.processFile(resolvedPath);
 
-        console.log(CliFormatter.success(`Processed ${processedFile.filename} (${processedFile.type})`));
+        this.log('success', `Processed ${processedFile.filename} (${processedFile.type})`);
 
         if (processedFile.type === 'image') {
           images.push(processedFile.content);
@@ -94,13 +181,13 @@ class WorkflowExecutor {
           textContents.push(`\n--- Content from ${processedFile.filename} ---\n${processedFile.content}\n--- End of ${processedFile.filename} ---\n`);
         }
       } catch (error: any) {
-        console.warn(CliFormatter.warning(error.message));
+        this.log('warning', error.message);
         // Continue processing other files
       }
     }
 
     if (images.length > 0) {
-      console.log(CliFormatter.image(`Attached ${images.length} image(s) to the prompt`));
+      this.log('image', `Attached ${images.length} image(s) to the prompt`);
     }
 
     return { images, textContents };
@@ -117,7 +204,7 @@ class WorkflowExecutor {
 
     // Priority: inline rag > use_rag (named/default)
     if (state.rag) {
-      console.log('\n' + CliFormatter.rag('Initializing inline RAG configuration...'));
+      this.log('rag', 'Initializing inline RAG configuration...');
       ragServiceToUse = new RAGService(state.rag, 'http://localhost:11434');
       await ragServiceToUse.initialize();
     } else if (state.useRag) {
@@ -125,27 +212,27 @@ class WorkflowExecutor {
         // Named RAG reference
         ragServiceToUse = this.namedRagServices.get(state.useRag);
         if (ragServiceToUse) {
-          console.log('\n' + CliFormatter.rag(`Using RAG configuration: ${state.useRag}`));
+          this.log('rag', `Using RAG configuration: ${state.useRag}`);
         } else {
-          console.warn(CliFormatter.warning(`RAG configuration "${state.useRag}" not found`));
+          this.log('warning', `RAG configuration "${state.useRag}" not found`);
         }
       } else if (state.useRag === true) {
         // Default RAG
         ragServiceToUse = this.ragService;
         if (ragServiceToUse) {
-          console.log('\n' + CliFormatter.rag('Using default RAG configuration'));
+          this.log('rag', 'Using default RAG configuration');
         }
       }
     }
 
     // Add RAG context if a service is available
     if (ragServiceToUse) {
-      console.log(CliFormatter.rag('Retrieving relevant context from RAG...'));
+      this.log('rag', 'Retrieving relevant context from RAG...');
       const relevantChunks = await ragServiceToUse.search(prompt);
       const ragContext = ragServiceToUse.formatContext(relevantChunks, prompt);
 
       if (ragContext) {
-        console.log(CliFormatter.success('RAG context added to prompt'));
+        this.log('success', 'RAG context added to prompt');
         return prompt + ragContext;
       }
     }
@@ -162,13 +249,13 @@ class WorkflowExecutor {
       return;
     }
 
-    console.log('\n' + CliFormatter.tool(`Connecting to MCP servers: ${state.mcpServers.join(', ')}`));
+    this.log('tool', `Connecting to MCP servers: ${state.mcpServers.join(', ')}`);
     for (const serverName of state.mcpServers) {
       try {
         await this.mcpClient.connectServer(serverName);
-        console.log(CliFormatter.success(`Connected to MCP server: ${serverName}`));
+        this.log('success', `Connected to MCP server: ${serverName}`);
       } catch (error: any) {
-        console.warn(CliFormatter.warning(`Failed to connect to MCP server "${serverName}": ${error.message}`));
+        this.log('warning', `Failed to connect to MCP server "${serverName}": ${error.message}`);
       }
     }
   }
@@ -179,117 +266,285 @@ class WorkflowExecutor {
   stop(): void {
     if (!this.stopRequested) {
       this.stopRequested = true;
-      console.log('\n\n' + CliFormatter.stop('Stop requested. Workflow will stop after the current state completes...'));
+      this.log('stop', 'Stop requested. Cancelling the current request and stopping the workflow...');
       this.tracer.traceContextUpdate('stop_requested', 'true');
     }
     
-    // Clean up readline interface to prevent hanging (can be called multiple times safely)
-    if (this.rl) {
-      this.rl.close();
-      this.rl = undefined;
+    // Abort in-flight model requests instead of waiting for them to finish
+    for (const controller of this.activeRequests) {
+      controller.abort(new Error('Workflow stopped by user'));
+    }
+    this.activeRequests.clear();
+    
+    // Stop called workflows that are running
+    for (const child of this.activeCalls) {
+      child.stop();
     }
+    
+    // Give up on input the adapter is waiting for (can be called multiple times safely)
+    this.adapter.cancelInput?.();
   }
 
   /**
-   * Execute the workflow
+   * Set the values of the workflow's inputs before the run starts
+   * @param values - Input values, already checked with resolveInputs
    */
-  async execute(): Promise<void> {
-    console.log('\n' + CliFormatter.divider('='));
-    console.log(CliFormatter.workflowStart(`Starting Workflow: ${this.workflow.name}`));
-    console.log(CliFormatter.divider('=') + '\n');
-    
-    if (this.workflow.description) {
-      console.log(CliFormatter.info(this.workflow.description) + '\n');
-    }
+  setInputs(values: Record<string, any>): void {
+    this.context = { ...this.context, ...values };
+    Object.keys(values).forEach(name => this.providedInputs.add(name));
+    this.tracer.traceContextUpdate('inputs', Object.keys(values));
+  }
 
-    this.tracer.traceWorkflowStart(this.workflow.name, this.workflow.startState);
+  /**
+   * Record states, outputs, timings and errors of the run, e.g. for --output json
+   * @param recorder - Recorder to report to
+   */
+  setRecorder(recorder: RunRecorder): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Run without a terminal: input states are answered from the provided
+   * inputs, the scripted answers or their default value, and fail otherwise
+   * @param answers - Scripted answers for input states
+   */
+  setNonInteractive(answers: AnswerQueue = new AnswerQueue()): void {
+    this.answers = answers;
+  }
+
+  /**
+   * Show the run and answer its input states with an I/O adapter (headless by default)
+   * @param adapter - Adapter for the terminal, the web UI, tests or headless runs
+   */
+  setAdapter(adapter: IOAdapter): void {
+    this.adapter = adapter;
+    adapter.attach(this);
+  }
+
+  /**
+   * Continue an interrupted run from its checkpoint
+   * @param checkpoint - Checkpoint saved by an earlier run of this workflow
+   * @throws Error if the run already completed or the checkpoint does not match the workflow
+   */
+  async resume(checkpoint: Checkpoint): Promise<void> {
+    if (checkpoint.status === 'completed' || !checkpoint.nextState) {
+      throw new Error('This run has already completed, there is nothing to resume');
+    }
+    if (checkpoint.nextState !== END_STATE && !this.workflow.states[checkpoint.nextState]) {
+      throw new Error(`Checkpoint resumes at state "${checkpoint.nextState}", which does not exist in the workflow`);
+    }
 
-    // Auto-inject filesystem MCP server if run directory is provided and not already configured
+    this.context = { ...checkpoint.context };
     if (this.runDirectory) {
-      // Initialize mcpServers if not present
-      if (!this.workflow.mcpServers) {
-        this.workflow.mcpServers = {};
-      }
-      
-      // Check if filesystem server is already configured
-      const hasFilesystemServer = Object.entries(this.workflow.mcpServers).some(
-        ([name, config]) => {
-          // Check if it's explicitly named 'filesystem' or uses the filesystem package
-          return name === 'filesystem' || 
-                 (config.args && config.args.some(arg => arg.includes('@modelcontextprotocol/server-filesystem')));
-        }
-      );
-      
-      // If no filesystem server configured, auto-inject one
-      if (!hasFilesystemServer) {
-        console.log(CliFormatter.tool(`Auto-configuring filesystem MCP server with run directory: ${CliFormatter.path(this.runDirectory)}`));
-        this.workflow.mcpServers['filesystem'] = {
-          command: 'npx',
-          args: ['-y', '@modelcontextprotocol/server-filesystem', this.runDirectory],
-          env: {}
-        };
-      }
+      this.context['run_directory'] = this.runDirectory;
     }
+    this.history = [...checkpoint.history];
+    this.conversations.restore(checkpoint.conversations);
 
-    // Initialize MCP servers if configured
-    if (this.workflow.mcpServers) {
-      console.log(CliFormatter.loading('Initializing MCP servers...'));
-      for (const [serverName, config] of Object.entries(this.workflow.mcpServers)) {
-        this.mcpClient.registerServer(serverName, config);
-      }
-      console.log(CliFormatter.success(`Registered ${Object.keys(this.workflow.mcpServers).length} MCP server(s)`) + '\n');
+    this.log('info',
+      `Resuming after ${checkpoint.lastCompletedState ? `state "${checkpoint.lastCompletedState}"` : 'the start'}, continuing at "${checkpoint.nextState}"`
+    );
+    await this.execute(checkpoint.nextState);
+  }
+
+  /**
+   * Save the run's progress to the run directory, if there is one
+   * @param lastCompletedState - State that just finished, or null before the first one
+   * @param nextState - State to run next, or null once the workflow has completed
+   */
+  private saveCheckpoint(lastCompletedState: string | null, nextState: string | null): void {
+    // Called workflows share the run directory but are not checkpointed; a resumed call runs again as a whole
+    if (!this.runDirectory || this.callDepth > 0) {
+      return;
     }
 
-    // Initialize default RAG if configured
-    if (this.ragService) {
-      console.log(CliFormatter.loading('Initializing default RAG system...'));
-      await this.ragService.initialize();
-      console.log('');
+    try {
+      writeCheckpoint(this.runDirectory, {
+        workflowName: this.workflow.name,
+        status: nextState === null ? 'completed' : 'in_progress',
+        lastCompletedState,
+        nextState,
+        context: this.context,
+        history: this.history,
+        conversations: this.conversations.snapshot(),
+        updatedAt: new Date().toISOString()
+      });
+    } catch (error: any) {
+      // A failed checkpoint should not fail the run itself
+      this.log('warning', `Failed to write checkpoint: ${error.message}`);
     }
+  }
 
-    // Initialize named RAG services if configured
-    if (this.workflow.rag) {
-      console.log(CliFormatter.loading('Initializing named RAG systems...'));
-      for (const [ragName, ragConfig] of Object.entries(this.workflow.rag)) {
-        const ragService = new RAGService(ragConfig, 'http://localhost:11434');
-        await ragService.initialize();
-        this.namedRagServices.set(ragName, ragService);
-        console.log(CliFormatter.success(`Initialized RAG: ${ragName}`));
-      }
-      console.log('');
+  /**
+   * Count a completed model call and its tokens towards the run's limits
+   * @param usage - Tokens used by the call
+   */
+  private recordUsage(usage: TokenUsage): void {
+    this.usage.llmCalls++;
+    this.usage.totalTokens += usage.promptTokens + usage.completionTokens;
+  }
+
+  /**
+   * Check the workflow's limits before a state starts
+   * @param stateName - State about to start
+   * @returns Description of the reached limit, or undefined if the run may go on
+   */
+  private checkLimits(stateName: string): string | undefined {
+    const exceeded = this.workflow.limits && findExceededLimit(this.workflow.limits, this.usage);
+    if (exceeded) {
+      this.tracer.trace('limit_reached', {
+        state: stateName,
+        limit: exceeded,
+        statesExecuted: this.usage.statesExecuted,
+        llmCalls: this.usage.llmCalls,
+        totalTokens: this.usage.totalTokens,
+        durationMs: Date.now() - this.usage.startedAt
+      });
     }
+    return exceeded;
+  }
+
+  /**
+   * Execute the workflow
+   * @param startState - State to start at (defaults to the workflow's start state)
+   */
+  async execute(startState: string = this.workflow.startState): Promise<void> {
+    this.emitEvent('workflowStart', { workflow: this.workflow.name, description: this.workflow.description, startState });
+    this.tracer.traceWorkflowStart(this.workflow.name, startState);
+    // Called workflows share the usage of the run that called them
+    if (this.callDepth === 0) {
+      this.usage = createRunUsage();
+    }
+    this.limitReached = undefined;
 
     try {
-      let currentState: string | null = this.workflow.startState;
+      // Auto-inject filesystem MCP server if run directory is provided and not already configured
+      if (this.runDirectory) {
+        // Initialize mcpServers if not present
+        if (!this.workflow.mcpServers) {
+          this.workflow.mcpServers = {};
+        }
+      
+        // Check if filesystem server is already configured
+        const hasFilesystemServer = Object.entries(this.workflow.mcpServers).some(
+          ([name, config]) => {
+            // Check if it's explicitly named 'filesystem' or uses the filesystem package
+            return name === 'filesystem' || 
+                   (config.args && config.args.some(arg => arg.includes('@modelcontextprotocol/server-filesystem')));
+          }
+        );
+      
+        // If no filesystem server configured, auto-inject one
+        if (!hasFilesystemServer) {
+          this.log('tool', `Auto-configuring filesystem MCP server with run directory: ${this.runDirectory}`);
+          this.workflow.mcpServers['filesystem'] = {
+            command: 'npx',
+            args: ['-y', '@modelcontextprotocol/server-filesystem', this.runDirectory],
+            env: {}
+          };
+        }
+      }
+
+      // Initialize MCP servers if configured
+      if (this.workflow.mcpServers) {
+        this.log('loading', 'Initializing MCP servers...');
+        for (const [serverName, config] of Object.entries(this.workflow.mcpServers)) {
+          this.mcpClient.registerServer(serverName, config);
+        }
+        this.log('success', `Registered ${Object.keys(this.workflow.mcpServers).length} MCP server(s)`);
+      }
+
+      // Initialize default RAG if configured
+      if (this.ragService) {
+        this.log('loading', 'Initializing default RAG system...');
+        await this.ragService.initialize();
+      }
+
+      // Initialize named RAG services if configured
+      if (this.workflow.rag) {
+        this.log('loading', 'Initializing named RAG systems...');
+        for (const [ragName, ragConfig] of Object.entries(this.workflow.rag)) {
+          const ragService = new RAGService(ragConfig, 'http://localhost:11434');
+          await ragService.initialize();
+          this.namedRagServices.set(ragName, ragService);
+          this.log('success', `Initialized RAG: ${ragName}`);
+        }
+      }
+
+      let currentState: string | null = startState;
+      let lastCompletedState: string | null = null;
+      
+      // A resumed run keeps the checkpoint it was resumed from until its next state completes
+      if (this.history.length === 0) {
+        this.saveCheckpoint(null, currentState);
+      }
+      
+      let limitHandled = false;  // The run went to the on_limit state, which runs despite the limit
+      let skipLimitCheck = false;
       
       while (currentState && currentState !== END_STATE && !this.stopRequested) {
+        const exceeded = skipLimitCheck ? undefined : this.checkLimits(currentState);
+        skipLimitCheck = false;
+        if (exceeded) {
+          if (!this.workflow.limits!.onLimit || limitHandled) {
+            this.log('warning', `${exceeded}, stopping the run before state "${currentState}"`);
+            this.limitReached = exceeded;
+            break;
+          }
+          this.log('warning', `${exceeded}, transitioning to ${this.workflow.limits!.onLimit}`);
+          this.tracer.traceStateTransition(currentState, this.workflow.limits!.onLimit, 'limit');
+          limitHandled = true;
+          skipLimitCheck = true;
+          currentState = this.workflow.limits!.onLimit;
+          this.saveCheckpoint(lastCompletedState, currentState);
+          continue;
+        }
+
         const state: State = this.workflow.states[currentState];
-        console.log('\n' + CliFormatter.step(`State: ${CliFormatter.highlight(currentState)}`));
-        
+
         try {
+          this.usage.statesExecuted++;
           this.history.push(currentState);
           this.tracer.traceStateExecutionStart(currentState, state.type);
+          this.recorder?.stateStarted(currentState, state.type);
+          this.emitEvent('stateStart', { state: currentState, stateType: state.type });
+          this.lastStateOutput = undefined;
           const nextState = await this.executeState(currentState, state);
           this.tracer.traceStateExecutionComplete(currentState, state.type);
+          const output = this.lastStateOutput !== undefined
+            ? this.lastStateOutput
+            : (state.saveAs ? this.context[state.saveAs] : undefined);
+          this.recorder?.stateCompleted(output);
+          this.emitEvent('stateComplete', { state: currentState, stateType: state.type, next: nextState || END_STATE, output });
           this.tracer.traceStateTransition(currentState, nextState || END_STATE, state.type);
+          lastCompletedState = currentState;
           currentState = nextState;
+          this.saveCheckpoint(lastCompletedState, currentState);
         } catch (error: any) {
-          console.error('\n' + CliFormatter.error(`Error in state "${currentState}": ${error.message}`));
+          // Errors caused by stopping (e.g. an aborted request) are not routed to fallbacks
+          if (this.stopRequested) {
+            break;
+          }
+          
           this.tracer.traceError('state_execution_error', error.message, { state: currentState });
+          this.recorder?.stateFailed(error.message);
+          this.emitEvent('error', { state: currentState, message: `Error in state "${currentState}": ${error.message}` });
           
           // Check for state-level fallback first
           if (state.onError) {
-            console.log('\n' + CliFormatter.warning(`Transitioning to fallback state (state-level): ${state.onError}`));
+            this.log('warning', `Transitioning to fallback state (state-level): ${state.onError}`);
             this.tracer.traceStateTransition(currentState, state.onError, 'error_fallback');
             currentState = state.onError;
+            this.saveCheckpoint(lastCompletedState, currentState);
             continue; // Continue the workflow with the fallback state
           }
           
           // Check for workflow-level fallback
           if (this.workflow.onError) {
-            console.log('\n' + CliFormatter.warning(`Transitioning to fallback state (workflow-level): ${this.workflow.onError}`));
+            this.log('warning', `Transitioning to fallback state (workflow-level): ${this.workflow.onError}`);
             this.tracer.traceStateTransition(currentState, this.workflow.onError, 'error_fallback');
             currentState = this.workflow.onError;
+            this.saveCheckpoint(lastCompletedState, currentState);
             continue; // Continue the workflow with the fallback state
           }
           
@@ -299,24 +554,30 @@ class WorkflowExecutor {
       }
       
       if (this.stopRequested) {
-        console.log('\n' + CliFormatter.divider('='));
-        console.log(CliFormatter.stop('Workflow Stopped by User'));
-        console.log(CliFormatter.divider('=') + '\n');
         this.tracer.traceContextUpdate('workflow_stopped', 'true');
+        this.recorder?.runFinished('stopped', this.context, this.history);
+        this.emitEvent('workflowEnd', { workflow: this.workflow.name, status: 'stopped', context: this.context, history: this.history });
+      } else if (this.limitReached) {
+        // The checkpoint still points at the next state, so the run can be resumed
+        this.recorder?.runFinished('stopped', this.context, this.history, undefined, this.limitReached);
+        this.emitEvent('workflowEnd', { workflow: this.workflow.name, status: 'stopped', context: this.context, history: this.history, reason: this.limitReached });
       } else {
-        console.log('\n' + CliFormatter.divider('='));
-        console.log(CliFormatter.complete('Workflow Completed'));
-        console.log(CliFormatter.divider('=') + '\n');
         this.tracer.traceWorkflowComplete();
+        this.saveCheckpoint(lastCompletedState, null);
+        this.recorder?.runFinished('completed', this.context, this.history);
+        this.emitEvent('workflowEnd', { workflow: this.workflow.name, status: 'completed', context: this.context, history: this.history });
       }
+    } catch (error: any) {
+      this.recorder?.runFinished('failed', this.context, this.history, error.message);
+      this.emitEvent('workflowEnd', { workflow: this.workflow.name, status: 'failed', context: this.context, history: this.history, error: error.message });
+      throw error;
     } finally {
-      // Clean up MCP connections and readline interface
+      // Clean up MCP connections
       await this.mcpClient.disconnectAll();
       
-      // Clean up readline interface if it was created
-      if (this.rl) {
-        this.rl.close();
-        this.rl = undefined;
+      // Called workflows share the adapter of the run, which closes it when it ends
+      if (this.callDepth === 0) {
+        this.adapter.close?.();
       }
     }
   }
@@ -328,6 +589,23 @@ class WorkflowExecutor {
    * @returns Next state name
    */
   async executeState(stateName: string, state: State): Promise<string> {
+    this.routeChosen = false;
+    const nextState = await this.executeStateByType(stateName, state);
+
+    // A route picked by the state itself (a rejection, a custom state's next) wins over switch
+    if (state.switch && state.switch.length > 0 && !this.routeChosen) {
+      return this.selectSwitchState(stateName, state);
+    }
+    return nextState;
+  }
+
+  /**
+   * Run a state according to its type
+   * @param stateName - Name of the state
+   * @param state - State configuration
+   * @returns Next state name
+   */
+  private async executeStateByType(stateName: string, state: State): Promise<string> {
     switch (state.type) {
       case STATE_TYPE.PROMPT:
         return await this.executePromptState(stateName, state);
@@ -335,11 +613,53 @@ class WorkflowExecutor {
         return await this.executeInputState(stateName, state);
       case STATE_TYPE.TRANSITION:
         return await this.executeTransitionState(stateName, state);
+      case STATE_TYPE.PARALLEL:
+        return await this.executeParallelState(stateName, state);
+      case STATE_TYPE.FOREACH:
+        return await this.executeForeachState(stateName, state);
+      case STATE_TYPE.CALL:
+        return await this.executeCallState(stateName, state);
+      case STATE_TYPE.SCRIPT:
+        return await this.executeScriptState(stateName, state);
+      case STATE_TYPE.COMMAND:
+        return await this.executeCommandState(stateName, state);
+      case STATE_TYPE.HTTP:
+        return await this.executeHttpState(stateName, state);
+      case STATE_TYPE.APPROVAL:
+        return await this.executeApprovalState(stateName, state);
+      case STATE_TYPE.MAP_REDUCE:
+        return await this.executeMapReduceState(stateName, state);
       case STATE_TYPE.END:
         return END_STATE;
-      default:
+      default: {
+        const handler = this.workflow.stateTypes?.[state.type];
+        if (handler) {
+          return await this.executeCustomState(stateName, state, handler);
+        }
         throw new Error(`Unknown state type: ${state.type}`);
+      }
+    }
+  }
+
+  /**
+   * Select the next state from a state's switch cases
+   * @param stateName - Name of the state
+   * @param state - State configuration
+   * @returns Target of the first matching case, or the state's next
+   */
+  private selectSwitchState(stateName: string, state: State): string {
+    for (const switchCase of state.switch || []) {
+      if (evaluateExpression(switchCase.when, this.context)) {
+        this.log('info', `Condition ${switchCase.when} matched, continuing to ${switchCase.next}`);
+        this.tracer.traceSwitchDecision(stateName, switchCase.next, switchCase.when);
+        return switchCase.next;
+      }
     }
+
+    const fallback = state.next || END_STATE;
+    this.log('info', `No switch condition matched, continuing to ${fallback}`);
+    this.tracer.traceSwitchDecision(stateName, fallback);
+    return fallback;
   }
 
   /**
@@ -354,6 +674,185 @@ class WorkflowExecutor {
     return state.next || END_STATE;
   }
 
+  /**
+   * Execute a script state (runs JavaScript over a copy of the context in a sandbox)
+   * @param stateName - Name of the state
+   * @param state - State configuration
+   * @returns Next state name
+   */
+  async executeScriptState(stateName: string, state: State): Promise<string> {
+    const output = runScript(state.script || '', this.context, { timeoutMs: state.timeoutMs ?? DEFAULT_SCRIPT_TIMEOUT_MS });
+
+    if (output !== undefined) {
+      this.lastStateOutput = output;
+      if (state.saveAs) {
+        this.context[state.saveAs] = output;
+        this.tracer.traceContextUpdate(state.saveAs, output);
+        this.log('success', `Script result saved as "${state.saveAs}"`);
+      }
+    }
+
+    return state.next || END_STATE;
+  }
+
+  /**
+   * Execute a command state (runs a shell command and captures its output)
+   * @param stateName - Name of the state
+   * @param state - State configuration
+   * @returns Next state name
+   * @throws Error if the command fails to run or exits with a non-zero code
+   */
+  async executeCommandState(stateName: string, state: State): Promise<string> {
+    // Each value becomes one quoted argument that cannot be an option; undefined variables are never run as {{text}}
+    const command = interpolate(state.command || '', this.context, { strict: true, escape: quoteCommandValue });
+    const cwd = state.workingDirectory || this.runDirectory || process.cwd();
+    this.log('tool', `$ ${command}`);
+
+    const controller = new AbortController();
+    this.activeRequests.add(controller);
+    const startedAt = Date.now();
+    let result: CommandResult;
+    try {
+      result = await runCommand(command, { cwd, timeoutMs: state.timeoutMs, signal: controller.signal });
+    } finally {
+      this.activeRequests.delete(controller);
+    }
+    this.tracer.trace('command_run', { state: stateName, command, cwd, exitCode: result.exit_code, durationMs: Date.now() - startedAt });
+
+    // The output is kept on failure too, so on_error states can report it
+    this.lastStateOutput = result;
+    if (state.saveAs) {
+      this.context[state.saveAs] = result;
+      this.tracer.traceContextUpdate(state.saveAs, result);
+    }
+
+    if (result.exit_code !== 0) {
+      const detail = result.stderr.trim().split('\n').pop();
+      throw new Error(`Command exited with code ${result.exit_code}${detail ? `: ${detail}` : ''}`);
+    }
+    this.log('success', 'Command completed');
+    return state.next || END_STATE;
+  }
+
+  /**
+   * Execute an http state (sends a request and stores the response)
+   * @param stateName - Name of the state
+   * @param state - State configuration
+   * @returns Next state name
+   * @throws Error if the request fails or the response has an error status (400 or above)
+   */
+  async executeHttpState(stateName: string, state: State): Promise<string> {
+    const template = state.request!;
+    const request: HttpRequest = {
+      method: template.method,
+      url: this.interpolateVariables(template.url),
+      headers: template.headers && this.interpolateConfig(template.headers),
+      query: template.query && this.interpolateConfig(template.query),
+      body: template.body !== undefined ? this.interpolateConfig(template.body) : undefined
+    };
+    this.log('tool', `${request.method} ${request.url}`);
+
+    let response: HttpResponse | undefined;
+    const send = async (): Promise<HttpResponse> => {
+      if (this.stopRequested) {
+        throw new Error('Workflow stopped by user');
+      }
+      response = undefined;
+
+      const controller = new AbortController();
+      this.activeRequests.add(controller);
+      const startedAt = Date.now();
+      try {
+        response = await sendHttpRequest(request, { timeoutMs: state.timeoutMs, signal: controller.signal });
+      } catch (error: any) {
+        this.tracer.traceHttpRequest(stateName, request, Date.now() - startedAt, undefined, error.message);
+        throw error;
+      } finally {
+        this.activeRequests.delete(controller);
+      }
+      this.tracer.traceHttpRequest(stateName, request, Date.now() - startedAt, response);
+
+      if (response.status >= 400) {
+        throw new HttpStatusError(response.status);
+      }
+      return response;
+    };
+
+    const retryPolicy = resolveRetryPolicy(this.workflow.retry, state.retry);
+    try {
+      await (retryPolicy ? this.runWithRetry(stateName, send, retryPolicy) : send());
+    } finally {
+      // The response is kept on error statuses too, so on_error states can report it
+      if (response) {
+        this.lastStateOutput = response;
+        if (state.saveAs) {
+          this.context[state.saveAs] = response;
+          this.tracer.traceContextUpdate(state.saveAs, response);
+        }
+      }
+    }
+
+    this.log('success', `Received status ${response!.status}`);
+    return state.next || END_STATE;
+  }
+
+  /**
+   * Execute a state of a custom type with its handler
+   * @param stateName - Name of the state
+   * @param state - State configuration
+   * @param handler - Handler of the state's type
+   * @returns Next state name
+   */
+  async executeCustomState(stateName: string, state: State, handler: StateTypeHandler): Promise<string> {
+    const controller = new AbortController();
+    this.activeRequests.add(controller);
+    let result: StateTypeResult | void;
+    try {
+      result = await handler.execute(this.interpolateConfig(state.config || {}), {
+        state: stateName,
+        variables: this.context,
+        runDirectory: this.runDirectory,
+        signal: controller.signal,
+        interpolate: text => this.interpolateVariables(text),
+        log: (level, message) => this.log(level, message),
+        trace: (type, details = {}) => this.tracer.trace(type, { state: stateName, ...details })
+      });
+    } finally {
+      this.activeRequests.delete(controller);
+    }
+
+    const output = result ? result.output : undefined;
+    if (output !== undefined) {
+      this.lastStateOutput = output;
+      if (state.saveAs) {
+        this.context[state.saveAs] = output;
+        this.tracer.traceContextUpdate(state.saveAs, output);
+      }
+    }
+
+    const next = (result && result.next) || state.next || END_STATE;
+    if (next !== END_STATE && !this.workflow.states[next]) {
+      throw new Error(`State type "${state.type}" chose non-existent next state "${next}"`);
+    }
+    this.routeChosen = !!(result && result.next);
+    return next;
+  }
+
+  /**
+   * Interpolate variables in the text of a custom state's configuration
+   * @param value - Configuration value
+   * @returns The value with its text interpolated
+   */
+  private interpolateConfig(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.interpolateConfig(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.interpolateConfig(item)]));
+    }
+    return interpolateValue(value, this.context, { strict: this.workflow.strictVariables });
+  }
+
   /**
    * Execute a prompt state (sends prompt to Ollama)
    * @param stateName - Name of the state
@@ -361,8 +860,41 @@ class WorkflowExecutor {
    * @returns Next state name
    */
   async executePromptState(stateName: string, state: State): Promise<string> {
-    let prompt = this.interpolateVariables(state.prompt || '');
-    console.log(`\nPrompt: ${prompt}`);
+    const { response, model, output } = await this.generateResponse(stateName, state, true);
+    
+    // Store response in context if variable is specified (the parsed object for structured output)
+    const value = output !== undefined ? output : response;
+    this.lastStateOutput = value;
+    if (state.saveAs) {
+      this.context[state.saveAs] = value;
+      this.tracer.traceContextUpdate(state.saveAs, value);
+    }
+
+    // Handle LLM-driven state selection if nextOptions is defined
+    if (state.nextOptions && state.nextOptions.length > 0) {
+      return await this.selectNextState(stateName, state, response, state.models || [model]);
+    }
+    
+    return state.next || END_STATE;
+  }
+
+  /**
+   * Build the prompt for a state and generate the model's response
+   * @param stateName - Name of the state
+   * @param state - State configuration
+   * @param streamTokens - Whether to emit token events as the response arrives
+   * @param variables - Variables the prompt is interpolated with (default: the workflow context)
+   * @param signal - Cancels the model calls when aborted, with its reason as the error
+   * @returns The response, the model that produced it and, for states with an output schema, the parsed output
+   */
+  private async generateResponse(
+    stateName: string,
+    state: State,
+    streamTokens: boolean,
+    variables: Record<string, any> = this.context,
+    signal?: AbortSignal
+  ): Promise<{ response: string; model: string; output?: any }> {
+    let prompt = interpolate(state.prompt || '', variables, { strict: this.workflow.strictVariables });
     
     // Process multimodal files if provided
     const { images, textContents } = await this.processMultimodalFiles(state.files);
@@ -377,69 +909,758 @@ class WorkflowExecutor {
     
     // Connect to MCP servers if specified for this state
     await this.connectMCPServers(state);
+    const toolSet = buildToolSet(this.mcpClient, state.mcpServers || []);
     
-    const model = state.model || this.workflow.defaultModel || 'gemma3:4b';
-    console.log('\n' + CliFormatter.model(`Using model: ${model}`));
-    console.log(CliFormatter.loading('Generating response...') + '\n');
+    // Samples are spread over the state's models in turn
+    const models = state.models || [state.model || this.workflow.defaultModel || 'gemma3:4b'];
+    const model = models[0];
+    this.emitEvent('prompt', { state: stateName, prompt, model });
     
-    try {
-      // Create streaming callback to display tokens as they arrive
-      process.stdout.write(CliFormatter.ai('Response: '));
+    // Stream tokens as they arrive, unless output would interleave with other branches or samples
+    const sampling = (state.samples ?? 1) > 1;
+    const stream = streamTokens && !sampling;
+    const onToken = stream ? (token: string) => this.emitEvent('token', { state: stateName, token }) : undefined;
+    
+    const timeoutMs = state.timeoutMs ?? this.workflow.timeoutMs;
+    
+    // Ollama's format parameter constrains generation to the output schema
+    const modelOptions = state.outputSchema
+      ? { ...(state.options || {}), format: state.outputSchema }
+      : (state.options || {});
+    
+    // States in a conversation send its history through the chat API
+    const conversation = resolveConversation(this.workflow.conversation, state.conversation);
+    if (conversation) {
+      this.conversations.prepare(conversation);
+    }
+    const system = conversation?.system ? this.interpolateVariables(conversation.system) : undefined;
+    
+    const requestResponse = async (promptText: string, model: string, signal: AbortSignal): Promise<string> => {
+      const userMessage: ChatMessage = { role: 'user', content: promptText, images: images.length > 0 ? images : undefined };
+      const messages = conversation ? this.conversations.buildMessages(conversation, system, userMessage) : [userMessage];
       
-      const response = await this.ollamaClient.generate(
-        model, 
-        prompt, 
-        state.options || {}, 
-        images.length > 0 ? images : undefined,
-        (token: string) => {
-          // Stream tokens to stdout
-          process.stdout.write(token);
-        }
-      );
+      let response: string;
+      if (toolSet.definitions.length > 0) {
+        // Let the model call the tools of the state's MCP servers until it answers
+        this.tracer.traceContextUpdate('available_tools', Array.from(toolSet.routes.keys()));
+        response = await runToolCallingLoop(
+          this.ollamaClient,
+          this.mcpClient,
+          model,
+          messages,
+          toolSet,
+          {
+            maxIterations: state.maxToolIterations,
+            options: modelOptions,
+            onToken,
+            onToolCall: (event: ToolCallEvent) => this.emitEvent('toolCall', { ...event, state: stateName }),
+            signal
+          }
+        );
+      } else if (conversation) {
+        response = await this.ollamaClient.chat(model, messages, modelOptions, onToken, signal);
+      } else {
+        response = await this.ollamaClient.generate(
+          model, 
+          promptText, 
+          modelOptions, 
+          images.length > 0 ? images : undefined,
+          onToken,
+          signal
+        );
+      }
       
-      process.stdout.write('\n\n');
+      this.emitEvent('responseEnd', { state: stateName, response, streamed: stream });
+      return response;
+    };
+    
+    const callModel = async (promptText: string, model: string): Promise<string> => {
+      if (this.stopRequested) {
+        throw new Error('Workflow stopped by user');
+      }
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
       
-      // Store response in context if variable is specified
-      if (state.saveAs) {
-        this.context[state.saveAs] = response;
-        this.tracer.traceContextUpdate(state.saveAs, response);
+      // Each call gets its own controller so stop(), the time limit and the caller's signal can cancel the request
+      const controller = new AbortController();
+      this.activeRequests.add(controller);
+      const timer = timeoutMs
+        ? setTimeout(() => controller.abort(new RetryableError(`Model call timed out after ${timeoutMs}ms`, 'timeout')), timeoutMs)
+        : undefined;
+      const onAbort = () => controller.abort(signal!.reason);
+      signal?.addEventListener('abort', onAbort);
+      
+      if (stream) {
+        this.emitEvent('responseStart', { state: stateName, model });
       }
-
-      // Handle LLM-driven state selection if nextOptions is defined
-      if (state.nextOptions && state.nextOptions.length > 0) {
-        return await this.selectNextState(state.nextOptions, response, model);
+      
+      try {
+        return await requestResponse(promptText, model, controller.signal);
+      } finally {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener('abort', onAbort);
+        this.activeRequests.delete(controller);
       }
+    };
+    
+    const retryPolicy = resolveRetryPolicy(this.workflow.retry, state.retry);
+    
+    const produceResponse = async (sampleModel: string): Promise<{ response: string; output?: any }> => {
+      const ask = (promptText: string) => callModel(promptText, sampleModel);
+      const response = await ask(prompt);
+      if (retryPolicy && retryPolicy.retryOn.includes('empty_response') && response.trim() === '') {
+        throw new RetryableError('Model returned an empty response', 'empty_response');
+      }
+      if (!state.outputSchema && !state.validate) {
+        return { response };
+      }
+      return await this.repairResponse(stateName, state, prompt, response, ask);
+    };
+    
+    // Without a retry policy the model is called exactly once, as before
+    const generate = (sampleModel: string) => (retryPolicy
+      ? this.runWithRetry(stateName, () => produceResponse(sampleModel), retryPolicy, signal)
+      : produceResponse(sampleModel));
+    
+    try {
+      const result = sampling
+        ? await this.selectSample(stateName, state, prompt, models, generate)
+        : { ...(await generate(model)), model };
       
-      return state.next || END_STATE;
+      if (conversation) {
+        this.conversations.append(conversation.name!, prompt, result.response);
+      }
+      return result;
     } catch (error: any) {
       throw new Error(`Failed to generate response: ${error.message}`);
     }
   }
 
   /**
-   * Execute an input state (asks user for freeform text input)
+   * Check a response against the state's validate block and output schema,
+   * re-prompting the model with the failures until it passes or repairs run out
+   * @param stateName - Name of the state
+   * @param state - State configuration with a validate block or an output schema
+   * @param prompt - Original prompt
+   * @param firstResponse - Response to the original prompt
+   * @param callModel - Sends a prompt to the model and returns its response
+   * @returns The final response, and the parsed output when there is a schema
+   * @throws RetryableError with category "validation" if no response passes
+   */
+  private async repairResponse(
+    stateName: string,
+    state: State,
+    prompt: string,
+    firstResponse: string,
+    callModel: (promptText: string) => Promise<string>
+  ): Promise<{ response: string; output?: any }> {
+    const schema = state.outputSchema;
+    const repairAttempts = state.repairAttempts ?? DEFAULT_REPAIR_ATTEMPTS;
+    let response = firstResponse;
+
+    for (let repair = 0; ; repair++) {
+      const checkErrors = state.validate ? checkResponse(response, state.validate) : [];
+      let output: any;
+      let schemaErrors: string[] = [];
+      if (schema) {
+        try {
+          output = parseJsonResponse(response);
+          schemaErrors = validateAgainstSchema(output, schema);
+        } catch (error: any) {
+          schemaErrors = [error.message];
+        }
+      }
+
+      if (checkErrors.length === 0 && schemaErrors.length === 0) {
+        return { response, output };
+      }
+
+      const failures: string[] = [];
+      if (checkErrors.length > 0) {
+        this.tracer.traceError('output_validation', checkErrors.join('; '), { state: stateName, repair });
+        failures.push(`Response failed validation: ${checkErrors.join('; ')}`);
+      }
+      if (schemaErrors.length > 0) {
+        this.tracer.traceError('output_schema_validation', schemaErrors.join('; '), { state: stateName, repair });
+        failures.push(`Response did not match output_schema: ${schemaErrors.join('; ')}`);
+      }
+      if (repair >= repairAttempts) {
+        throw new RetryableError(failures.join('; '), 'validation');
+      }
+
+      const errorCount = checkErrors.length + schemaErrors.length;
+      this.log('warning',
+        `Response ${checkErrors.length > 0 ? 'failed validation' : 'did not match output_schema'} (${errorCount} error(s)). ` +
+        `Asking the model to fix it (${repair + 1}/${repairAttempts})...`
+      );
+      let repairPrompt = `${prompt}\n\nYour previous response was:\n${response}\n\n`;
+      if (checkErrors.length > 0) {
+        repairPrompt += `It does not meet these requirements:\n${checkErrors.map(error => `- ${error}`).join('\n')}\n\n`;
+      }
+      if (schemaErrors.length > 0) {
+        repairPrompt += `It does not match the required JSON schema:\n${schemaErrors.map(error => `- ${error}`).join('\n')}\n\n`;
+      }
+      repairPrompt += schema
+        ? `Respond again with only JSON that matches this schema:\n${JSON.stringify(schema, null, 2)}`
+        : 'Respond again, meeting all of these requirements.';
+      response = await callModel(repairPrompt);
+    }
+  }
+
+  /**
+   * Generate the state's samples and pick one with the state's select strategy
+   * @param stateName - Name of the state
+   * @param state - State configuration with samples
+   * @param prompt - Prompt the samples answer
+   * @param models - Models the samples are spread over, in turn
+   * @param generate - Generates one sample with the given model
+   * @returns The chosen sample and the model that produced it
+   */
+  private async selectSample(
+    stateName: string,
+    state: State,
+    prompt: string,
+    models: string[],
+    generate: (model: string) => Promise<{ response: string; output?: any }>
+  ): Promise<{ response: string; output?: any; model: string }> {
+    const count = state.samples!;
+    const strategy = state.select || 'majority';
+    const samples: { response: string; output?: any; model: string }[] = [];
+    for (let i = 0; i < count; i++) {
+      const model = models[i % models.length];
+      this.log('loading', `Generating sample ${i + 1}/${count}${models.length > 1 ? ` with ${model}` : ''}...`);
+      samples.push({ ...(await generate(model)), model });
+    }
+
+    let chosen: number;
+    if (strategy === 'longest') {
+      chosen = pickLongest(samples.map(sample => sample.response));
+      this.log('success', `Chose the longest sample (${chosen + 1} of ${count})`);
+    } else if (strategy === 'judge') {
+      const judgePrompt = buildJudgePrompt(prompt, samples.map(sample => sample.response));
+      chosen = await this.requestChoice(stateName, state, state.judgeModel || models[0], judgePrompt, count);
+      this.log('success', `The judge chose sample ${chosen + 1} of ${count}`);
+    } else {
+      // Structured outputs are compared by value, text by its normalized form
+      const keys = samples.map(sample => (sample.output !== undefined ? JSON.stringify(sample.output) : normalizeAnswer(sample.response)));
+      const { index, votes } = pickMajority(keys);
+      chosen = index;
+      this.log('success', `Chose sample ${chosen + 1}, the answer of ${votes} of ${count} samples`);
+    }
+
+    this.tracer.trace('sample_selection', { state: stateName, select: strategy, samples: count, chosen: chosen + 1, model: samples[chosen].model });
+    this.log('ai', `Response: ${samples[chosen].response}`);
+    return samples[chosen];
+  }
+
+  /**
+   * Ask a model to choose one of a numbered list of options, asking again when
+   * the answer is not a number in range. Each call is limited by the state's
+   * timeout, and the whole request follows its retry policy.
+   * @param stateName - Name of the state the choice is made for
+   * @param state - State configuration
+   * @param model - Model to ask
+   * @param prompt - Prompt listing the options, numbered from 1
+   * @param count - Number of options
+   * @returns Zero-based index of the chosen option
+   * @throws RetryableError with category "validation" if no answer is a number in range
+   */
+  private async requestChoice(stateName: string, state: State, model: string, prompt: string, count: number): Promise<number> {
+    const timeoutMs = state.timeoutMs ?? this.workflow.timeoutMs;
+
+    const ask = async (): Promise<number> => {
+      let promptText = prompt;
+      for (let attempt = 0; ; attempt++) {
+        if (this.stopRequested) {
+          throw new Error('Workflow stopped by user');
+        }
+
+        const controller = new AbortController();
+        this.activeRequests.add(controller);
+        const timer = timeoutMs
+          ? setTimeout(() => controller.abort(new RetryableError(`Model call timed out after ${timeoutMs}ms`, 'timeout')), timeoutMs)
+          : undefined;
+        let answer: string;
+        try {
+          answer = await this.ollamaClient.generate(model, promptText, {}, undefined, undefined, controller.signal);
+        } finally {
+          if (timer) {
+            clearTimeout(timer);
+          }
+          this.activeRequests.delete(controller);
+        }
+
+        const index = parseChoice(answer, count);
+        if (index !== undefined) {
+          return index;
+        }
+
+        const quoted = answer.trim().substring(0, 100);
+        this.tracer.traceError('invalid_llm_selection', `Expected a number from 1 to ${count}: ${quoted}`, { attempt });
+        if (attempt >= DEFAULT_REPAIR_ATTEMPTS) {
+          throw new RetryableError(`Model did not answer with a number from 1 to ${count} (last answer: "${quoted}")`, 'validation');
+        }
+        this.log('warning', `Model answered "${quoted}" instead of a number from 1 to ${count}. Asking again (${attempt + 1}/${DEFAULT_REPAIR_ATTEMPTS})...`);
+        promptText = `${prompt}\n\nYour previous answer was "${quoted}", which is not a number from 1 to ${count}. Respond with ONLY the number.`;
+      }
+    };
+
+    const retryPolicy = resolveRetryPolicy(this.workflow.retry, state.retry);
+    return retryPolicy ? this.runWithRetry(stateName, ask, retryPolicy) : ask();
+  }
+
+  /**
+   * Run an operation under a retry policy. The wait between attempts ends
+   * early when the run is stopped or the caller's signal is aborted.
+   * @param stateName - Name of the state
+   * @param operation - Operation to run
+   * @param policy - Retry policy
+   * @param signal - Caller's signal, such as that of a parallel state's branches
+   * @returns Result of the first successful attempt
+   */
+  private async runWithRetry<T>(stateName: string, operation: () => Promise<T>, policy: Required<RetryConfig>, signal?: AbortSignal): Promise<T> {
+    const controller = new AbortController();
+    this.activeRequests.add(controller);
+    const onAbort = () => controller.abort(signal!.reason);
+    signal?.addEventListener('abort', onAbort);
+    try {
+      return await withRetry(operation, policy, (event: RetryAttemptEvent) => this.logRetryAttempt(stateName, event), controller.signal);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      this.activeRequests.delete(controller);
+    }
+  }
+
+  /**
+   * Record an attempt of a model call made under a retry policy
+   * @param stateName - Name of the state
+   * @param event - Attempt details
+   */
+  private logRetryAttempt(stateName: string, event: RetryAttemptEvent): void {
+    this.tracer.traceRetryAttempt(stateName, event.attempt, event.maxAttempts, event.error, event.category, event.delayMs);
+    if (event.delayMs !== undefined) {
+      this.log('warning',
+        `Attempt ${event.attempt}/${event.maxAttempts} failed (${event.category}): ${event.error}. Retrying in ${event.delayMs}ms...`
+      );
+    }
+  }
+
+  /**
+   * Execute a parallel state (runs branches concurrently, then joins)
    * @param stateName - Name of the state
    * @param state - State configuration
    * @returns Next state name
    */
-  async executeInputState(stateName: string, state: State): Promise<string> {
-    if (state.prompt) {
-      console.log('\n' + CliFormatter.info(this.interpolateVariables(state.prompt)));
+  async executeParallelState(stateName: string, state: State): Promise<string> {
+    const branches = state.branches || [];
+    const limit = Math.min(state.maxConcurrency || branches.length, branches.length);
+    const failFast = state.errorPolicy !== 'collect_all';
+    const failures: { branch: string; message: string }[] = [];
+    let nextIndex = 0;
+    // With fail_fast, the first failure cancels the branches still running
+    const cancel = new AbortController();
+
+    this.log('loading', `Running ${branches.length} branch(es), up to ${limit} at a time...`);
+
+    // Each worker pulls the next pending branch until none are left
+    const worker = async (): Promise<void> => {
+      while (nextIndex < branches.length && !cancel.signal.aborted && !this.stopRequested) {
+        const branchName = branches[nextIndex++];
+        try {
+          await this.executeBranch(branchName, cancel.signal);
+        } catch (error: any) {
+          if (cancel.signal.aborted) {
+            return;
+          }
+          failures.push({ branch: branchName, message: error.message });
+          this.tracer.traceError('parallel_branch_error', error.message, { state: stateName, branch: branchName });
+          this.emitEvent('error', { state: branchName, message: `Branch "${branchName}" failed: ${error.message}` });
+          if (failFast) {
+            cancel.abort(new Error('Cancelled because another branch failed'));
+          }
+        }
+      }
+    };
+
+    // Every branch has settled before the state fails, so none writes to the context afterwards
+    await Promise.all(Array.from({ length: limit }, () => worker()));
+
+    if (failFast && failures.length > 0) {
+      throw new Error(`Branch "${failures[0].branch}" failed: ${failures[0].message}`);
     }
-    
-    let defaultHint = '';
-    if (state.defaultValue) {
-      const interpolatedDefault = this.interpolateVariables(state.defaultValue);
-      defaultHint = ` (default: ${interpolatedDefault})`;
+    if (failures.length > 0) {
+      const summary = failures.map(f => `${f.branch}: ${f.message}`).join('; ');
+      throw new Error(`${failures.length} of ${branches.length} branch(es) failed: ${summary}`);
+    }
+
+    this.log('success', `All ${branches.length} branch(es) completed`);
+    return state.next || END_STATE;
+  }
+
+  /**
+   * Execute a single branch of a parallel state
+   * @param branchName - Name of the state to run as a branch
+   * @param signal - Cancels the branch when a sibling fails under fail_fast
+   */
+  private async executeBranch(branchName: string, signal: AbortSignal): Promise<void> {
+    const branchState = this.workflow.states[branchName];
+    if (!branchState) {
+      throw new Error(`Branch state "${branchName}" not found`);
+    }
+
+    this.history.push(branchName);
+    this.tracer.traceStateExecutionStart(branchName, branchState.type);
+    const { response, output } = await this.generateResponse(branchName, branchState, false, this.context, signal);
+    if (signal.aborted) {
+      throw signal.reason;
+    }
+
+    if (branchState.saveAs) {
+      const value = output !== undefined ? output : response;
+      this.context[branchState.saveAs] = value;
+      this.tracer.traceContextUpdate(branchState.saveAs, value);
+    }
+
+    this.tracer.traceStateExecutionComplete(branchName, branchState.type);
+    this.log('success', `Branch ${branchName} completed`);
+    this.log('ai', `Response: ${response}`);
+  }
+
+  /**
+   * Execute a foreach state (runs its steps once per item of a list variable)
+   * @param stateName - Name of the state
+   * @param state - State configuration
+   * @returns Next state name
+   */
+  async executeForeachState(stateName: string, state: State): Promise<string> {
+    const items = this.resolveList(state.items || '');
+    const body = state.body || [];
+    const outputs: any[] = [];
+    const hadItem = 'item' in this.context;
+    const hadIndex = 'index' in this.context;
+    const previousItem = this.context['item'];
+    const previousIndex = this.context['index'];
+
+    this.log('loading', `Iterating over ${items.length} item(s) from "${state.items}"...`);
+
+    try {
+      for (let index = 0; index < items.length && !this.stopRequested; index++) {
+        this.context['item'] = items[index];
+        this.context['index'] = index;
+        this.log('step', `Item ${index + 1}/${items.length}`);
+
+        // The output of the last step is the item's result
+        let output: string | undefined;
+        for (const stepName of body) {
+          if (this.stopRequested) {
+            throw new Error('Workflow stopped by user');
+          }
+          const stepState = this.workflow.states[stepName];
+          if (!stepState) {
+            throw new Error(`Step state "${stepName}" not found`);
+          }
+
+          this.history.push(stepName);
+          this.tracer.traceStateExecutionStart(stepName, stepState.type);
+          output = (await this.generateResponse(stepName, stepState, true)).response;
+
+          if (stepState.saveAs) {
+            this.context[stepState.saveAs] = output;
+            this.tracer.traceContextUpdate(stepState.saveAs, output);
+          }
+          this.tracer.traceStateExecutionComplete(stepName, stepState.type);
+        }
+        outputs.push(output);
+      }
+    } finally {
+      // Restore any item/index values from an enclosing scope
+      if (hadItem) {
+        this.context['item'] = previousItem;
+      } else {
+        delete this.context['item'];
+      }
+      if (hadIndex) {
+        this.context['index'] = previousIndex;
+      } else {
+        delete this.context['index'];
+      }
+    }
+
+    if (state.saveAs) {
+      this.context[state.saveAs] = outputs;
+      this.tracer.traceContextUpdate(state.saveAs, outputs);
+    }
+
+    this.log('success', `Processed ${outputs.length} item(s)`);
+    return state.next || END_STATE;
+  }
+
+  /**
+   * Execute a map_reduce state (runs the map prompt on each chunk of a long text,
+   * then the reduce prompt over the partial results)
+   * @param stateName - Name of the state
+   * @param state - State configuration
+   * @returns Next state name
+   */
+  async executeMapReduceState(stateName: string, state: State): Promise<string> {
+    const chunkSize = state.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const chunks = RAGService.chunkText(await this.readMapReduceInput(state), chunkSize).filter(chunk => chunk.length > 0);
+    if (chunks.length === 0) {
+      throw new Error('There is no text to process');
+    }
+    const limit = state.maxConcurrency ?? 1;
+    // Map and reduce calls are prompts of their own, outside any conversation
+    const buildPromptState = (prompt: string): State => ({
+      type: STATE_TYPE.PROMPT,
+      prompt,
+      model: state.model,
+      options: state.options,
+      retry: state.retry,
+      timeoutMs: state.timeoutMs,
+      conversation: false,
+      files: []
+    });
+    const mapState = buildPromptState(state.mapPrompt!);
+    const reduceState = buildPromptState(state.reducePrompt!);
+    const reduce = async (results: string[], streamTokens: boolean): Promise<string> => {
+      const variables = { ...this.context, results: results.join(RESULT_SEPARATOR) };
+      return (await this.generateResponse(stateName, reduceState, streamTokens, variables)).response;
+    };
+
+    this.log('loading', `Split the input into ${chunks.length} chunk(s), mapping up to ${limit} at a time...`);
+    let results = await this.runConcurrently(chunks.length, limit, async index => {
+      try {
+        const variables = { ...this.context, chunk: chunks[index], index };
+        const { response } = await this.generateResponse(stateName, mapState, limit === 1, variables);
+        this.log('step', `Mapped chunk ${index + 1}/${chunks.length}`);
+        return response;
+      } catch (error: any) {
+        throw new Error(`Chunk ${index + 1} of ${chunks.length} failed: ${error.message}`);
+      }
+    });
+
+    // Partial results that do not fit in one chunk are reduced in groups first
+    let groups = this.groupResults(results, chunkSize);
+    while (groups.length > 1) {
+      this.log('loading', `Reducing ${results.length} partial result(s) in ${groups.length} group(s)...`);
+      const current = groups;
+      results = await this.runConcurrently(current.length, limit, async index =>
+        current[index].length === 1 ? current[index][0] : reduce(current[index], limit === 1)
+      );
+      groups = this.groupResults(results, chunkSize);
+    }
+
+    const output = await reduce(groups[0], true);
+    this.lastStateOutput = output;
+    if (state.saveAs) {
+      this.context[state.saveAs] = output;
+      this.tracer.traceContextUpdate(state.saveAs, output);
+    }
+
+    this.log('success', `Reduced ${chunks.length} chunk(s)`);
+    return state.next || END_STATE;
+  }
+
+  /**
+   * Read the text a map_reduce state splits: its input followed by the text of its files
+   * @param state - State configuration
+   * @returns Text to split into chunks
+   */
+  private async readMapReduceInput(state: State): Promise<string> {
+    const parts: string[] = [];
+    if (state.input !== undefined) {
+      parts.push(this.interpolateVariables(state.input));
+    }
+    for (const filePath of state.files) {
+      const file = await FileHandler.processFile(this.interpolateVariables(filePath));
+      if (file.type === 'image') {
+        throw new Error(`Cannot split ${file.filename}: only text, PDF and Word files can be processed in chunks`);
+      }
+      this.log('success', `Read ${file.filename} (${file.type})`);
+      parts.push(file.content);
     }
+    return parts.join('\n\n');
+  }
+
+  /**
+   * Group the partial results of a map_reduce state so that each group fits in a
+   * chunk. Groups take at least two results, so each round of reducing at least
+   * halves their number.
+   * @param results - Partial results
+   * @param chunkSize - Maximum number of characters in a group
+   * @returns Groups of results, in order
+   */
+  private groupResults(results: string[], chunkSize: number): string[][] {
+    const groups: string[][] = [];
+    let group: string[] = [];
+    let length = 0;
+    for (const result of results) {
+      if (group.length >= 2 && length + RESULT_SEPARATOR.length + result.length > chunkSize) {
+        groups.push(group);
+        group = [];
+        length = 0;
+      }
+      length += (group.length > 0 ? RESULT_SEPARATOR.length : 0) + result.length;
+      group.push(result);
+    }
+    groups.push(group);
+    return groups;
+  }
+
+  /**
+   * Run tasks with at most a given number running at the same time
+   * @param count - Number of tasks
+   * @param limit - Maximum number of tasks running at the same time
+   * @param task - Runs the task with the given index
+   * @returns Results of the tasks, in index order
+   * @throws The error of the first task that fails; no further tasks are started
+   */
+  private async runConcurrently<T>(count: number, limit: number, task: (index: number) => Promise<T>): Promise<T[]> {
+    const results: T[] = new Array(count);
+    let nextIndex = 0;
+    let failed = false;
+
+    // Each worker pulls the next pending task until none are left
+    const worker = async (): Promise<void> => {
+      while (nextIndex < count && !failed && !this.stopRequested) {
+        const index = nextIndex++;
+        try {
+          results[index] = await task(index);
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, count) }, () => worker()));
+    if (this.stopRequested) {
+      throw new Error('Workflow stopped by user');
+    }
+    return results;
+  }
+
+  /**
+   * Read a context variable as a list. Arrays are used as-is, strings holding
+   * a JSON array are parsed, and any other text is split into non-empty lines.
+   * @param variableName - Name of the context variable
+   * @returns List items
+   */
+  private resolveList(variableName: string): any[] {
+    const value = this.context[variableName];
+    if (value === undefined || value === null) {
+      throw new Error(`List variable "${variableName}" is not defined`);
+    }
+    if (Array.isArray(value)) {
+      return value;
+    }
+
+    // Models often wrap JSON in a markdown code fence
+    const text = String(value).trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+    if (text.startsWith('[')) {
+      try {
+        const parsed = JSON.parse(text);
+        if (Array.isArray(parsed)) {
+          return parsed;
+        }
+      } catch (e) {
+        // Not JSON, fall back to one item per line
+      }
+    }
+
+    return text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  }
+
+  /**
+   * Execute a call state (runs another workflow in its own context)
+   * @param stateName - Name of the state
+   * @param state - State configuration
+   * @returns Next state name
+   */
+  async executeCallState(stateName: string, state: State): Promise<string> {
+    const calledFile = path.basename(state.callWorkflow!);
+    if (this.callDepth >= this.maxCallDepth) {
+      throw new Error(`Call depth limit of ${this.maxCallDepth} exceeded when calling "${calledFile}"`);
+    }
+
+    // Each call parses the workflow afresh, so repeated calls never share state
+    const workflow = WorkflowParser.parseFile({ filePath: state.callWorkflow!, workflowDir: '', visitedFiles: new Set() });
+    const child = new WorkflowExecutor(workflow, this.ollamaUrl, this.tracer, this.runDirectory);
+    child.callDepth = this.callDepth + 1;
+    child.maxCallDepth = this.maxCallDepth;
+    child.ollamaClient = this.ollamaClient;
+    child.usage = this.usage;
+    child.answers = this.answers;
+    child.adapter = this.adapter;
+    // The called workflow's progress is reported as part of this run
+    for (const name of FORWARDED_EVENTS) {
+      child.on(name, (event: any) => this.emitEvent(name, event));
+    }
+
+    const inputs: Record<string, any> = {};
+    for (const [variableName, value] of Object.entries(state.inputs || {})) {
+      inputs[variableName] = interpolateValue(value, this.context, { strict: this.workflow.strictVariables });
+    }
+    // Inputs declared by the called workflow are checked and converted; file inputs receive contents
+    child.setInputs(resolveInputs(workflow.inputs, inputs));
+
+    this.log('info', `Calling workflow "${workflow.name}" (${calledFile})`);
+    this.activeCalls.add(child);
+    try {
+      await child.execute();
+    } finally {
+      this.activeCalls.delete(child);
+    }
+    if (this.stopRequested) {
+      throw new Error('Workflow stopped by user');
+    }
+    if (child.limitReached) {
+      throw new Error(`Called workflow "${workflow.name}" stopped: ${child.limitReached}`);
+    }
+
+    const outputs: Record<string, any> = {};
+    for (const [variableName, childVariable] of Object.entries(state.outputs || {})) {
+      const value = resolvePath(child.context, parseVariablePath(childVariable) || []);
+      if (value === undefined) {
+        throw new Error(`Called workflow "${workflow.name}" did not set output variable "${childVariable}"`);
+      }
+      this.context[variableName] = value;
+      this.tracer.traceContextUpdate(variableName, value);
+      outputs[variableName] = value;
+    }
+    this.lastStateOutput = outputs;
+
+    this.log('success', `Workflow "${workflow.name}" returned to ${stateName}`);
+    return state.next || END_STATE;
+  }
+
+  /**
+   * Execute an input state (asks user for freeform text input)
+   * @param stateName - Name of the state
+   * @param state - State configuration
+   * @returns Next state name
+   */
+  async executeInputState(stateName: string, state: State): Promise<string> {
+    const request: InputRequest = {
+      state: stateName,
+      prompt: state.prompt ? this.interpolateVariables(state.prompt) : undefined,
+      defaultValue: state.defaultValue ? this.interpolateVariables(state.defaultValue) : undefined
+    };
+    this.emitEvent('inputRequested', request);
     
-    const answer = await this.askQuestion(`\nEnter your response${defaultHint}: `);
+    // Adapters that cannot take input (headless runs) answer the non-interactive way
+    const answer = this.answers || !this.adapter.requestInput
+      ? this.getScriptedAnswer(stateName, state)
+      : String(await this.adapter.requestInput(request));
     
     // Use default value if no input provided
     let userInput = answer.trim();
-    if (!userInput && state.defaultValue) {
-      userInput = this.interpolateVariables(state.defaultValue);
-      console.log(CliFormatter.info(`Using default value: ${userInput}`));
+    if (!userInput && request.defaultValue !== undefined) {
+      userInput = request.defaultValue;
+      this.log('info', `Using default value: ${userInput}`);
     }
     
     // Store input in context if variable is specified
@@ -449,19 +1670,145 @@ class WorkflowExecutor {
     }
     
     this.tracer.traceUserChoice(stateName, userInput);
+    this.lastStateOutput = userInput;
     
     return state.next || END_STATE;
   }
   
   /**
-   * Let the LLM select the next state from available options
-   * @param nextOptions - Array of possible next states with descriptions
+   * Answer an input state in a non-interactive run
+   * @param stateName - Name of the input state
+   * @param state - State configuration
+   * @returns The answer (empty to use the state's default value)
+   * @throws Error if there is no answer and no default value
+   */
+  private getScriptedAnswer(stateName: string, state: State): string {
+    if (state.saveAs && this.providedInputs.has(state.saveAs)) {
+      const value = this.context[state.saveAs];
+      this.log('info', `Using provided input: ${value}`);
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    }
+
+    const scripted = this.answers?.next(stateName);
+    if (scripted !== undefined) {
+      this.log('info', `Using scripted answer: ${scripted}`);
+      return scripted;
+    }
+
+    if (state.defaultValue) {
+      return '';
+    }
+    const variableHint = state.saveAs ? `--var ${state.saveAs}=..., ` : '';
+    throw new Error(`Input state "${stateName}" needs an answer, but the run is non-interactive. Provide one with ${variableHint}an answers file entry for "${stateName}", or a default_value`);
+  }
+
+  /**
+   * Execute an approval state (a person approves, rejects or edits the content)
+   * @param stateName - Name of the state
+   * @param state - State configuration
+   * @returns Next state name, or the on_reject state if the content was rejected
+   */
+  async executeApprovalState(stateName: string, state: State): Promise<string> {
+    const request: ApprovalRequest = {
+      state: stateName,
+      prompt: state.prompt ? this.interpolateVariables(state.prompt) : undefined,
+      content: this.interpolateVariables(state.content || ''),
+      defaultDecision: state.defaultDecision
+    };
+    this.emitEvent('approvalRequested', request);
+
+    // Adapters that cannot ask anyone (headless runs) decide the non-interactive way
+    const decision = this.answers || !this.adapter.requestApproval
+      ? this.getScriptedApproval(stateName, state)
+      : await this.waitForApproval(request, state.timeoutMs);
+    if (!decision || !APPROVAL_DECISIONS.includes(decision.decision)) {
+      throw new Error(`Invalid approval decision ${JSON.stringify(decision && decision.decision)}, expected one of: ${APPROVAL_DECISIONS.join(', ')}`);
+    }
+    this.tracer.traceUserChoice(stateName, decision.decision);
+
+    if (decision.decision === 'reject') {
+      this.log('warning', `Rejected, continuing to ${state.onReject}`);
+      this.routeChosen = true;
+      return state.onReject!;
+    }
+
+    const text = decision.decision === 'edit' ? String(decision.text ?? '') : request.content;
+    this.log('success', decision.decision === 'edit' ? 'Edited and approved' : 'Approved');
+    if (state.saveAs) {
+      this.context[state.saveAs] = text;
+      this.tracer.traceContextUpdate(state.saveAs, text);
+    }
+    this.lastStateOutput = text;
+
+    return state.next || END_STATE;
+  }
+
+  /**
+   * Ask the adapter for an approval decision, using the default decision when the time limit passes
+   * @param request - Approval request of the state
+   * @param timeoutMs - Time to wait for a decision (no limit if undefined)
+   * @returns The decision
+   */
+  private async waitForApproval(request: ApprovalRequest, timeoutMs?: number): Promise<ApprovalDecision> {
+    const answer = Promise.resolve(this.adapter.requestApproval!(request));
+    if (!timeoutMs) {
+      return await answer;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<undefined>(resolve => {
+      timer = setTimeout(() => resolve(undefined), timeoutMs);
+    });
+    try {
+      const decision = await Promise.race([answer, timeout]);
+      if (decision) {
+        return decision;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    // Take back the question, so the adapter does not wait for an answer that no longer counts
+    this.adapter.cancelInput?.();
+    this.log('warning', `No decision within ${timeoutMs}ms, using the default decision: ${request.defaultDecision}`);
+    return { decision: request.defaultDecision! };
+  }
+
+  /**
+   * Decide an approval state in a non-interactive run
+   * @param stateName - Name of the approval state
+   * @param state - State configuration
+   * @returns The scripted decision, or the state's default decision
+   * @throws Error if there is neither
+   */
+  private getScriptedApproval(stateName: string, state: State): ApprovalDecision {
+    const scripted = this.answers?.next(stateName);
+    if (scripted !== undefined && scripted.trim() !== '') {
+      this.log('info', `Using scripted decision: ${scripted}`);
+      return parseApprovalAnswer(scripted);
+    }
+
+    if (state.defaultDecision) {
+      this.log('info', `Using default decision: ${state.defaultDecision}`);
+      return { decision: state.defaultDecision };
+    }
+    throw new Error(`Approval state "${stateName}" needs a decision, but the run is non-interactive. Provide one with an answers file entry for "${stateName}" ("approve", "reject" or the edited text), or a default_decision`);
+  }
+
+  /**
+   * Let the LLM select the next state from the state's next_options. With
+   * several samples, the option chosen most often wins.
+   * @param stateName - Name of the state
+   * @param state - State configuration with next options
    * @param previousResponse - The response from the previous prompt (for context)
-   * @param model - Model to use for selection
+   * @param models - Models to use for selection, in turn
    * @returns Next state name
+   * @throws Error if the LLM does not answer with one of the options
    */
-  async selectNextState(nextOptions: NextOption[], previousResponse: string, model: string): Promise<string> {
-    console.log('\n' + CliFormatter.step('LLM selecting next state'));
+  async selectNextState(stateName: string, state: State, previousResponse: string, models: string[]): Promise<string> {
+    this.log('step', 'LLM selecting next state');
+    const nextOptions = state.nextOptions!;
+    const samples = state.samples ?? 1;
     
     // Sanitize and limit the previous response to prevent token overflow and injection
     const maxResponseLength = 500;
@@ -483,63 +1830,37 @@ class WorkflowExecutor {
     
     selectionPrompt += `\nRespond with ONLY the number (1-${nextOptions.length}) of the most appropriate next step. Do not include any explanation, just the number.`;
     
-    console.log(CliFormatter.loading('Asking LLM to select next state...'));
+    this.log('loading', 'Asking LLM to select next state...');
     this.tracer.traceContextUpdate('llm_selection_prompt', selectionPrompt);
     
+    const choices: number[] = [];
     try {
-      const selectionResponse = await this.ollamaClient.generate(model, selectionPrompt, {});
-      
-      // Extract the first number found in the response (more robust parsing)
-      const numberMatch = selectionResponse.match(/\d+/);
-      if (!numberMatch) {
-        console.warn(CliFormatter.warning(`LLM returned no number in response: "${selectionResponse}". Defaulting to first option.`));
-        this.tracer.traceError('invalid_llm_selection', `No number found: ${selectionResponse}`, { defaulting: nextOptions[0].state });
-        return nextOptions[0].state;
+      for (let i = 0; i < samples; i++) {
+        choices.push(await this.requestChoice(stateName, state, models[i % models.length], selectionPrompt, nextOptions.length));
       }
-      
-      const selectedIndex = parseInt(numberMatch[0]) - 1;
-      
-      if (selectedIndex < 0 || selectedIndex >= nextOptions.length) {
-        console.warn(CliFormatter.warning(`LLM returned out-of-range selection: "${selectionResponse}". Defaulting to first option.`));
-        this.tracer.traceError('invalid_llm_selection', `Out of range: ${selectionResponse}`, { defaulting: nextOptions[0].state });
-        return nextOptions[0].state;
-      }
-      
-      const selectedOption = nextOptions[selectedIndex];
-      console.log(CliFormatter.success(`LLM selected: ${selectedOption.state} - ${selectedOption.description}`) + '\n');
-      this.tracer.traceContextUpdate('llm_selected_state', selectedOption.state);
-      
-      return selectedOption.state;
     } catch (error: any) {
-      console.error(CliFormatter.error(`Error during LLM state selection: ${error.message}. Defaulting to first option.`));
-      this.tracer.traceError('llm_selection_error', error.message, { defaulting: nextOptions[0].state });
-      return nextOptions[0].state;
+      this.tracer.traceError('llm_selection_error', error.message);
+      throw new Error(`Could not select the next state: ${error.message}`);
     }
+    
+    const { index, votes } = pickMajority(choices.map(String));
+    const selectedOption = nextOptions[choices[index]];
+    const tally = samples > 1 ? ` (${votes} of ${samples} votes)` : '';
+    this.log('success', `LLM selected: ${selectedOption.state} - ${selectedOption.description}${tally}`);
+    this.tracer.traceContextUpdate('llm_selected_state', selectedOption.state);
+    
+    return selectedOption.state;
   }
 
+
   /**
    * Interpolate variables in a string
-   * @param text - Text with variables like {{variable}}
+   * @param text - Text with variables like {{variable}}, {{result.title}} or {{name | default: "friend"}}
    * @returns Text with variables replaced
+   * @throws Error if the workflow uses strict_variables and a variable is undefined
    */
   interpolateVariables(text: string): string {
-    return text.replace(/\{\{(\w+)\}\}/g, (match, varName) => {
-      return this.context[varName] || match;
-    });
-  }
-
-  /**
-   * Ask user a question via readline
-   * @param question - Question to ask
-   * @returns User's answer
-   */
-  askQuestion(question: string): Promise<string> {
-    return new Promise((resolve) => {
-      const rl = this.getReadlineInterface();
-      rl.question(question, (answer) => {
-        resolve(answer);
-      });
-    });
+    return interpolate(text, this.context, { strict: this.workflow.strictVariables });
   }
 }
 
@@ -0,0 +1,409 @@
+/**
+ * Safe expression language used by `switch` routing.
+ * Expressions are parsed by a small recursive-descent parser and evaluated
+ * against the workflow context; nothing is ever run as JavaScript.
+ *
+ * Supported syntax:
+ * - Literals: numbers, "strings" or 'strings', /regex/flags, true, false, null
+ * - Variables: context names with dotted paths (e.g. result.score, items.0)
+ * - Comparisons: ==, !=, >, >=, <, <=
+ * - Logic: && (and), || (or), ! (not) and parentheses
+ * - Functions: contains(value, search), matches(value, /regex/), length(value)
+ */
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'regex'; value: RegExp }
+  | { kind: 'identifier'; value: string }
+  | { kind: 'operator'; value: string }
+  | { kind: 'punctuation'; value: string };
+
+export type ExpressionNode =
+  | { type: 'literal'; value: any }
+  | { type: 'variable'; path: string[] }
+  | { type: 'not'; operand: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+const COMPARISON_OPERATORS = ['==', '!=', '>=', '<=', '>', '<'];
+const WORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+const LITERALS: Record<string, any> = { true: true, false: false, null: null };
+
+const FUNCTIONS: Record<string, { arity: number; call: (...args: any[]) => any }> = {
+  contains: {
+    arity: 2,
+    call: (value: any, search: any) => {
+      if (Array.isArray(value)) {
+        return value.some(item => toText(item) === toText(search));
+      }
+      return toText(value).includes(toText(search));
+    }
+  },
+  matches: {
+    arity: 2,
+    call: (value: any, pattern: any) => {
+      const regex = pattern instanceof RegExp ? pattern : new RegExp(toText(pattern));
+      return regex.test(toText(value));
+    }
+  },
+  length: {
+    arity: 1,
+    call: (value: any) => {
+      if (Array.isArray(value)) {
+        return value.length;
+      }
+      return value === undefined || value === null ? 0 : toText(value).length;
+    }
+  }
+};
+
+/**
+ * Parse an expression into a syntax tree
+ * @param source - Expression text
+ * @returns Parsed expression
+ * @throws Error if the expression is not valid
+ */
+export function parseExpression(source: string): ExpressionNode {
+  try {
+    const parser = new Parser(tokenize(source));
+    return parser.parse();
+  } catch (error: any) {
+    throw new Error(`Invalid expression "${source}": ${error.message}`);
+  }
+}
+
+/**
+ * Evaluate an expression against a context
+ * @param source - Expression text
+ * @param context - Variables available to the expression
+ * @returns Whether the expression is truthy
+ */
+export function evaluateExpression(source: string, context: Record<string, any>): boolean {
+  return isTruthy(evaluateNode(parseExpression(source), context));
+}
+
+/**
+ * Split expression text into tokens
+ * @param source - Expression text
+ * @returns Tokens in order
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    // A minus sign only starts a number where a value is expected
+    const previous = tokens[tokens.length - 1];
+    const expectsValue = !previous || previous.kind === 'operator' || (previous.kind === 'punctuation' && previous.value !== ')');
+    const numberMatch = source.slice(pos).match(expectsValue ? /^-?\d+(\.\d+)?/ : /^\d+(\.\d+)?/);
+    if (numberMatch) {
+      tokens.push({ kind: 'number', value: Number(numberMatch[0]) });
+      pos += numberMatch[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\' && pos + 1 < source.length) {
+          pos++;
+          const escaped = source[pos];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+        } else {
+          value += source[pos];
+        }
+        pos++;
+      }
+      if (pos >= source.length) {
+        throw new Error('unterminated string');
+      }
+      pos++;
+      tokens.push({ kind: 'string', value });
+      continue;
+    }
+
+    if (char === '/') {
+      let pattern = '';
+      pos++;
+      while (pos < source.length && source[pos] !== '/') {
+        if (source[pos] === '\\' && pos + 1 < source.length) {
+          pattern += source[pos++];
+        }
+        pattern += source[pos++];
+      }
+      if (pos >= source.length) {
+        throw new Error('unterminated regular expression');
+      }
+      pos++;
+      const flags = source.slice(pos).match(/^[a-z]*/)![0];
+      pos += flags.length;
+      try {
+        // The global flag makes test() stateful, so it is dropped
+        tokens.push({ kind: 'regex', value: new RegExp(pattern, flags.replace('g', '')) });
+      } catch (error: any) {
+        throw new Error(`invalid regular expression /${pattern}/${flags}`);
+      }
+      continue;
+    }
+
+    const identifierMatch = source.slice(pos).match(/^[A-Za-z_]\w*(\.\w+)*/);
+    if (identifierMatch) {
+      const word = identifierMatch[0];
+      if (WORD_OPERATORS[word]) {
+        tokens.push({ kind: 'operator', value: WORD_OPERATORS[word] });
+      } else {
+        tokens.push({ kind: 'identifier', value: word });
+      }
+      pos += word.length;
+      continue;
+    }
+
+    const operator = ['==', '!=', '>=', '<=', '&&', '||', '>', '<', '!'].find(op => source.startsWith(op, pos));
+    if (operator) {
+      tokens.push({ kind: 'operator', value: operator });
+      pos += operator.length;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: 'punctuation', value: char });
+      pos++;
+      continue;
+    }
+
+    throw new Error(`unexpected character "${char}" at position ${pos + 1}`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over a token list.
+ * Precedence from lowest to highest: ||, &&, !, comparisons, primaries.
+ */
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    if (this.tokens.length === 0) {
+      throw new Error('expression is empty');
+    }
+    const node = this.parseOr();
+    if (this.pos < this.tokens.length) {
+      throw new Error(`unexpected "${this.describe(this.tokens[this.pos])}"`);
+    }
+    return node;
+  }
+
+  private parseOr(): ExpressionNode {
+    let node = this.parseAnd();
+    while (this.matchOperator('||')) {
+      node = { type: 'binary', operator: '||', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let node = this.parseUnary();
+    while (this.matchOperator('&&')) {
+      node = { type: 'binary', operator: '&&', left: node, right: this.parseUnary() };
+    }
+    return node;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('!')) {
+      return { type: 'not', operand: this.parseUnary() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parsePrimary();
+    const token = this.tokens[this.pos];
+    if (token && token.kind === 'operator' && COMPARISON_OPERATORS.includes(token.value)) {
+      this.pos++;
+      return { type: 'binary', operator: token.value, left, right: this.parsePrimary() };
+    }
+    return left;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.tokens[this.pos++];
+    if (!token) {
+      throw new Error('unexpected end of expression');
+    }
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+      case 'regex':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        if (token.value in LITERALS) {
+          return { type: 'literal', value: LITERALS[token.value] };
+        }
+        if (this.matchPunctuation('(')) {
+          return this.parseCall(token.value);
+        }
+        return { type: 'variable', path: token.value.split('.') };
+      case 'punctuation':
+        if (token.value === '(') {
+          const node = this.parseOr();
+          this.expectPunctuation(')');
+          return node;
+        }
+        break;
+    }
+
+    throw new Error(`unexpected "${this.describe(token)}"`);
+  }
+
+  private parseCall(name: string): ExpressionNode {
+    const fn = FUNCTIONS[name];
+    if (!fn) {
+      throw new Error(`unknown function "${name}"`);
+    }
+
+    const args: ExpressionNode[] = [];
+    if (!this.matchPunctuation(')')) {
+      do {
+        args.push(this.parseOr());
+      } while (this.matchPunctuation(','));
+      this.expectPunctuation(')');
+    }
+
+    if (args.length !== fn.arity) {
+      throw new Error(`function "${name}" expects ${fn.arity} argument(s) but got ${args.length}`);
+    }
+    return { type: 'call', name, args };
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.tokens[this.pos];
+    if (token && token.kind === 'operator' && token.value === value) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    const token = this.tokens[this.pos];
+    if (token && token.kind === 'punctuation' && token.value === value) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.matchPunctuation(value)) {
+      throw new Error(`expected "${value}"`);
+    }
+  }
+
+  private describe(token: Token): string {
+    return String(token.value);
+  }
+}
+
+/**
+ * Evaluate a syntax tree node
+ * @param node - Node to evaluate
+ * @param context - Variables available to the expression
+ * @returns Resulting value
+ */
+function evaluateNode(node: ExpressionNode, context: Record<string, any>): any {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'variable':
+      return node.path.reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), context as any);
+    case 'not':
+      return !isTruthy(evaluateNode(node.operand, context));
+    case 'call':
+      return FUNCTIONS[node.name].call(...node.args.map(arg => evaluateNode(arg, context)));
+    case 'binary':
+      if (node.operator === '&&') {
+        return isTruthy(evaluateNode(node.left, context)) && isTruthy(evaluateNode(node.right, context));
+      }
+      if (node.operator === '||') {
+        return isTruthy(evaluateNode(node.left, context)) || isTruthy(evaluateNode(node.right, context));
+      }
+      return compare(node.operator, evaluateNode(node.left, context), evaluateNode(node.right, context));
+  }
+}
+
+/**
+ * Compare two values. Values that both look like numbers are compared
+ * numerically, since model output is text; anything else is compared as
+ * trimmed text.
+ * @param operator - Comparison operator
+ * @param left - Left value
+ * @param right - Right value
+ * @returns Comparison result
+ */
+function compare(operator: string, left: any, right: any): boolean {
+  const leftMissing = left === undefined || left === null;
+  const rightMissing = right === undefined || right === null;
+  if (leftMissing || rightMissing) {
+    if (operator === '==') return leftMissing && rightMissing;
+    if (operator === '!=') return leftMissing !== rightMissing;
+    return false;
+  }
+
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  const a: number | string = leftNumber !== null && rightNumber !== null ? leftNumber : toText(left).trim();
+  const b: number | string = leftNumber !== null && rightNumber !== null ? rightNumber : toText(right).trim();
+
+  switch (operator) {
+    case '==': return a === b;
+    case '!=': return a !== b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    default: throw new Error(`Unknown operator "${operator}"`);
+  }
+}
+
+function toNumber(value: any): number | null {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toText(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function isTruthy(value: any): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (typeof value === 'string') {
+    return value.trim().length > 0;
+  }
+  return Boolean(value);
+}
@@ -2,9 +2,17 @@ import * as yaml from 'js-yaml';
 import * as fs from 'fs';
 import * as path from 'path';
 import { McpServerConfig, State, Workflow } from './workflow';
-import { WorkflowSpec, StateSpec, StepSpec, MCPServerSpec, RAGSpec } from './spec';
+import { WorkflowSpec, StateSpec, StepSpec, MCPServerSpec, RAGSpec, RetrySpec, ConversationSpec, InputSpec, ValidateSpec, LimitsSpec } from './spec';
 import { RAGConfig } from '../rag/rag-service';
+import { RetryCondition, RetryConfig } from '../utils/retry';
+import { checkSchema } from '../utils/json-schema';
+import { compileScript } from '../utils/script-sandbox';
+import { ConversationConfig } from '../utils/conversation';
+import { RunLimits, parseDuration } from '../utils/run-limits';
+import { InputDefinition, InputType } from '../utils/workflow-inputs';
+import { DEFAULT_REFUSAL_PHRASES, ValidateConfig } from '../utils/output-validation';
 import { WorkflowValidator } from './validator';
+import { BUILT_IN_STATE_TYPES, StateTypeHandler, getStateConfig, resolveStateTypes } from './state-types';
 
 const END_STATE = 'end';
 
@@ -13,6 +21,7 @@ interface ParserContext {
   workflowDir: string;
   filePath: string;
   visitedFiles: Set<string>;
+  stateTypes?: Record<string, StateTypeHandler>;  // Custom state types of the workflow being parsed
 }
 
 class WorkflowParser {
@@ -34,6 +43,52 @@ class WorkflowParser {
     }
   }
 
+  /**
+   * Read an output schema file from disk
+   * @param schemaFilePath - Path to the JSON or YAML schema file (relative or absolute)
+   * @param workflowDir - Directory containing the workflow file
+   * @returns Parsed schema
+   */
+  private static readSchemaFile(schemaFilePath: string, workflowDir: string): Record<string, any> {
+    const resolvedPath = path.resolve(workflowDir, schemaFilePath);
+    let schema: Record<string, any>;
+    try {
+      schema = yaml.load(fs.readFileSync(resolvedPath, 'utf8')) as Record<string, any>;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Output schema file not found: ${resolvedPath}`);
+      }
+      throw new Error(`Failed to read output schema file: ${error.message}`);
+    }
+    checkSchema(schema, `Output schema file ${resolvedPath}`);
+    return schema;
+  }
+
+  /**
+   * Read a script file from disk and check that it compiles
+   * @param scriptFilePath - Path to the JavaScript file (relative or absolute)
+   * @param workflowDir - Directory containing the workflow file
+   * @returns Content of the script file
+   */
+  private static readScriptFile(scriptFilePath: string, workflowDir: string): string {
+    const resolvedPath = path.resolve(workflowDir, scriptFilePath);
+    let script: string;
+    try {
+      script = fs.readFileSync(resolvedPath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Script file not found: ${resolvedPath}`);
+      }
+      throw new Error(`Failed to read script file: ${error.message}`);
+    }
+    try {
+      compileScript(script);
+    } catch (error: any) {
+      throw new Error(`Script file ${resolvedPath}: ${error.message}`);
+    }
+    return script;
+  }
+
   /**
    * Parse variables from workflow spec
    * @param variablesSpec - Variables specification from workflow
@@ -81,6 +136,32 @@ class WorkflowParser {
     return variables;
   }
 
+  /**
+   * Parse declared workflow inputs
+   * @param inputsSpec - Inputs specification from workflow
+   * @param workflowDir - Directory containing the workflow file
+   * @returns Input definitions by name, or undefined if none are declared
+   */
+  private static parseInputs(inputsSpec: Record<string, InputSpec> | undefined, workflowDir: string): Record<string, InputDefinition> | undefined {
+    if (!inputsSpec) {
+      return undefined;
+    }
+
+    const inputs: Record<string, InputDefinition> = {};
+    for (const [name, spec] of Object.entries(inputsSpec)) {
+      const type = (spec.type || 'string') as InputType;
+      inputs[name] = {
+        type,
+        description: spec.description,
+        required: spec.required,
+        // File defaults are resolved here so they can be read from any working directory
+        default: type === 'file' && spec.default !== undefined ? path.resolve(workflowDir, String(spec.default)) : spec.default,
+        values: spec.values
+      };
+    }
+    return inputs;
+  }
+
   /**
    * Resolve the prompt text for a state (from inline or file)
    * @param spec - State specification
@@ -114,6 +195,88 @@ class WorkflowParser {
     } as RAGConfig;
   }
 
+  /**
+   * Convert a retry specification to its runtime configuration
+   * @param spec - Retry specification
+   * @returns Retry configuration or undefined
+   */
+  private static parseRetrySpec(spec: RetrySpec | undefined): RetryConfig | undefined {
+    if (!spec) {
+      return undefined;
+    }
+
+    return {
+      maxAttempts: spec.max_attempts,
+      backoff: spec.backoff === 'fixed' ? 'fixed' : spec.backoff === 'exponential' ? 'exponential' : undefined,
+      initialDelayMs: spec.initial_delay_ms,
+      retryOn: spec.retry_on as RetryCondition[] | undefined
+    };
+  }
+
+  /**
+   * Convert a validate block to its runtime configuration
+   * @param spec - Validate specification
+   * @returns Validate configuration or undefined
+   */
+  private static parseValidateSpec(spec: ValidateSpec | undefined): ValidateConfig | undefined {
+    if (!spec) {
+      return undefined;
+    }
+
+    const toList = (value: string | string[] | undefined) => (typeof value === 'string' ? [value] : value);
+    return {
+      minLength: spec.min_length,
+      maxLength: spec.max_length,
+      mustContain: toList(spec.must_contain),
+      mustNotContain: toList(spec.must_not_contain),
+      regex: toList(spec.regex),
+      isJson: spec.is_json,
+      refusalPhrases: Array.isArray(spec.no_refusal) ? spec.no_refusal : spec.no_refusal ? DEFAULT_REFUSAL_PHRASES : undefined
+    };
+  }
+
+  /**
+   * Convert a conversation specification to its runtime configuration
+   * @param spec - Conversation specification, a conversation name, or false to opt out
+   * @returns Conversation configuration, false, or undefined if none is specified
+   */
+  private static parseConversationSpec(spec: ConversationSpec | string | false | undefined): ConversationConfig | false | undefined {
+    if (spec === undefined || spec === false) {
+      return spec;
+    }
+    if (typeof spec === 'string') {
+      return { name: spec };
+    }
+
+    return {
+      name: spec.name,
+      system: spec.system,
+      maxMessages: spec.max_messages,
+      maxChars: spec.max_chars,
+      reset: spec.reset,
+      forkFrom: spec.fork_from
+    };
+  }
+
+  /**
+   * Convert a limits specification to its runtime configuration
+   * @param spec - Limits specification
+   * @returns Run limits, or undefined if none are specified
+   */
+  private static parseLimitsSpec(spec: LimitsSpec | undefined): RunLimits | undefined {
+    if (!spec) {
+      return undefined;
+    }
+
+    return {
+      maxStatesExecuted: spec.max_states_executed,
+      maxLlmCalls: spec.max_llm_calls,
+      maxTotalTokens: spec.max_total_tokens,
+      maxDurationMs: spec.max_duration !== undefined ? parseDuration(spec.max_duration) : undefined,
+      onLimit: spec.on_limit
+    };
+  }
+
   /**
    * Parse a workflow YAML file
    * @param context - Parser context containing file path and visited files
@@ -153,12 +316,14 @@ class WorkflowParser {
   }
 
   static parseWorkflowSpec(workflow: WorkflowSpec, context: ParserContext): Workflow {
-    WorkflowValidator.validateWorkflowSpec(workflow);
+    const stateTypes = resolveStateTypes(workflow?.state_types, context.workflowDir);
+    WorkflowValidator.validateWorkflowSpec(workflow, stateTypes);
 
     let states: Record<string, State> = {};
     if (workflow.states) {
+      const stateContext = { ...context, stateTypes };
       for (const [stateName, stateSpec] of Object.entries(workflow.states)) {
-        const parsedStates = this.parseStateSpec(stateName, stateSpec, context);
+        const parsedStates = this.parseStateSpec(stateName, stateSpec, stateContext);
         states = { ...states, ...parsedStates };
       }
     }
@@ -189,7 +354,15 @@ class WorkflowParser {
       mcpServers,
       rag,
       variables,
-      onError: workflow.on_error
+      inputs: this.parseInputs(workflow.inputs, context.workflowDir),
+      onError: workflow.on_error,
+      retry: this.parseRetrySpec(workflow.retry),
+      timeoutMs: workflow.timeout_ms,
+      strictVariables: workflow.strict_variables,
+      conversation: this.parseConversationSpec(workflow.conversation) || undefined,
+      maxCallDepth: workflow.max_call_depth,
+      limits: this.parseLimitsSpec(workflow.limits),
+      stateTypes
     } as Workflow;
   }
 
@@ -227,43 +400,204 @@ class WorkflowParser {
         nextState = `${name}_step_${i + 1}`;
       }
       
-      // Resolve prompt for this step
-      const stepPrompt = step.prompt_file 
-        ? this.readPromptFile(step.prompt_file, context.workflowDir)
-        : (step.prompt || '');
-      
-      // Build RAG config for this step (step-level overrides state-level)
-      const stepRag = step.rag ? this.buildRAGConfig({ ...spec, rag: step.rag }) : stateRag;
-      
-      // Create the state for this step
-      builtStates[stepStateName] = {
-        type: spec.type,
-        prompt: stepPrompt,
-        next: nextState,
-        // Step-level properties override state-level properties
-        model: step.model || spec.model,
-        saveAs: step.save_as,
-        options: step.options || spec.options,
-        mcpServers: step.mcp_servers || spec.mcp_servers,
-        useRag: step.use_rag || spec.use_rag,
-        rag: stepRag,
-        defaultValue: step.default_value || spec.default_value,
-        onError: spec.on_error,  // onError is inherited from state level
-        files: step.files || spec.files || []
-      };
+      builtStates[stepStateName] = this.buildStepState(spec, step, nextState, stateRag, context);
+
+      // Later steps continue the conversation the first step reset or forked
+      if (!isFirstStep) {
+        builtStates[stepStateName].conversation = this.continueConversation(builtStates[stepStateName].conversation);
+      }
+
+      // Routing happens once the last step has run
+      if (isLastStep && spec.switch) {
+        builtStates[stepStateName].switch = spec.switch;
+      }
     }
     
     return builtStates;
   }
 
+  /**
+   * Build a state from an inline step, inheriting properties from its parent state
+   * @param spec - Parent state specification
+   * @param step - Step specification
+   * @param nextState - State to transition to after the step
+   * @param stateRag - RAG configuration inherited from the parent state
+   * @param context - Parser context
+   * @returns The built state
+   */
+  private static buildStepState(spec: StateSpec, step: StepSpec, nextState: string | undefined, stateRag: RAGConfig | undefined, context: ParserContext): State {
+    // Resolve prompt for this step
+    const stepPrompt = step.prompt_file 
+      ? this.readPromptFile(step.prompt_file, context.workflowDir)
+      : (step.prompt || '');
+    
+    // Build RAG config for this step (step-level overrides state-level)
+    const stepRag = step.rag ? this.buildRAGConfig({ ...spec, rag: step.rag }) : stateRag;
+    
+    return {
+      type: spec.type === 'input' ? 'input' : 'prompt',
+      prompt: stepPrompt,
+      next: nextState,
+      // Step-level properties override state-level properties
+      model: step.model || spec.model,
+      saveAs: step.save_as,
+      options: step.options || spec.options,
+      mcpServers: step.mcp_servers || spec.mcp_servers,
+      maxToolIterations: step.max_tool_iterations || spec.max_tool_iterations,
+      useRag: step.use_rag || spec.use_rag,
+      rag: stepRag,
+      defaultValue: step.default_value || spec.default_value,
+      onError: spec.on_error,  // onError is inherited from state level
+      retry: this.parseRetrySpec(spec.retry),
+      timeoutMs: spec.timeout_ms,
+      conversation: this.parseConversationSpec(spec.conversation),
+      files: step.files || spec.files || []
+    };
+  }
+
+  /**
+   * Drop the reset and fork options from a conversation, for steps that
+   * continue a conversation started by an earlier step
+   * @param conversation - Conversation of the parent state
+   * @returns Conversation without reset and fork
+   */
+  private static continueConversation(conversation: ConversationConfig | false | undefined): ConversationConfig | false | undefined {
+    if (!conversation) {
+      return conversation;
+    }
+    const { reset, forkFrom, ...rest } = conversation;
+    return rest;
+  }
+
+  /**
+   * Expand a parallel state, turning inline step branches into their own states
+   * @param name - State name
+   * @param spec - Parallel state specification
+   * @param context - Parser context
+   * @returns Record containing the parallel state and any inline branch states
+   */
+  private static expandParallelBranches(name: string, spec: StateSpec, context: ParserContext): Record<string, State> {
+    const builtStates: Record<string, State> = {};
+    const branchNames: string[] = [];
+
+    (spec.branches || []).forEach((branch, i) => {
+      if (typeof branch === 'string') {
+        branchNames.push(branch);
+        return;
+      }
+
+      // Inline steps become standalone prompt states that are only reachable as branches
+      const branchStateName = `${name}_branch_${i}`;
+      builtStates[branchStateName] = this.buildStepState(spec, branch, undefined, this.buildRAGConfig(spec), context);
+      // Concurrent branches would interleave their messages, so they are always stateless
+      builtStates[branchStateName].conversation = false;
+      branchNames.push(branchStateName);
+    });
+
+    builtStates[name] = {
+      type: spec.type,
+      prompt: '',
+      next: spec.next,
+      branches: branchNames,
+      switch: spec.switch,
+      maxConcurrency: spec.max_concurrency,
+      errorPolicy: spec.error_policy === 'collect_all' ? 'collect_all' : 'fail_fast',
+      onError: spec.on_error,
+      files: []
+    };
+
+    return builtStates;
+  }
+
+  /**
+   * Build a call state, checking the called workflow up front
+   * @param name - State name
+   * @param spec - Call state specification
+   * @param context - Parser context
+   * @returns The call state
+   */
+  private static buildCallState(name: string, spec: StateSpec, context: ParserContext): State {
+    const calledPath = path.resolve(context.workflowDir, spec.workflow!);
+
+    // A workflow that calls itself (directly or indirectly) is checked once; the call depth limit stops it at runtime
+    if (!context.visitedFiles.has(calledPath)) {
+      try {
+        this.parseFile({ filePath: calledPath, workflowDir: '', visitedFiles: context.visitedFiles });
+      } catch (error: any) {
+        throw new Error(`State "${name}" calls an invalid workflow: ${error.message}`);
+      }
+    }
+
+    return {
+      type: spec.type,
+      prompt: '',
+      next: spec.next,
+      switch: spec.switch,
+      callWorkflow: calledPath,
+      inputs: spec.inputs,
+      outputs: spec.outputs,
+      onError: spec.on_error,
+      files: []
+    };
+  }
+
+  /**
+   * Expand a foreach state, turning its steps into the states run for each item
+   * @param name - State name
+   * @param spec - Foreach state specification
+   * @param context - Parser context
+   * @returns Record containing the foreach state and its step states
+   */
+  private static expandForeachBody(name: string, spec: StateSpec, context: ParserContext): Record<string, State> {
+    const builtStates: Record<string, State> = {};
+    const bodyNames: string[] = [];
+    const stateRag = this.buildRAGConfig(spec);
+
+    (spec.steps || []).forEach((step, i) => {
+      // Step states are only reachable from the foreach state, which runs them in order
+      const stepStateName = `${name}_step_${i}`;
+      builtStates[stepStateName] = this.buildStepState(spec, step, undefined, stateRag, context);
+      if (i > 0) {
+        builtStates[stepStateName].conversation = this.continueConversation(builtStates[stepStateName].conversation);
+      }
+      bodyNames.push(stepStateName);
+    });
+
+    builtStates[name] = {
+      type: spec.type,
+      prompt: '',
+      next: spec.next,
+      switch: spec.switch,
+      saveAs: spec.save_as,
+      items: spec.items,
+      body: bodyNames,
+      onError: spec.on_error,
+      files: []
+    };
+
+    return builtStates;
+  }
+
   static parseStateSpec(name: string, spec: StateSpec, context: ParserContext): Record<string, State> {
       const builtStates: Record<string, State> = {};
 
+      if (spec.type === 'foreach') {
+        return this.expandForeachBody(name, spec, context);
+      }
+
       // Handle steps expansion first
       if (spec.steps && spec.steps.length > 0) {
         return this.expandStepsToStates(name, spec, context);
       }
 
+      if (spec.type === 'parallel') {
+        return this.expandParallelBranches(name, spec, context);
+      }
+
+      if (spec.type === 'call') {
+        return { [name]: this.buildCallState(name, spec, context) };
+      }
+
       // Resolve prompt text from inline or file
       const prompt = this.resolvePrompt(spec, context);
 
@@ -295,10 +629,33 @@ class WorkflowParser {
               }));
             }
 
+            // Update switch targets to point to prefixed states
+            if (builtStates[newStateName].switch) {
+              builtStates[newStateName].switch = builtStates[newStateName].switch!.map(switchCase => ({
+                ...switchCase,
+                next: switchCase.next === END_STATE ? END_STATE : statePrefix + switchCase.next
+              }));
+            }
+
+            // Update parallel branch references to point to prefixed states
+            if (builtStates[newStateName].branches) {
+              builtStates[newStateName].branches = builtStates[newStateName].branches!.map(branch => statePrefix + branch);
+            }
+
+            // Update foreach step references to point to prefixed states
+            if (builtStates[newStateName].body) {
+              builtStates[newStateName].body = builtStates[newStateName].body!.map(step => statePrefix + step);
+            }
+
             // Update onError references to point to prefixed states
             if (builtStates[newStateName].onError && builtStates[newStateName].onError !== END_STATE) {
               builtStates[newStateName].onError = statePrefix + builtStates[newStateName].onError;
             }
+
+            // Update approval rejection targets to point to prefixed states
+            if (builtStates[newStateName].onReject && builtStates[newStateName].onReject !== END_STATE) {
+              builtStates[newStateName].onReject = statePrefix + builtStates[newStateName].onReject;
+            }
           }
 
           // Replace the workflow_ref state with a transition to the referenced workflow's start state
@@ -338,6 +695,15 @@ class WorkflowParser {
               }
             }
           }
+
+          // Imported states of custom types keep the handlers of the referenced workflow
+          if (referencedWorkflow.stateTypes && context.stateTypes) {
+            for (const [type, handler] of Object.entries(referencedWorkflow.stateTypes)) {
+              if (!context.stateTypes[type]) {
+                context.stateTypes[type] = handler;
+              }
+            }
+          }
         } catch (error: any) {
           throw new Error(`Failed to load referenced workflow for state "${name}": ${error.message}`);
         }
@@ -352,15 +718,44 @@ class WorkflowParser {
         workflowRef: spec.workflow_ref,
         next: spec.next,
         nextOptions: spec.next_options,
+        switch: spec.switch,
         model: spec.model,
         saveAs: spec.save_as,
         options: spec.options,
         mcpServers: spec.mcp_servers,
+        maxToolIterations: spec.max_tool_iterations,
         useRag: spec.use_rag,
         rag,
         defaultValue: spec.default_value,
         onError: spec.on_error,
-        files: spec.files || []
+        retry: this.parseRetrySpec(spec.retry),
+        timeoutMs: spec.timeout_ms,
+        conversation: this.parseConversationSpec(spec.conversation),
+        outputSchema: spec.output_schema_file
+          ? this.readSchemaFile(spec.output_schema_file, context.workflowDir)
+          : spec.output_schema,
+        validate: this.parseValidateSpec(spec.validate),
+        repairAttempts: spec.repair_attempts,
+        samples: spec.samples,
+        select: spec.select as State['select'],
+        models: spec.models,
+        judgeModel: spec.judge_model,
+        files: spec.files || [],
+        script: spec.script_file ? this.readScriptFile(spec.script_file, context.workflowDir) : spec.script,
+        command: spec.command,
+        workingDirectory: spec.working_directory !== undefined ? path.resolve(context.workflowDir, spec.working_directory) : undefined,
+        request: spec.type === 'http'
+          ? { method: (spec.method || 'GET').toUpperCase(), url: spec.url!, headers: spec.headers, query: spec.query, body: spec.body }
+          : undefined,
+        content: spec.content,
+        onReject: spec.on_reject,
+        defaultDecision: spec.default_decision as State['defaultDecision'],
+        input: spec.input,
+        chunkSize: spec.chunk_size,
+        mapPrompt: spec.map_prompt,
+        reducePrompt: spec.reduce_prompt,
+        maxConcurrency: spec.max_concurrency,
+        config: BUILT_IN_STATE_TYPES.includes(spec.type) ? undefined : getStateConfig(spec)
       }
 
       return builtStates;
@@ -0,0 +1,154 @@
+/**
+ * Run Workflow
+ * Programmatic API for running workflows from other Node.js code
+ */
+
+import * as path from 'path';
+import WorkflowParser = require('./parser');
+import WorkflowExecutor = require('./executor');
+import { Workflow } from './workflow';
+import { WorkflowSpec } from './spec';
+import { ApprovalHandler, InputHandler, WorkflowEventListener, WorkflowEventMap, WorkflowEventName } from './events';
+import { resolveInputs } from '../utils/workflow-inputs';
+import { RunRecorder, RunReport } from '../utils/run-report';
+import { IOAdapter } from '../io/io-adapter';
+import { HeadlessAdapter } from '../io/headless-adapter';
+
+export interface RunWorkflowOptions {
+  inputs?: Record<string, any>;  // Values of the workflow's inputs; file inputs are read relative to the working directory
+  ollamaUrl?: string;
+  onInput?: InputHandler;  // Answers input states; without it they use provided inputs or their default value
+  onApproval?: ApprovalHandler;  // Decides approval states; without it they use their default decision
+  signal?: AbortSignal;  // Stops the run when aborted
+  runDirectory?: string;  // Directory the workflow's filesystem tools can write to
+  adapter?: IOAdapter;  // Shows the run and answers its input states instead (e.g. a TerminalAdapter); onInput and onApproval are then ignored
+}
+
+/**
+ * Listener of any workflow event, as the implementations of the typed
+ * on(), once() and off() signatures receive it
+ */
+type AnyWorkflowEventListener = (event: WorkflowEventMap[WorkflowEventName]) => void;
+
+/**
+ * A running workflow. Listen to its events with on(), and await it for the
+ * report of the run; it rejects with the error if the run fails.
+ */
+export class WorkflowRun implements PromiseLike<RunReport> {
+  private executor: WorkflowExecutor;
+  private result: Promise<RunReport>;
+
+  /**
+   * @param executor - Executor running the workflow
+   * @param result - Settles when the run ends
+   */
+  constructor(executor: WorkflowExecutor, result: Promise<RunReport>) {
+    this.executor = executor;
+    this.result = result;
+    // Callers that only listen to events never see the rejection; those that await the run still do
+    this.result.catch(() => {});
+  }
+
+  /**
+   * Listen to an event of the run
+   * @param name - Event name
+   * @param listener - Called with each event
+   */
+  on<K extends WorkflowEventName>(name: K, listener: WorkflowEventListener<K>): this;
+  on(name: WorkflowEventName, listener: AnyWorkflowEventListener): this {
+    this.executor.on(name, listener);
+    return this;
+  }
+
+  /**
+   * Listen to the next occurrence of an event of the run
+   * @param name - Event name
+   * @param listener - Called with the event
+   */
+  once<K extends WorkflowEventName>(name: K, listener: WorkflowEventListener<K>): this;
+  once(name: WorkflowEventName, listener: AnyWorkflowEventListener): this {
+    this.executor.once(name, listener);
+    return this;
+  }
+
+  /**
+   * Stop listening to an event of the run
+   * @param name - Event name
+   * @param listener - Listener passed to on() or once()
+   */
+  off<K extends WorkflowEventName>(name: K, listener: WorkflowEventListener<K>): this;
+  off(name: WorkflowEventName, listener: AnyWorkflowEventListener): this {
+    this.executor.off(name, listener);
+    return this;
+  }
+
+  /**
+   * Stop the run; it resolves with status "stopped"
+   */
+  stop(): void {
+    this.executor.stop();
+  }
+
+  then<TResult1 = RunReport, TResult2 = never>(
+    onfulfilled?: ((report: RunReport) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.result.then(onfulfilled, onrejected);
+  }
+
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null): Promise<RunReport | TResult> {
+    return this.result.catch(onrejected);
+  }
+}
+
+/**
+ * Run a workflow. The run starts on the next tick, so listeners attached to
+ * the returned run right away receive all of its events.
+ * @param workflowOrPath - Path to a workflow file, a workflow spec as written in YAML, or a parsed workflow
+ * @param options - Run options
+ * @returns The running workflow
+ * @throws Error if the workflow or its inputs are invalid
+ */
+export function runWorkflow(workflowOrPath: string | WorkflowSpec | Workflow, options: RunWorkflowOptions = {}): WorkflowRun {
+  const workflow = loadWorkflow(workflowOrPath);
+  const inputs = resolveInputs(workflow.inputs, options.inputs || {}, { fileBaseDir: process.cwd() });
+
+  const executor = new WorkflowExecutor(workflow, options.ollamaUrl, undefined, options.runDirectory);
+  executor.setInputs(inputs);
+  executor.setAdapter(options.adapter || new HeadlessAdapter(options.onInput, options.onApproval));
+  const recorder = new RunRecorder(workflow.name, options.runDirectory);
+  executor.setRecorder(recorder);
+
+  const signal = options.signal;
+  const onAbort = () => executor.stop();
+
+  const result = Promise.resolve().then(async () => {
+    if (signal?.aborted) {
+      executor.stop();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      await executor.execute();
+      return recorder.getReport()!;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  });
+
+  return new WorkflowRun(executor, result);
+}
+
+/**
+ * Get a parsed workflow from any of the forms runWorkflow accepts
+ * @param workflowOrPath - Path to a workflow file, a workflow spec, or a parsed workflow
+ * @returns Parsed workflow
+ */
+function loadWorkflow(workflowOrPath: string | WorkflowSpec | Workflow): Workflow {
+  if (typeof workflowOrPath === 'string') {
+    return WorkflowParser.parseFile({ filePath: path.resolve(workflowOrPath), workflowDir: '', visitedFiles: new Set() });
+  }
+  if ('start_state' in workflowOrPath) {
+    return WorkflowParser.parseWorkflowSpec(workflowOrPath, { workflowDir: process.cwd(), filePath: '', visitedFiles: new Set() });
+  }
+  return workflowOrPath;
+}
@@ -27,8 +27,35 @@ export interface WorkflowSpec {
   /** Optional variables that can be used in prompts with {{variable_name}} syntax */
   variables?: Record<string, VariableSpec>;
   
+  /** Optional declared inputs, set from --var, an inputs file, the web form or a call state */
+  inputs?: Record<string, InputSpec>;
+  
   /** Optional fallback state to transition to on error (workflow-level) */
   on_error?: string;
+  
+  /** Optional retry policy for model calls in every state (workflow-level) */
+  retry?: RetrySpec;
+  
+  /** Optional time limit in milliseconds for each model call (workflow-level) */
+  timeout_ms?: number;
+  
+  /** Fail the current state when a prompt references an undefined variable (default: false) */
+  strict_variables?: boolean;
+  
+  /** Optional conversation used by every prompt state; a string is the conversation name (workflow-level) */
+  conversation?: ConversationSpec | string;
+  
+  /** Maximum nesting of call states, including recursive calls (default: 10) */
+  max_call_depth?: number;
+  
+  /** Optional limits on what a run may use, checked before each state */
+  limits?: LimitsSpec;
+  
+  /** Commands that command states may run, for states without their own allowed_commands (e.g. "git", "npx eslint") */
+  allowed_commands?: string[];
+  
+  /** Optional custom state types: type name to the path of its handler module (relative to the workflow file) */
+  state_types?: Record<string, string>;
 }
 
 /**
@@ -54,6 +81,9 @@ export interface StepSpec {
   /** List of MCP server names to use for this step */
   mcp_servers?: string[];
   
+  /** Maximum number of model/tool round trips when MCP tools are available (default: 10) */
+  max_tool_iterations?: number;
+  
   /** Name of RAG configuration to use for this step */
   use_rag?: string;
   
@@ -72,7 +102,7 @@ export interface StepSpec {
  * Defines the behavior and configuration for one step in the workflow.
  */
 export interface StateSpec {
-  /** Type of state: 'prompt' (LLM interaction), 'input' (user input), 'workflow_ref' (reference another workflow), or 'transition' (automatic transition) */
+  /** Type of state: 'prompt' (LLM interaction), 'input' (user input), 'workflow_ref' (reference another workflow), 'call' (run another workflow in its own context), 'transition' (automatic transition), 'parallel' (concurrent branches), 'foreach' (loop over a list), 'script' (JavaScript transformation), 'command' (shell command), 'http' (HTTP request), 'approval' (human sign-off), 'map_reduce' (chunked processing of long text), or a custom state type */
   type: string;
   
   /** Inline prompt text (for prompt/input states) */
@@ -84,9 +114,81 @@ export interface StateSpec {
   /** Path to another workflow file to include as substates */
   workflow_ref?: string;
   
-  /** Array of sequential steps to execute (alternative to single prompt) */
+  /** Path to the workflow file a call state runs (relative to this workflow file) */
+  workflow?: string;
+  
+  /** Variables passed to a called workflow: sub-workflow variable name to value; "{{var}}" passes a parent variable as-is */
+  inputs?: Record<string, any>;
+  
+  /** Variables returned by a called workflow: parent variable name to sub-workflow variable (or path such as result.title) */
+  outputs?: Record<string, string>;
+  
+  /** JavaScript function body run by script states; its return value is stored by save_as */
+  script?: string;
+  
+  /** Path to a JavaScript file for script states (alternative to inline script) */
+  script_file?: string;
+  
+  /** Shell command run by command states; interpolated values are quoted as single arguments */
+  command?: string;
+  
+  /** Commands the command state may run (overrides workflow-level allowed_commands) */
+  allowed_commands?: string[];
+  
+  /** Directory a command state runs in, relative to the workflow file (default: the run directory) */
+  working_directory?: string;
+  
+  /** HTTP method of an http state: GET (default), POST, PUT, PATCH, DELETE or HEAD */
+  method?: string;
+  
+  /** URL an http state sends its request to */
+  url?: string;
+  
+  /** Request headers of an http state */
+  headers?: Record<string, string>;
+  
+  /** Query parameters of an http state, encoded and appended to the URL */
+  query?: Record<string, any>;
+  
+  /** Request body of an http state; objects and arrays are sent as JSON */
+  body?: any;
+  
+  /** Text an approval state shows for review, e.g. "{{draft}}"; approved or edited, it is stored by save_as */
+  content?: string;
+  
+  /** State an approval state continues to when the content is rejected */
+  on_reject?: string;
+  
+  /** Decision of an approval state when no decision is made within timeout_ms, or in non-interactive runs: 'approve' or 'reject' */
+  default_decision?: string;
+  
+  /** Text a map_reduce state splits into chunks, e.g. "{{report}}"; the text of its files is added after it */
+  input?: string;
+  
+  /** Maximum number of characters in each chunk of a map_reduce state (default: 4000) */
+  chunk_size?: number;
+  
+  /** Prompt a map_reduce state runs on each chunk, with the chunk in {{chunk}} and its position in {{index}} */
+  map_prompt?: string;
+  
+  /** Prompt a map_reduce state runs over the partial results in {{results}}; its response is stored by save_as */
+  reduce_prompt?: string;
+  
+  /** Array of sequential steps to execute (alternative to single prompt); for foreach states, the steps run for each item */
   steps?: StepSpec[];
   
+  /** Name of the context variable holding the list a foreach state iterates over */
+  items?: string;
+  
+  /** Branches to run concurrently in a parallel state: names of prompt states or inline steps */
+  branches?: (string | StepSpec)[];
+  
+  /** Maximum number of parallel branches (default: all) or map_reduce chunks (default: 1) processed at the same time */
+  max_concurrency?: number;
+  
+  /** How a parallel state handles branch failures: 'fail_fast' (default) or 'collect_all' */
+  error_policy?: string;
+  
   /** Name of the next state to transition to */
   next?: string;
   
@@ -96,6 +198,12 @@ export interface StateSpec {
     description: string;
   }[];
   
+  /** Deterministic routing: the first case whose `when` expression is true picks the next state, falling back to `next` */
+  switch?: {
+    when: string;
+    next: string;
+  }[];
+  
   /** Model to use for this state (overrides workflow default_model) */
   model?: string;
   
@@ -108,6 +216,9 @@ export interface StateSpec {
   /** List of MCP server names to use for this state */
   mcp_servers?: string[];
   
+  /** Maximum number of model/tool round trips when MCP tools are available (default: 10) */
+  max_tool_iterations?: number;
+  
   /** Name of RAG configuration to use for this state */
   use_rag?: string;
   
@@ -120,10 +231,133 @@ export interface StateSpec {
   /** Fallback state to transition to on error (state-level override) */
   on_error?: string;
   
-  /** List of file paths for multimodal inputs (images, PDFs, text files) */
+  /** Retry policy for model calls or the request of an http state (state-level fields override workflow-level ones) */
+  retry?: RetrySpec;
+  
+  /** Time limit in milliseconds for each model call (overrides workflow-level timeout_ms), for the script of a script state (default: 1000), for the command of a command state (default: 60000), for each request of an http state (default: 30000), or for the decision of an approval state */
+  timeout_ms?: number;
+  
+  /** Conversation whose history is sent with the prompt; a string is the conversation name, false opts out of the workflow-level conversation */
+  conversation?: ConversationSpec | string | false;
+  
+  /** JSON Schema the response must match; the parsed object is stored by save_as (prompt states) */
+  output_schema?: Record<string, any>;
+  
+  /** Path to a JSON or YAML file containing the output schema (alternative to inline output_schema) */
+  output_schema_file?: string;
+  
+  /** Checks the response must pass, such as length limits or required text (prompt states) */
+  validate?: ValidateSpec;
+  
+  /** Number of times to re-prompt with the validation errors when the response does not match the schema or fails a validate check (default: 2) */
+  repair_attempts?: number;
+  
+  /** Number of responses to generate for the same prompt, one of which is kept; with next_options, also the number of routing votes (prompt states) */
+  samples?: number;
+  
+  /** How the kept sample is chosen: 'majority' (most common answer, the default), 'longest' or 'judge' (a model picks the best) */
+  select?: string;
+  
+  /** Models the samples are spread over, in turn (alternative to model) */
+  models?: string[];
+  
+  /** Model that picks the best sample when select is 'judge' (default: the first model of the state) */
+  judge_model?: string;
+  
+  /** List of file paths for multimodal inputs (images, PDFs, text files); for map_reduce states, text, PDF and Word files to split into chunks */
   files: string[];
 }
 
+/**
+ * Specification for retrying failed model calls.
+ * Omitted fields fall back to the workflow-level policy, then to the defaults.
+ */
+export interface RetrySpec {
+  /** Total number of attempts, including the first (default: 3) */
+  max_attempts?: number;
+  
+  /** Delay growth between attempts: 'exponential' doubles the delay each time, 'fixed' keeps it constant (default: 'exponential') */
+  backoff?: string;
+  
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  initial_delay_ms?: number;
+  
+  /** Failure categories to retry: 'connection', 'timeout', 'empty_response', 'validation' (default: all) */
+  retry_on?: string[];
+}
+
+/**
+ * Specification for workflow-level limits on a run.
+ * Limits are checked before each state starts; a state that has started finishes.
+ */
+export interface LimitsSpec {
+  /** Maximum number of states to start, including fallbacks and states of called workflows */
+  max_states_executed?: number;
+  
+  /** Maximum number of completed model calls */
+  max_llm_calls?: number;
+  
+  /** Maximum number of prompt and response tokens, as counted by Ollama */
+  max_total_tokens?: number;
+  
+  /** Maximum wall-clock time of the run, in milliseconds or with a unit (e.g. "90s", "10m", "1h") */
+  max_duration?: number | string;
+  
+  /** State to go to when a limit is reached; it runs despite the limit (default: stop the run) */
+  on_limit?: string;
+}
+
+/**
+ * Specification for checks a prompt state's response must pass.
+ * A response that fails a check is sent back to the model with the failures.
+ */
+export interface ValidateSpec {
+  /** Minimum number of characters, ignoring surrounding whitespace */
+  min_length?: number;
+  
+  /** Maximum number of characters, ignoring surrounding whitespace */
+  max_length?: number;
+  
+  /** Text (or list of texts) that must appear in the response, case-sensitive */
+  must_contain?: string | string[];
+  
+  /** Text (or list of texts) that must not appear in the response, case-sensitive */
+  must_not_contain?: string | string[];
+  
+  /** Regular expression (or list of them) the response must match */
+  regex?: string | string[];
+  
+  /** The response must be valid JSON (a surrounding markdown code fence is ignored) */
+  is_json?: boolean;
+  
+  /** Reject refusals such as "I'm sorry, but I can't"; true uses the built-in phrases, a list replaces them */
+  no_refusal?: boolean | string[];
+}
+
+/**
+ * Specification for a conversation: a named chat history that prompt states
+ * send to the model so it remembers earlier exchanges.
+ */
+export interface ConversationSpec {
+  /** Name of the history to use; states with the same name share it (default: 'default') */
+  name?: string;
+  
+  /** System prompt sent before the history (supports {{variables}}) */
+  system?: string;
+  
+  /** Maximum number of most recent history messages to send */
+  max_messages?: number;
+  
+  /** Maximum total characters of history to send; older messages are dropped first */
+  max_chars?: number;
+  
+  /** Clear the history before the state runs (state-level only) */
+  reset?: boolean;
+  
+  /** Replace the history with a copy of another conversation before the state runs (state-level only) */
+  fork_from?: string;
+}
+
 /**
  * Specification for an MCP (Model Context Protocol) server.
  * Supports multiple configuration formats for flexibility.
@@ -160,6 +394,27 @@ export interface VariableSpec {
   file?: string;
 }
 
+/**
+ * Specification for a declared workflow input.
+ * Inputs parameterize a run and are available in prompts like variables.
+ */
+export interface InputSpec {
+  /** Value type: string (default), number, boolean, enum, file or json */
+  type?: string;
+  
+  /** Description shown when asking for the value and in the web form */
+  description?: string;
+  
+  /** Fail the run when no value is given and there is no default (default: false) */
+  required?: boolean;
+  
+  /** Value used when none is given (for file inputs, a path relative to the workflow file) */
+  default?: any;
+  
+  /** Allowed values of an enum input */
+  values?: string[];
+}
+
 /**
  * Specification for RAG (Retrieval-Augmented Generation) configuration.
  * Defines how to retrieve and use context from a knowledge base.
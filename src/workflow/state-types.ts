@@ -0,0 +1,245 @@
+/**
+ * State Types
+ * Registry of custom state types. A custom state type is a handler that
+ * validates and runs the states of its type; handlers are loaded from local
+ * JS/TS modules listed in a workflow's state_types, in an agentmech.config.json
+ * file of the project, or registered from code with registerStateType.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+import { createRequire } from 'module';
+import { LogLevel } from './events';
+
+export const BUILT_IN_STATE_TYPES = ['prompt', 'input', 'workflow_ref', 'call', 'transition', 'parallel', 'foreach', 'script', 'command', 'http', 'approval', 'map_reduce'];
+
+export const CONFIG_FILE_NAME = 'agentmech.config.json';
+
+/**
+ * State fields handled by the engine for every state type, and therefore not
+ * part of a custom state's configuration
+ */
+const ENGINE_STATE_FIELDS = ['type', 'next', 'next_options', 'switch', 'save_as', 'on_error'];
+
+/**
+ * What a custom state can use while it runs
+ */
+export interface StateTypeContext {
+  state: string;  // Name of the running state
+  variables: Record<string, any>;  // Workflow context; read values from it rather than changing it
+  runDirectory?: string;
+  signal: AbortSignal;  // Aborted when the run is stopped
+  interpolate(text: string): string;
+  log(level: LogLevel, message: string): void;
+  trace(type: string, details?: Record<string, any>): void;  // Adds an event to the trace, tagged with the state name
+}
+
+export interface StateTypeResult {
+  output?: any;  // Stored by save_as and reported as the state's output
+  next?: string;  // Overrides the state's next
+}
+
+export interface StateTypeHandler {
+  /**
+   * Check a state's configuration when the workflow is loaded
+   * @param config - The state's fields as written in the workflow, without the engine's fields (next, save_as, ...)
+   * @throws Error describing what is wrong
+   */
+  validate?(config: Record<string, any>): void;
+
+  /**
+   * Run a state
+   * @param config - The state's configuration, with {{variables}} in its text interpolated
+   * @param context - Run details and helpers
+   * @returns The state's output and optional next state
+   */
+  execute(config: Record<string, any>, context: StateTypeContext): StateTypeResult | void | Promise<StateTypeResult | void>;
+}
+
+const registeredTypes = new Map<string, StateTypeHandler>();
+const typeScriptModules = new Map<string, any>();
+
+/**
+ * Register a state type for every workflow loaded afterwards in this process.
+ * Types listed in a config file or a workflow take precedence.
+ * @param type - State type name used in workflows
+ * @param handler - Handler for states of the type
+ * @throws Error if the name is a built-in type or the handler has no execute function
+ */
+export function registerStateType(type: string, handler: StateTypeHandler): void {
+  checkStateType(type, handler, `State type "${type}"`);
+  registeredTypes.set(type, handler);
+}
+
+/**
+ * Remove a state type added with registerStateType
+ * @param type - State type name
+ */
+export function unregisterStateType(type: string): void {
+  registeredTypes.delete(type);
+}
+
+/**
+ * Get the custom state types available to a workflow: registered types, then
+ * those of the nearest config file, then those the workflow lists itself
+ * @param declared - The workflow's state_types: type name to module path
+ * @param workflowDir - Directory of the workflow file; module paths are relative to it
+ * @returns Handlers by state type name
+ * @throws Error if a module cannot be loaded or is not a valid handler
+ */
+export function resolveStateTypes(declared: Record<string, string> | undefined, workflowDir: string): Record<string, StateTypeHandler> {
+  const stateTypes: Record<string, StateTypeHandler> = Object.fromEntries(registeredTypes);
+
+  const configFile = findConfigFile(workflowDir);
+  if (configFile) {
+    const configTypes = readConfigStateTypes(configFile);
+    Object.assign(stateTypes, loadStateTypeModules(configTypes, path.dirname(configFile), `${CONFIG_FILE_NAME} state_types`));
+  }
+
+  if (declared !== undefined) {
+    Object.assign(stateTypes, loadStateTypeModules(declared, workflowDir, 'Workflow state_types'));
+  }
+
+  return stateTypes;
+}
+
+/**
+ * Get the configuration passed to the handler of a custom type state
+ * @param spec - State as written in the workflow
+ * @returns The state's fields, without those the engine handles
+ */
+export function getStateConfig(spec: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(spec).filter(([field]) => !ENGINE_STATE_FIELDS.includes(field)));
+}
+
+/**
+ * Find the config file in a directory or the nearest of its parents
+ * @param startDir - Directory to start from
+ * @returns Path of the config file, or undefined if there is none
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+  while (true) {
+    const candidate = path.join(dir, CONFIG_FILE_NAME);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Read the state_types of a config file
+ * @param configFile - Path of the config file
+ * @returns Type name to module path, relative to the config file
+ */
+function readConfigStateTypes(configFile: string): Record<string, string> {
+  let config: any;
+  try {
+    config = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Failed to read ${configFile}: ${error.message}`);
+  }
+  return config?.state_types || {};
+}
+
+/**
+ * Load the handler modules of a state_types map
+ * @param modules - Type name to module path
+ * @param baseDir - Directory the module paths are relative to
+ * @param label - Where the map comes from, for error messages
+ * @returns Handlers by state type name
+ */
+function loadStateTypeModules(modules: Record<string, string>, baseDir: string, label: string): Record<string, StateTypeHandler> {
+  if (typeof modules !== 'object' || modules === null || Array.isArray(modules)) {
+    throw new Error(`${label} must be an object mapping state type names to module paths`);
+  }
+
+  const handlers: Record<string, StateTypeHandler> = {};
+  for (const [type, modulePath] of Object.entries(modules)) {
+    const context = `State type "${type}"`;
+    if (typeof modulePath !== 'string' || modulePath.trim() === '') {
+      throw new Error(`${context} must be a module path`);
+    }
+
+    const resolvedPath = path.resolve(baseDir, modulePath);
+    let exported: any;
+    try {
+      exported = requireModule(resolvedPath);
+    } catch (error: any) {
+      throw new Error(`Failed to load ${context} from ${resolvedPath}: ${error.message}`);
+    }
+
+    // Support both default export and module.exports
+    const handler = exported && exported.default ? exported.default : exported;
+    checkStateType(type, handler, context);
+    handlers[type] = handler;
+  }
+  return handlers;
+}
+
+/**
+ * Check a state type name and handler
+ * @param type - State type name
+ * @param handler - Handler to check
+ * @param context - Context for error messages
+ */
+function checkStateType(type: string, handler: any, context: string): void {
+  if (BUILT_IN_STATE_TYPES.includes(type)) {
+    throw new Error(`${context} is built in and cannot be replaced`);
+  }
+  if (!handler || typeof handler.execute !== 'function') {
+    throw new Error(`${context} must export an execute function`);
+  }
+  if (handler.validate !== undefined && typeof handler.validate !== 'function') {
+    throw new Error(`${context} validate must be a function`);
+  }
+}
+
+/**
+ * Load a CommonJS module. TypeScript modules are transpiled with the
+ * project's typescript package unless a TypeScript loader is registered.
+ * @param filePath - Absolute path of the module
+ * @returns The module's exports
+ */
+function requireModule(filePath: string): any {
+  if (path.extname(filePath) !== '.ts' || require.extensions?.['.ts']) {
+    return require(filePath);
+  }
+
+  if (!typeScriptModules.has(filePath)) {
+    typeScriptModules.set(filePath, requireTypeScript(filePath));
+  }
+  return typeScriptModules.get(filePath);
+}
+
+/**
+ * Transpile and load a TypeScript module
+ * @param filePath - Absolute path of the module
+ * @returns The module's exports
+ */
+function requireTypeScript(filePath: string): any {
+  let ts: any;
+  try {
+    ts = require(require.resolve('typescript', { paths: [path.dirname(filePath), __dirname] }));
+  } catch (error) {
+    throw new Error('TypeScript modules need the typescript package installed in the project, or a TypeScript loader such as ts-node');
+  }
+
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    fileName: filePath,
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+  });
+
+  // Run the output like Node runs a CommonJS file, resolving its requires from the module's own directory
+  const compiled = { exports: {} as any };
+  const run = vm.compileFunction(outputText, ['exports', 'require', 'module', '__filename', '__dirname'], { filename: filePath });
+  run.call(compiled.exports, compiled.exports, createRequire(filePath), compiled, filePath, path.dirname(filePath));
+  return compiled.exports;
+}
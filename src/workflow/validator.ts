@@ -1,7 +1,22 @@
-import { MCPServerSpec, RAGSpec, StateSpec, StepSpec, WorkflowSpec } from "./spec";
+import { LimitsSpec, MCPServerSpec, RAGSpec, RetrySpec, StateSpec, StepSpec, ValidateSpec, WorkflowSpec } from "./spec";
+import { parseExpression } from "./expression";
+import { BACKOFF_STRATEGIES, RETRY_CONDITIONS } from "../utils/retry";
+import { checkSchema } from "../utils/json-schema";
+import { findTemplateErrors, parseVariablePath } from "../utils/interpolation";
+import { INPUT_TYPES, coerceInput } from "../utils/workflow-inputs";
+import { BUILT_IN_STATE_TYPES, StateTypeHandler, getStateConfig } from "./state-types";
+import { compileScript } from "../utils/script-sandbox";
+import { findDisallowedCommands } from "../utils/shell-command";
+import { HTTP_METHODS } from "../utils/http-request";
+import { VALIDATE_CHECKS } from "../utils/output-validation";
+import { SELECT_STRATEGIES } from "../utils/sampling";
+import { LIMIT_FIELDS, parseDuration } from "../utils/run-limits";
 
 const END_STATE = 'end';
 
+// State fields that steps, foreach steps and inline parallel branches cannot use
+const STATE_ONLY_FIELDS = ['output_schema', 'output_schema_file', 'validate', 'repair_attempts', 'samples', 'select', 'models', 'judge_model'];
+
 export class WorkflowValidator {
   /**
    * Validate that a required field is present
@@ -47,9 +62,10 @@ export class WorkflowValidator {
   /**
    * Validate a workflow YAML specification
    * @param workflow - Workflow specification to validate
+   * @param stateTypes - Custom state types the workflow can use
    * @throws Error if validation fails
    */
-  static validateWorkflowSpec(workflow: WorkflowSpec): void {
+  static validateWorkflowSpec(workflow: WorkflowSpec, stateTypes: Record<string, StateTypeHandler> = {}): void {
     this.validateRequiredField(workflow, 'workflow', 'Configuration');
     this.validateRequiredField(workflow.name, 'name', 'Workflow');
     this.validateRequiredField(workflow.states, 'states object', 'Workflow');
@@ -74,9 +90,49 @@ export class WorkflowValidator {
       this.validateVariables(workflow.variables);
     }
 
+    if (workflow.inputs !== undefined) {
+      this.validateInputs(workflow.inputs);
+    }
+
+    // Validate workflow-level retry policy if present
+    if (workflow.retry !== undefined) {
+      this.validateRetrySpec(workflow.retry, 'Workflow');
+    }
+
+    if (workflow.timeout_ms !== undefined) {
+      this.validateTimeout(workflow.timeout_ms, 'Workflow');
+    }
+
+    if (workflow.strict_variables !== undefined) {
+      this.validateFieldType(workflow.strict_variables, 'boolean', 'strict_variables', 'Workflow');
+    }
+
+    if (workflow.conversation !== undefined) {
+      this.validateConversation(workflow.conversation, 'Workflow', false);
+    }
+
+    if (workflow.max_call_depth !== undefined && (!Number.isInteger(workflow.max_call_depth) || workflow.max_call_depth < 1)) {
+      throw new Error('Workflow max_call_depth must be a positive integer');
+    }
+
+    if (workflow.limits !== undefined) {
+      this.validateLimits(workflow.limits, workflow.states);
+    }
+
+    if (workflow.allowed_commands !== undefined) {
+      this.validateCommandList(workflow.allowed_commands, 'Workflow');
+    }
+
     // Validate each state
     for (const [stateName, state] of Object.entries(workflow.states)) {
-      this.validateState(stateName, state, workflow.states, workflow.mcp_servers, workflow.rag);
+      this.validateState(stateName, state, workflow.states, workflow.mcp_servers, workflow.rag, stateTypes);
+    }
+
+    // Command states only run commands allowed by the state or the workflow
+    for (const [stateName, state] of Object.entries(workflow.states)) {
+      if (state.type === 'command') {
+        this.validateCommandAllowed(stateName, state, workflow.allowed_commands);
+      }
     }
 
     // Validate MCP servers configuration if present
@@ -100,19 +156,34 @@ export class WorkflowValidator {
    * @param mcpServers - MCP servers available in workflow
    * @param ragConfig - Default RAG configuration if present
    * @param namedRags - Named RAG configurations if present
+   * @param stateTypes - Custom state types the workflow can use
    */
-  static validateState(name: string, state: StateSpec, allStates: Record<string, StateSpec>, mcpServers?: Record<string, MCPServerSpec>, namedRags?: Record<string, RAGSpec>): void {
+  static validateState(name: string, state: StateSpec, allStates: Record<string, StateSpec>, mcpServers?: Record<string, MCPServerSpec>, namedRags?: Record<string, RAGSpec>, stateTypes: Record<string, StateTypeHandler> = {}): void {
     const stateContext = `State "${name}"`;
     
     this.validateRequiredField(state.type, 'type', stateContext);
 
-    const validTypes = ['prompt', 'input', 'workflow_ref', 'transition'];
+    const validTypes = [...BUILT_IN_STATE_TYPES, ...Object.keys(stateTypes)];
     if (!validTypes.includes(state.type)) {
       throw new Error(`${stateContext} has invalid type "${state.type}". Must be one of: ${validTypes.join(', ')}`);
     }
 
-    // Validate steps configuration
-    if (state.steps) {
+    // Custom state types check their own fields
+    const handler = stateTypes[state.type];
+    if (handler?.validate) {
+      try {
+        handler.validate(getStateConfig(state));
+      } catch (error: any) {
+        throw new Error(`${stateContext}: ${error.message}`);
+      }
+    }
+
+    // Validate placeholders in inline text
+    this.validateTemplate(state.prompt, 'prompt', stateContext);
+    this.validateTemplate(state.default_value, 'default_value', stateContext);
+
+    // Validate steps configuration (foreach states validate their own steps)
+    if (state.steps && state.type !== 'foreach') {
       // Steps can only be used with prompt and input states
       if (state.type !== 'prompt' && state.type !== 'input') {
         throw new Error(`${stateContext} can only use steps with prompt or input type states`);
@@ -163,6 +234,54 @@ export class WorkflowValidator {
       this.validateRequiredField(state.next, 'next field', `Transition state "${name}"`);
     }
 
+    if (state.type === 'foreach') {
+      this.validateForeachState(name, state, mcpServers, namedRags);
+    } else if (state.items !== undefined) {
+      throw new Error(`${stateContext} can only use items with foreach type states`);
+    }
+
+    if (state.type === 'script') {
+      this.validateScriptState(name, state);
+    } else if (state.script !== undefined || state.script_file !== undefined) {
+      throw new Error(`${stateContext} can only use script and script_file with script type states`);
+    }
+
+    if (state.type === 'command') {
+      this.validateCommandState(name, state);
+    } else if (state.command !== undefined || state.allowed_commands !== undefined || state.working_directory !== undefined) {
+      throw new Error(`${stateContext} can only use command, allowed_commands and working_directory with command type states`);
+    }
+
+    if (state.type === 'http') {
+      this.validateHttpState(name, state);
+    } else if ([state.method, state.url, state.headers, state.query, state.body].some(value => value !== undefined)) {
+      throw new Error(`${stateContext} can only use method, url, headers, query and body with http type states`);
+    }
+
+    if (state.type === 'approval') {
+      this.validateApprovalState(name, state, allStates);
+    } else if (state.content !== undefined || state.on_reject !== undefined || state.default_decision !== undefined) {
+      throw new Error(`${stateContext} can only use content, on_reject and default_decision with approval type states`);
+    }
+
+    if (state.type === 'map_reduce') {
+      this.validateMapReduceState(name, state);
+    } else if ([state.input, state.chunk_size, state.map_prompt, state.reduce_prompt].some(value => value !== undefined)) {
+      throw new Error(`${stateContext} can only use input, chunk_size, map_prompt and reduce_prompt with map_reduce type states`);
+    }
+
+    if (state.type === 'call') {
+      this.validateCallState(name, state);
+    } else if (state.workflow !== undefined || state.inputs !== undefined || state.outputs !== undefined) {
+      throw new Error(`${stateContext} can only use workflow, inputs and outputs with call type states`);
+    }
+
+    if (state.type === 'parallel') {
+      this.validateParallelState(name, state, allStates, mcpServers, namedRags);
+    } else if (state.branches || (state.max_concurrency !== undefined && state.type !== 'map_reduce') || state.error_policy !== undefined) {
+      throw new Error(`${stateContext} can only use branches, max_concurrency and error_policy with parallel type states`);
+    }
+
     // Validate MCP server references
     if (state.mcp_servers) {
       if (!Array.isArray(state.mcp_servers)) {
@@ -178,6 +297,66 @@ export class WorkflowValidator {
       }
     }
 
+    // Validate tool-calling iteration limit
+    if (state.max_tool_iterations !== undefined) {
+      this.validateMaxToolIterations(state.max_tool_iterations, stateContext);
+      if (state.type !== 'prompt') {
+        throw new Error(`${stateContext} can only use max_tool_iterations with prompt type states`);
+      }
+    }
+
+    // Validate retry policy (only states that call the model or send requests can retry)
+    if (state.retry !== undefined) {
+      this.validateRetrySpec(state.retry, stateContext);
+      if (!['prompt', 'parallel', 'foreach', 'map_reduce', 'http'].includes(state.type)) {
+        throw new Error(`${stateContext} can only use retry with prompt, parallel, foreach, map_reduce and http type states`);
+      }
+    }
+
+    // Validate model call time limit
+    if (state.timeout_ms !== undefined) {
+      this.validateTimeout(state.timeout_ms, stateContext);
+      if (!['prompt', 'parallel', 'foreach', 'map_reduce', 'script', 'command', 'http', 'approval'].includes(state.type)) {
+        throw new Error(`${stateContext} can only use timeout_ms with prompt, parallel, foreach, map_reduce, script, command, http and approval type states`);
+      }
+    }
+
+    // Validate conversation memory (only prompt and foreach states keep a chat history)
+    if (state.conversation !== undefined) {
+      this.validateConversation(state.conversation, stateContext, true);
+      if (state.type !== 'prompt' && state.type !== 'foreach') {
+        throw new Error(`${stateContext} can only use conversation with prompt and foreach type states`);
+      }
+    }
+
+    // Validate structured output configuration
+    if (state.output_schema !== undefined || state.output_schema_file !== undefined) {
+      this.validateOutputSchema(state, stateContext);
+    }
+
+    // Validate response checks
+    if (state.validate !== undefined) {
+      if (state.type !== 'prompt' || state.steps) {
+        throw new Error(`${stateContext} can only use validate with prompt type states without steps`);
+      }
+      this.validateValidateSpec(state.validate, stateContext);
+    }
+
+    // Validate sampling (several responses to the same prompt, one of which is kept)
+    if ([state.samples, state.select, state.models, state.judge_model].some(value => value !== undefined)) {
+      this.validateSampling(state, stateContext);
+    }
+
+    // Validate re-prompts of responses that fail output_schema or validate
+    if (state.repair_attempts !== undefined) {
+      if (state.output_schema === undefined && state.output_schema_file === undefined && state.validate === undefined) {
+        throw new Error(`${stateContext} can only use repair_attempts together with output_schema or validate`);
+      }
+      if (!Number.isInteger(state.repair_attempts) || state.repair_attempts < 0) {
+        throw new Error(`${stateContext} repair_attempts must be a non-negative integer`);
+      }
+    }
+
     // Validate inline RAG configuration
     if (state.rag) {
       this.validateRAGSpec(state.rag);
@@ -235,6 +414,11 @@ export class WorkflowValidator {
       }
     }
 
+    // Validate switch (expression-based state selection)
+    if (state.switch !== undefined) {
+      this.validateSwitch(state, allStates, stateContext);
+    }
+
     // Validate transitions
     if (state.next) {
       this.validateStateReference(state.next, allStates, 'next', stateContext);
@@ -276,6 +460,600 @@ export class WorkflowValidator {
     }
   }
 
+  /**
+   * Validate a parallel state's branches and options
+   * @param name - State name
+   * @param state - State configuration
+   * @param allStates - All states for reference validation
+   * @param mcpServers - MCP servers available in workflow
+   * @param namedRags - Named RAG configurations if present
+   */
+  private static validateParallelState(name: string, state: StateSpec, allStates: Record<string, StateSpec>, mcpServers?: Record<string, MCPServerSpec>, namedRags?: Record<string, RAGSpec>): void {
+    const stateContext = `Parallel state "${name}"`;
+
+    if (!Array.isArray(state.branches)) {
+      throw new Error(`${stateContext} must have a branches array`);
+    }
+
+    if (state.branches.length < 2) {
+      throw new Error(`${stateContext} branches must have at least 2 branches`);
+    }
+
+    if (state.prompt || state.prompt_file || state.steps || state.save_as || state.next_options) {
+      throw new Error(`${stateContext} cannot have prompt, prompt_file, steps, save_as or next_options fields`);
+    }
+
+    state.branches.forEach((branch, i) => {
+      if (typeof branch === 'string') {
+        if (branch === name) {
+          throw new Error(`${stateContext} cannot use itself as a branch`);
+        }
+        if (!allStates[branch]) {
+          throw new Error(`${stateContext} branches references non-existent state "${branch}"`);
+        }
+        if (allStates[branch].type !== 'prompt' || allStates[branch].steps) {
+          throw new Error(`${stateContext} branch "${branch}" must be a prompt state without steps`);
+        }
+        // A branch runs only its prompt, so routing of its own would never be followed
+        if (allStates[branch].next_options || allStates[branch].switch) {
+          throw new Error(`${stateContext} branch "${branch}" cannot use next_options or switch, as branches do not choose the next state`);
+        }
+      } else if (typeof branch === 'object' && branch !== null) {
+        this.validateStep(name, 'prompt', branch, i, mcpServers, namedRags, 'branch');
+      } else {
+        throw new Error(`${stateContext} branches must be state names or inline steps`);
+      }
+    });
+
+    if (state.max_concurrency !== undefined) {
+      if (typeof state.max_concurrency !== 'number' || !Number.isInteger(state.max_concurrency) || state.max_concurrency <= 0) {
+        throw new Error(`${stateContext} max_concurrency must be a positive integer`);
+      }
+    }
+
+    if (state.error_policy !== undefined && !['fail_fast', 'collect_all'].includes(state.error_policy)) {
+      throw new Error(`${stateContext} has invalid error_policy "${state.error_policy}". Must be one of: fail_fast, collect_all`);
+    }
+  }
+
+  /**
+   * Validate a state's switch cases: expressions must parse and targets must exist
+   * @param state - State configuration
+   * @param allStates - All states in the workflow
+   * @param stateContext - Description of the state for error messages
+   */
+  private static validateSwitch(state: StateSpec, allStates: Record<string, StateSpec>, stateContext: string): void {
+    if (!Array.isArray(state.switch) || state.switch.length === 0) {
+      throw new Error(`${stateContext} switch must be a non-empty array`);
+    }
+    if (state.next_options) {
+      throw new Error(`${stateContext} cannot have both 'switch' and 'next_options' fields`);
+    }
+    if (state.type === 'workflow_ref' || state.type === 'end') {
+      throw new Error(`${stateContext} cannot use switch with ${state.type} type states`);
+    }
+
+    state.switch.forEach((switchCase, i) => {
+      const caseContext = `${stateContext} switch case ${i + 1}`;
+      if (!switchCase || typeof switchCase.when !== 'string' || switchCase.when.trim() === '') {
+        throw new Error(`${caseContext} must have a non-empty 'when' expression`);
+      }
+      if (typeof switchCase.next !== 'string' || switchCase.next.trim() === '') {
+        throw new Error(`${caseContext} must have a non-empty 'next' field`);
+      }
+      try {
+        parseExpression(switchCase.when);
+      } catch (error: any) {
+        throw new Error(`${caseContext} has an ${error.message.charAt(0).toLowerCase()}${error.message.slice(1)}`);
+      }
+      this.validateStateReference(switchCase.next, allStates, 'switch', stateContext);
+    });
+  }
+
+  /**
+   * Validate a foreach state's list variable and steps
+   * @param name - State name
+   * @param state - State configuration
+   * @param mcpServers - MCP servers available in workflow
+   * @param namedRags - Named RAG configurations if present
+   */
+  private static validateForeachState(name: string, state: StateSpec, mcpServers?: Record<string, MCPServerSpec>, namedRags?: Record<string, RAGSpec>): void {
+    const stateContext = `Foreach state "${name}"`;
+
+    this.validateRequiredField(state.items, 'items field', stateContext);
+    this.validateFieldType(state.items, 'string', 'items', stateContext);
+
+    if (!Array.isArray(state.steps) || state.steps.length === 0) {
+      throw new Error(`${stateContext} must have a non-empty steps array`);
+    }
+
+    if (state.prompt || state.prompt_file || state.next_options) {
+      throw new Error(`${stateContext} cannot have prompt, prompt_file or next_options fields`);
+    }
+
+    for (let i = 0; i < state.steps.length; i++) {
+      // Steps are prompts; other state types run before or after the loop
+      const stepType = (state.steps[i] as any)?.type;
+      if (stepType !== undefined && stepType !== 'prompt') {
+        throw new Error(`State "${name}" step ${i + 1} has type "${stepType}", but foreach steps can only be prompts`);
+      }
+      this.validateStep(name, 'prompt', state.steps[i], i, mcpServers, namedRags);
+    }
+  }
+
+  /**
+   * Validate a script state: exactly one of script and script_file, and an inline script must compile
+   * @param name - State name
+   * @param state - State configuration
+   */
+  private static validateScriptState(name: string, state: StateSpec): void {
+    const stateContext = `Script state "${name}"`;
+
+    if (state.script === undefined && state.script_file === undefined) {
+      throw new Error(`${stateContext} must have a script or script_file field`);
+    }
+    if (state.script !== undefined && state.script_file !== undefined) {
+      throw new Error(`${stateContext} cannot have both script and script_file fields`);
+    }
+    if (state.prompt || state.prompt_file || state.next_options) {
+      throw new Error(`${stateContext} cannot have prompt, prompt_file or next_options fields`);
+    }
+
+    if (state.script !== undefined) {
+      this.validateFieldType(state.script, 'string', 'script', stateContext);
+      try {
+        compileScript(state.script);
+      } catch (error: any) {
+        throw new Error(`${stateContext}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Validate a command state's fields
+   * @param name - State name
+   * @param state - State configuration
+   */
+  private static validateCommandState(name: string, state: StateSpec): void {
+    const stateContext = `Command state "${name}"`;
+
+    this.validateRequiredField(state.command, 'command field', stateContext);
+    this.validateFieldType(state.command, 'string', 'command', stateContext);
+    this.validateTemplate(state.command, 'command', stateContext);
+
+    if (state.prompt || state.prompt_file || state.next_options) {
+      throw new Error(`${stateContext} cannot have prompt, prompt_file or next_options fields`);
+    }
+    if (state.allowed_commands !== undefined) {
+      this.validateCommandList(state.allowed_commands, stateContext);
+    }
+    if (state.working_directory !== undefined) {
+      this.validateFieldType(state.working_directory, 'string', 'working_directory', stateContext);
+    }
+  }
+
+  /**
+   * Validate that a command state only runs allowed commands
+   * @param name - State name
+   * @param state - State configuration
+   * @param workflowAllowed - Workflow-level allowed commands
+   */
+  private static validateCommandAllowed(name: string, state: StateSpec, workflowAllowed?: string[]): void {
+    const stateContext = `Command state "${name}"`;
+    const allowed = state.allowed_commands ?? workflowAllowed;
+    if (!allowed) {
+      throw new Error(`${stateContext} needs allowed_commands, on the state or the workflow`);
+    }
+
+    const errors = findDisallowedCommands(state.command!, allowed);
+    if (errors.length > 0) {
+      throw new Error(`${stateContext}: ${errors.join('; ')}`);
+    }
+  }
+
+  /**
+   * Validate a list of allowed commands
+   * @param commands - Value of allowed_commands
+   * @param context - Context for error messages
+   */
+  private static validateCommandList(commands: any, context: string): void {
+    if (!Array.isArray(commands) || commands.length === 0) {
+      throw new Error(`${context} allowed_commands must be a non-empty array`);
+    }
+    for (const command of commands) {
+      if (typeof command !== 'string' || command.trim() === '') {
+        throw new Error(`${context} allowed_commands must only contain non-empty strings`);
+      }
+    }
+  }
+
+  /**
+   * Validate an http state's request fields
+   * @param name - State name
+   * @param state - State configuration
+   */
+  private static validateHttpState(name: string, state: StateSpec): void {
+    const stateContext = `HTTP state "${name}"`;
+
+    this.validateRequiredField(state.url, 'url field', stateContext);
+    this.validateFieldType(state.url, 'string', 'url', stateContext);
+    this.validateTemplate(state.url, 'url', stateContext);
+
+    if (state.prompt || state.prompt_file || state.next_options) {
+      throw new Error(`${stateContext} cannot have prompt, prompt_file or next_options fields`);
+    }
+
+    const method = state.method ?? 'GET';
+    if (typeof method !== 'string' || !HTTP_METHODS.includes(method.toUpperCase())) {
+      throw new Error(`${stateContext} method must be one of: ${HTTP_METHODS.join(', ')}`);
+    }
+    if (state.body !== undefined && ['GET', 'HEAD'].includes(method.toUpperCase())) {
+      throw new Error(`${stateContext} cannot send a body with a ${method.toUpperCase()} request`);
+    }
+
+    for (const [field, value] of Object.entries({ headers: state.headers, query: state.query })) {
+      if (value !== undefined && (typeof value !== 'object' || value === null || Array.isArray(value))) {
+        throw new Error(`${stateContext} ${field} must be an object`);
+      }
+    }
+    for (const [header, value] of Object.entries(state.headers || {})) {
+      this.validateFieldType(value, 'string', `header "${header}"`, stateContext);
+      this.validateTemplate(value, `header "${header}"`, stateContext);
+    }
+  }
+
+  /**
+   * Validate an approval state: the content to review, where a rejection goes
+   * and the decision used when nobody decides in time
+   * @param name - State name
+   * @param state - State configuration
+   * @param allStates - All states for reference validation
+   */
+  private static validateApprovalState(name: string, state: StateSpec, allStates: Record<string, StateSpec>): void {
+    const stateContext = `Approval state "${name}"`;
+
+    this.validateRequiredField(state.content, 'content field', stateContext);
+    this.validateFieldType(state.content, 'string', 'content', stateContext);
+    this.validateTemplate(state.content, 'content', stateContext);
+
+    this.validateRequiredField(state.on_reject, 'on_reject field', stateContext);
+    this.validateStateReference(state.on_reject!, allStates, 'on_reject', stateContext);
+
+    if (state.prompt_file || state.next_options) {
+      throw new Error(`${stateContext} cannot have prompt_file or next_options fields`);
+    }
+    if (state.default_decision !== undefined && !['approve', 'reject'].includes(state.default_decision)) {
+      throw new Error(`${stateContext} default_decision must be "approve" or "reject"`);
+    }
+    if (state.timeout_ms !== undefined && state.default_decision === undefined) {
+      throw new Error(`${stateContext} needs a default_decision to use when timeout_ms passes`);
+    }
+  }
+
+  /**
+   * Validate a map_reduce state: its text to split, chunk size and prompts
+   * @param name - State name
+   * @param state - State configuration
+   */
+  private static validateMapReduceState(name: string, state: StateSpec): void {
+    const stateContext = `Map-reduce state "${name}"`;
+
+    if (state.input === undefined && !(Array.isArray(state.files) && state.files.length > 0)) {
+      throw new Error(`${stateContext} must have an input or files field`);
+    }
+    if (state.input !== undefined) {
+      this.validateFieldType(state.input, 'string', 'input', stateContext);
+      this.validateTemplate(state.input, 'input', stateContext);
+    }
+
+    for (const field of ['map_prompt', 'reduce_prompt'] as const) {
+      this.validateRequiredField(state[field], `${field} field`, stateContext);
+      this.validateFieldType(state[field], 'string', field, stateContext);
+      this.validateTemplate(state[field], field, stateContext);
+    }
+
+    if (state.prompt || state.prompt_file || state.steps || state.next_options) {
+      throw new Error(`${stateContext} cannot have prompt, prompt_file, steps or next_options fields`);
+    }
+    if (state.chunk_size !== undefined && (!Number.isInteger(state.chunk_size) || state.chunk_size < 1)) {
+      throw new Error(`${stateContext} chunk_size must be a positive integer`);
+    }
+    if (state.max_concurrency !== undefined && (!Number.isInteger(state.max_concurrency) || state.max_concurrency < 1)) {
+      throw new Error(`${stateContext} max_concurrency must be a positive integer`);
+    }
+  }
+
+  /**
+   * Validate a call state's workflow and its input and output mappings
+   * @param name - State name
+   * @param state - State configuration
+   */
+  private static validateCallState(name: string, state: StateSpec): void {
+    const stateContext = `Call state "${name}"`;
+
+    this.validateRequiredField(state.workflow, 'workflow field', stateContext);
+    this.validateFieldType(state.workflow, 'string', 'workflow', stateContext);
+
+    if (state.prompt || state.prompt_file || state.save_as || state.next_options) {
+      throw new Error(`${stateContext} cannot have prompt, prompt_file, save_as or next_options fields. Use outputs to return values`);
+    }
+
+    for (const field of ['inputs', 'outputs'] as const) {
+      const mapping = state[field];
+      if (mapping === undefined) {
+        continue;
+      }
+      if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping)) {
+        throw new Error(`${stateContext} ${field} must be an object mapping variable names to values`);
+      }
+      for (const [variableName, value] of Object.entries(mapping)) {
+        if (!/^[A-Za-z_]\w*$/.test(variableName)) {
+          throw new Error(`${stateContext} ${field} has invalid variable name "${variableName}"`);
+        }
+        if (field === 'inputs') {
+          this.validateTemplate(value, `input "${variableName}"`, stateContext);
+        } else if (typeof value !== 'string' || !parseVariablePath(value)) {
+          throw new Error(`${stateContext} output "${variableName}" must name a variable of the called workflow, such as "summary" or "result.title"`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate a retry policy
+   * @param retry - Retry specification
+   * @param context - Description of the owner for error messages
+   */
+  static validateRetrySpec(retry: RetrySpec, context: string): void {
+    if (typeof retry !== 'object' || retry === null || Array.isArray(retry)) {
+      throw new Error(`${context} retry must be an object`);
+    }
+    if (retry.max_attempts !== undefined && (!Number.isInteger(retry.max_attempts) || retry.max_attempts < 1)) {
+      throw new Error(`${context} retry max_attempts must be a positive integer`);
+    }
+    if (retry.backoff !== undefined && !BACKOFF_STRATEGIES.includes(retry.backoff)) {
+      throw new Error(`${context} retry has invalid backoff "${retry.backoff}". Must be one of: ${BACKOFF_STRATEGIES.join(', ')}`);
+    }
+    if (retry.initial_delay_ms !== undefined && (typeof retry.initial_delay_ms !== 'number' || retry.initial_delay_ms < 0)) {
+      throw new Error(`${context} retry initial_delay_ms must be a non-negative number`);
+    }
+    if (retry.retry_on !== undefined) {
+      if (!Array.isArray(retry.retry_on)) {
+        throw new Error(`${context} retry retry_on must be an array`);
+      }
+      for (const condition of retry.retry_on) {
+        if (!(RETRY_CONDITIONS as string[]).includes(condition)) {
+          throw new Error(`${context} retry has invalid retry_on value "${condition}". Must be one of: ${RETRY_CONDITIONS.join(', ')}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate a state's output_schema and output_schema_file fields
+   * @param state - State configuration
+   * @param stateContext - Description of the state for error messages
+   */
+  private static validateOutputSchema(state: StateSpec, stateContext: string): void {
+    if (state.type !== 'prompt' || state.steps) {
+      throw new Error(`${stateContext} can only use output_schema with prompt type states without steps`);
+    }
+    if (state.output_schema !== undefined && state.output_schema_file !== undefined) {
+      throw new Error(`${stateContext} cannot have both output_schema and output_schema_file fields`);
+    }
+    if (state.output_schema !== undefined) {
+      try {
+        checkSchema(state.output_schema, 'output_schema');
+      } catch (error: any) {
+        throw new Error(`${stateContext} ${error.message}`);
+      }
+    }
+    if (state.output_schema_file !== undefined) {
+      this.validateFieldType(state.output_schema_file, 'string', 'output_schema_file', stateContext);
+    }
+  }
+
+  /**
+   * Validate a state's samples, select, models and judge_model fields
+   * @param state - State configuration
+   * @param stateContext - Description of the state for error messages
+   */
+  private static validateSampling(state: StateSpec, stateContext: string): void {
+    if (state.type !== 'prompt' || state.steps) {
+      throw new Error(`${stateContext} can only use samples, select, models and judge_model with prompt type states without steps`);
+    }
+    if (state.samples === undefined) {
+      throw new Error(`${stateContext} can only use select, models and judge_model together with samples`);
+    }
+    if (!Number.isInteger(state.samples) || state.samples < 2) {
+      throw new Error(`${stateContext} samples must be an integer of at least 2`);
+    }
+    if (state.select !== undefined && !(SELECT_STRATEGIES as string[]).includes(state.select)) {
+      throw new Error(`${stateContext} has invalid select "${state.select}". Must be one of: ${SELECT_STRATEGIES.join(', ')}`);
+    }
+    if (state.models !== undefined) {
+      if (!Array.isArray(state.models) || state.models.length === 0 || !state.models.every(model => typeof model === 'string' && model.length > 0)) {
+        throw new Error(`${stateContext} models must be a non-empty array of model names`);
+      }
+      if (state.model !== undefined) {
+        throw new Error(`${stateContext} cannot have both model and models fields`);
+      }
+    }
+    if (state.judge_model !== undefined) {
+      this.validateFieldType(state.judge_model, 'string', 'judge_model', stateContext);
+      if (state.select !== 'judge') {
+        throw new Error(`${stateContext} can only use judge_model when select is "judge"`);
+      }
+    }
+  }
+
+  /**
+   * Validate a state's validate block
+   * @param validate - Validate specification
+   * @param stateContext - Description of the state for error messages
+   */
+  private static validateValidateSpec(validate: ValidateSpec, stateContext: string): void {
+    if (typeof validate !== 'object' || validate === null || Array.isArray(validate)) {
+      throw new Error(`${stateContext} validate must be an object`);
+    }
+    for (const check of Object.keys(validate)) {
+      if (!VALIDATE_CHECKS.includes(check)) {
+        throw new Error(`${stateContext} validate has unknown check "${check}". Must be one of: ${VALIDATE_CHECKS.join(', ')}`);
+      }
+    }
+
+    for (const field of ['min_length', 'max_length'] as const) {
+      const value = validate[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new Error(`${stateContext} validate ${field} must be a non-negative integer`);
+      }
+    }
+    if (validate.min_length !== undefined && validate.max_length !== undefined && validate.min_length > validate.max_length) {
+      throw new Error(`${stateContext} validate min_length cannot be greater than max_length`);
+    }
+
+    for (const field of ['must_contain', 'must_not_contain', 'regex'] as const) {
+      const value = validate[field];
+      if (value !== undefined && typeof value !== 'string' && !(Array.isArray(value) && value.every(item => typeof item === 'string'))) {
+        throw new Error(`${stateContext} validate ${field} must be a string or an array of strings`);
+      }
+    }
+    const patterns = typeof validate.regex === 'string' ? [validate.regex] : validate.regex || [];
+    for (const pattern of patterns) {
+      try {
+        new RegExp(pattern);
+      } catch (error: any) {
+        throw new Error(`${stateContext} validate has invalid regex "${pattern}": ${error.message}`);
+      }
+    }
+
+    if (validate.is_json !== undefined && typeof validate.is_json !== 'boolean') {
+      throw new Error(`${stateContext} validate is_json must be a boolean`);
+    }
+    const noRefusal = validate.no_refusal;
+    if (noRefusal !== undefined && typeof noRefusal !== 'boolean' && !(Array.isArray(noRefusal) && noRefusal.every(item => typeof item === 'string'))) {
+      throw new Error(`${stateContext} validate no_refusal must be a boolean or an array of phrases`);
+    }
+  }
+
+  /**
+   * Validate a timeout_ms value
+   * @param value - Value to validate
+   * @param context - Description of the owner for error messages
+   */
+  private static validateTimeout(value: any, context: string): void {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`${context} timeout_ms must be a positive integer`);
+    }
+  }
+
+  /**
+   * Validate the workflow-level limits
+   * @param limits - Limits specification
+   * @param allStates - All states, for the on_limit reference
+   */
+  private static validateLimits(limits: LimitsSpec, allStates: Record<string, StateSpec>): void {
+    if (typeof limits !== 'object' || limits === null || Array.isArray(limits)) {
+      throw new Error('Workflow limits must be an object');
+    }
+    for (const field of Object.keys(limits)) {
+      if (!LIMIT_FIELDS.includes(field)) {
+        throw new Error(`Workflow limits has unknown field "${field}". Must be one of: ${LIMIT_FIELDS.join(', ')}`);
+      }
+    }
+
+    for (const field of ['max_states_executed', 'max_llm_calls', 'max_total_tokens'] as const) {
+      const value = limits[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new Error(`Workflow limits ${field} must be a positive integer`);
+      }
+    }
+    if (limits.max_duration !== undefined && parseDuration(limits.max_duration) === undefined) {
+      throw new Error('Workflow limits max_duration must be a positive number of milliseconds or a duration such as "90s", "10m" or "1h"');
+    }
+    if (limits.on_limit !== undefined) {
+      this.validateFieldType(limits.on_limit, 'string', 'on_limit', 'Workflow limits');
+      this.validateStateReference(limits.on_limit, allStates, 'on_limit', 'Workflow limits');
+    }
+  }
+
+  /**
+   * Validate a conversation configuration
+   * @param conversation - Conversation object, name, or false
+   * @param context - Description of the owner for error messages
+   * @param isState - Whether the conversation is set on a state (reset, fork_from and false are state-only)
+   */
+  private static validateConversation(conversation: any, context: string, isState: boolean): void {
+    if (conversation === false && isState) {
+      return;
+    }
+    if (typeof conversation === 'string') {
+      if (conversation.trim() === '') {
+        throw new Error(`${context} conversation name cannot be empty`);
+      }
+      return;
+    }
+    if (typeof conversation !== 'object' || conversation === null || Array.isArray(conversation)) {
+      throw new Error(`${context} conversation must be an object or a conversation name${isState ? ', or false to opt out' : ''}`);
+    }
+
+    const conversationContext = `${context} conversation`;
+    for (const field of ['name', 'fork_from']) {
+      if (conversation[field] !== undefined && (typeof conversation[field] !== 'string' || conversation[field].trim() === '')) {
+        throw new Error(`${conversationContext} ${field} must be a non-empty string`);
+      }
+    }
+    if (conversation.system !== undefined) {
+      this.validateFieldType(conversation.system, 'string', 'system', conversationContext);
+      this.validateTemplate(conversation.system, 'system', conversationContext);
+    }
+    for (const field of ['max_messages', 'max_chars']) {
+      if (conversation[field] !== undefined && (!Number.isInteger(conversation[field]) || conversation[field] < 1)) {
+        throw new Error(`${conversationContext} ${field} must be a positive integer`);
+      }
+    }
+    if (conversation.reset !== undefined) {
+      this.validateFieldType(conversation.reset, 'boolean', 'reset', conversationContext);
+    }
+
+    if (!isState && (conversation.reset !== undefined || conversation.fork_from !== undefined)) {
+      throw new Error(`${conversationContext} cannot use reset or fork_from. Set them on the states that start a new conversation`);
+    }
+    if (conversation.reset && conversation.fork_from) {
+      throw new Error(`${conversationContext} cannot use both reset and fork_from`);
+    }
+    if (conversation.fork_from !== undefined && conversation.fork_from === conversation.name) {
+      throw new Error(`${conversationContext} cannot fork from itself`);
+    }
+  }
+
+  /**
+   * Validate the {{placeholders}} in a text field
+   * @param text - Field value (ignored if not a string)
+   * @param fieldName - Name of the field for error messages
+   * @param context - Description of the owner for error messages
+   */
+  private static validateTemplate(text: any, fieldName: string, context: string): void {
+    if (typeof text !== 'string') {
+      return;
+    }
+    const errors = findTemplateErrors(text);
+    if (errors.length > 0) {
+      throw new Error(`${context} ${fieldName} has an invalid placeholder: ${errors[0]}`);
+    }
+  }
+
+  /**
+   * Validate a max_tool_iterations value
+   * @param value - Value to check
+   * @param context - Context for error message
+   */
+  private static validateMaxToolIterations(value: any, context: string): void {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+      throw new Error(`${context} max_tool_iterations must be a positive integer`);
+    }
+  }
+
   static validateRAGSpec(ragSpec: RAGSpec): void {
     const ragContext = 'RAG configuration';
     
@@ -305,6 +1083,9 @@ export class WorkflowValidator {
         throw new Error('RAG top_k must be a positive number');
       }
     }
+    
+    this.validateTemplate(ragSpec.chunk_template, 'chunk_template', ragContext);
+    this.validateTemplate(ragSpec.context_template, 'context_template', ragContext);
   }
 
   /**
@@ -315,9 +1096,10 @@ export class WorkflowValidator {
    * @param stepIndex - Index of this step in the steps array
    * @param mcpServers - MCP servers available in workflow
    * @param namedRags - Named RAG configurations if present
+   * @param label - What the step is called in error messages (e.g. "step" or "branch")
    */
-  static validateStep(stateName: string, stateType: string, step: any, stepIndex: number, mcpServers?: Record<string, MCPServerSpec>, namedRags?: Record<string, RAGSpec>): void {
-    const stepContext = `State "${stateName}" step ${stepIndex + 1}`;
+  static validateStep(stateName: string, stateType: string, step: any, stepIndex: number, mcpServers?: Record<string, MCPServerSpec>, namedRags?: Record<string, RAGSpec>, label: string = 'step'): void {
+    const stepContext = `State "${stateName}" ${label} ${stepIndex + 1}`;
     
     // Each step must have either prompt or prompt_file
     if (!step.prompt && !step.prompt_file) {
@@ -328,6 +1110,15 @@ export class WorkflowValidator {
       throw new Error(`${stepContext} cannot have both prompt and prompt_file fields`);
     }
     
+    this.validateTemplate(step.prompt, 'prompt', stepContext);
+    this.validateTemplate(step.default_value, 'default_value', stepContext);
+
+    // Structured output, response checks and sampling are only run for prompt states without steps
+    const stateOnlyField = STATE_ONLY_FIELDS.find(field => step[field] !== undefined);
+    if (stateOnlyField) {
+      throw new Error(`${stepContext} cannot use ${stateOnlyField}. It is only available on prompt type states without steps`);
+    }
+    
     // Validate MCP server references in step
     if (step.mcp_servers) {
       if (!Array.isArray(step.mcp_servers)) {
@@ -343,6 +1134,11 @@ export class WorkflowValidator {
       }
     }
     
+    // Validate tool-calling iteration limit in step
+    if (step.max_tool_iterations !== undefined) {
+      this.validateMaxToolIterations(step.max_tool_iterations, stepContext);
+    }
+    
     // Validate inline RAG configuration in step
     if (step.rag) {
       this.validateRAGSpec(step.rag);
@@ -412,4 +1208,53 @@ export class WorkflowValidator {
       }
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Validate declared workflow inputs
+   * @param inputs - Inputs specification
+   */
+  static validateInputs(inputs: Record<string, any>): void {
+    if (typeof inputs !== 'object' || inputs === null || Array.isArray(inputs)) {
+      throw new Error('Workflow inputs must be an object mapping input names to their definitions');
+    }
+
+    for (const [name, spec] of Object.entries(inputs)) {
+      const inputContext = `Input "${name}"`;
+
+      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+        throw new Error(`${inputContext} has invalid name. Input names must start with a letter or underscore and contain only letters, numbers, and underscores.`);
+      }
+      if (typeof spec !== 'object' || spec === null || Array.isArray(spec)) {
+        throw new Error(`${inputContext} must be an object with a type`);
+      }
+
+      const type = spec.type ?? 'string';
+      if (!(INPUT_TYPES as readonly string[]).includes(type)) {
+        throw new Error(`${inputContext} has invalid type "${type}". Must be one of: ${INPUT_TYPES.join(', ')}`);
+      }
+      if (spec.description !== undefined) {
+        this.validateFieldType(spec.description, 'string', 'description', inputContext);
+      }
+      if (spec.required !== undefined) {
+        this.validateFieldType(spec.required, 'boolean', 'required', inputContext);
+      }
+
+      if (type === 'enum') {
+        if (!Array.isArray(spec.values) || spec.values.length === 0 || !spec.values.every((value: any) => typeof value === 'string')) {
+          throw new Error(`${inputContext} of type enum must have a non-empty "values" list of strings`);
+        }
+      } else if (spec.values !== undefined) {
+        throw new Error(`${inputContext} can only have "values" when its type is enum`);
+      }
+
+      if (spec.default !== undefined) {
+        if (type === 'file') {
+          this.validateFieldType(spec.default, 'string', 'default', inputContext);
+        } else {
+          // Throws with a message naming the input if the default does not match the type
+          coerceInput(name, { type, values: spec.values }, spec.default);
+        }
+      }
+    }
+  }
+}
@@ -1,10 +1,23 @@
 import { RAGConfig, RAGService } from '../rag/rag-service';
+import { RetryConfig } from '../utils/retry';
+import { ConversationConfig } from '../utils/conversation';
+import { RunLimits } from '../utils/run-limits';
+import { InputDefinition } from '../utils/workflow-inputs';
+import { HttpRequest } from '../utils/http-request';
+import { ValidateConfig } from '../utils/output-validation';
+import { SelectStrategy } from '../utils/sampling';
+import { StateTypeHandler } from './state-types';
 
 export interface NextOption {
   state: string;
   description: string;
 }
 
+export interface SwitchCase {
+  when: string;
+  next: string;
+}
+
 export interface McpServerConfig {
   command: string;
   args: string[];
@@ -17,15 +30,47 @@ export interface State {
   workflowRef?: string;
   next?: string;
   nextOptions?: NextOption[];  // LLM-driven state selection
+  switch?: SwitchCase[];  // Expression-based state selection
   model?: string;
   saveAs?: string;
   options?: Record<string, any>;
   mcpServers?: string[];
+  maxToolIterations?: number;  // Maximum model/tool round trips when MCP tools are available
   useRag?: string;  // true for default, or name of rag config
   rag?: RAGConfig;  // inline RAG configuration
   defaultValue?: string;  // default value for input state
   onError?: string;  // Fallback state to transition to on error (state-level)
+  retry?: RetryConfig;  // Retry policy for model calls (overrides workflow-level fields)
+  timeoutMs?: number;  // Time limit for each model call (overrides workflow-level timeout), for a script, command or HTTP request, or for an approval decision
+  conversation?: ConversationConfig | false;  // Chat history to send (false opts out of the workflow-level conversation)
+  outputSchema?: Record<string, any>;  // JSON Schema the response must match
+  validate?: ValidateConfig;  // Checks the response must pass
+  repairAttempts?: number;  // Re-prompts allowed when the response does not match the schema or fails a check
+  samples?: number;  // Number of responses to generate, one of which is kept
+  select?: SelectStrategy;  // How the kept sample is chosen (default: majority)
+  models?: string[];  // Models the samples are spread over, in turn (instead of model)
+  judgeModel?: string;  // Model that judges the samples when select is judge
   files: string[];  // Array of file paths for multimodal inputs (images, PDFs, text files, etc.)
+  branches?: string[];  // Names of the states run concurrently by a parallel state
+  maxConcurrency?: number;  // Maximum number of branches or map_reduce chunks processed at the same time
+  errorPolicy?: 'fail_fast' | 'collect_all';  // How a parallel state handles branch failures
+  items?: string;  // Context variable holding the list a foreach state iterates over
+  body?: string[];  // Names of the states a foreach state runs for each item
+  callWorkflow?: string;  // Absolute path of the workflow a call state runs
+  inputs?: Record<string, any>;  // Sub-workflow variables set by a call state
+  outputs?: Record<string, string>;  // Parent variables set from the called workflow's context
+  script?: string;  // JavaScript function body run by a script state
+  command?: string;  // Shell command template run by a command state
+  workingDirectory?: string;  // Absolute directory a command state runs in
+  request?: HttpRequest;  // Request template sent by an http state
+  content?: string;  // Text an approval state shows for review
+  onReject?: string;  // State an approval state continues to when rejected
+  defaultDecision?: 'approve' | 'reject';  // Decision of an approval state when none is made in time
+  input?: string;  // Text template a map_reduce state splits into chunks
+  chunkSize?: number;  // Maximum number of characters in each chunk of a map_reduce state
+  mapPrompt?: string;  // Prompt a map_reduce state runs on each chunk
+  reducePrompt?: string;  // Prompt a map_reduce state runs over the partial results
+  config?: Record<string, any>;  // Fields of a custom type state, passed to its handler
 }
 
 export interface Workflow {
@@ -37,5 +82,13 @@ export interface Workflow {
   mcpServers?: Record<string, McpServerConfig>;
   rag: Record<string, RAGConfig>;  // Named RAG configurations
   variables?: Record<string, string>;  // Workflow-level variables for prompt interpolation
+  inputs?: Record<string, InputDefinition>;  // Declared inputs that parameterize a run
   onError?: string;
+  retry?: RetryConfig;  // Default retry policy for model calls
+  timeoutMs?: number;  // Default time limit for each model call
+  strictVariables?: boolean;  // Fail states that reference undefined variables
+  conversation?: ConversationConfig;  // Default conversation for prompt states
+  maxCallDepth?: number;  // Maximum nesting of call states
+  limits?: RunLimits;  // Limits on what a run may use
+  stateTypes?: Record<string, StateTypeHandler>;  // Handlers of the custom state types the workflow can use
 }
\ No newline at end of file
@@ -0,0 +1,173 @@
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { MockAdapter } = require('../../dist/io/mock-adapter');
+const { SseAdapter } = require('../../dist/io/sse-adapter');
+const { AnswerQueue } = require('../../dist/utils/answers');
+const { specFactory, createExecutor: createWorkflowExecutor, runToEnd } = require('../helpers/workflow');
+
+describe('Approval State', () => {
+  const buildSpec = specFactory({
+    name: 'Approval Test',
+    start_state: 'review',
+    states: {
+      review: {
+        type: 'approval',
+        prompt: 'Publish this draft?',
+        content: '{{draft}}',
+        save_as: 'final',
+        on_reject: 'revise',
+        next: 'end'
+      },
+      revise: { type: 'transition', next: 'end' }
+    }
+  });
+
+  const createExecutor = (spec = buildSpec()) => createWorkflowExecutor(spec, { inputs: { draft: 'Our new release is out.' } });
+
+  describe('Validation', () => {
+    test('should accept an approval state', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ timeout_ms: 60000, default_decision: 'approve' }))).not.toThrow();
+    });
+
+    test('should require content and an existing on_reject state', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ content: undefined })))
+        .toThrow('Approval state "review" must have a content field');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ on_reject: undefined })))
+        .toThrow('Approval state "review" must have a on_reject field');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ on_reject: 'rewrite' })))
+        .toThrow('Approval state "review" on_reject references non-existent state "rewrite"');
+    });
+
+    test('should only allow approve or reject as the default decision, and require one with timeout_ms', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ default_decision: 'edit' })))
+        .toThrow('Approval state "review" default_decision must be "approve" or "reject"');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ timeout_ms: 1000 })))
+        .toThrow('Approval state "review" needs a default_decision to use when timeout_ms passes');
+    });
+
+    test('should reject approval fields on other state types', () => {
+      const spec = buildSpec();
+      spec.states.revise = { type: 'transition', next: 'end', on_reject: 'review' };
+      expect(() => WorkflowValidator.validateWorkflowSpec(spec))
+        .toThrow('State "revise" can only use content, on_reject and default_decision with approval type states');
+    });
+  });
+
+  describe('Execution', () => {
+    test('should save the content when it is approved', async () => {
+      const executor = createExecutor();
+      const adapter = new MockAdapter({ review: 'approve' });
+      executor.setAdapter(adapter);
+
+      const { context, history } = await runToEnd(executor);
+
+      expect(context.final).toBe('Our new release is out.');
+      expect(history).toEqual(['review']);
+      expect(adapter.getEvents('approvalRequested').map(recorded => recorded.event)).toEqual([
+        { state: 'review', prompt: 'Publish this draft?', content: 'Our new release is out.', defaultDecision: undefined }
+      ]);
+    });
+
+    test('should save the edited text', async () => {
+      const executor = createExecutor();
+      executor.setAdapter(new MockAdapter({ review: 'Our new release is out today.' }));
+      const completed = [];
+      executor.on('stateComplete', event => completed.push(event));
+
+      const { context } = await runToEnd(executor);
+
+      expect(context.final).toBe('Our new release is out today.');
+      expect(completed[0].output).toBe('Our new release is out today.');
+    });
+
+    test('should continue to on_reject without saving when rejected', async () => {
+      const executor = createExecutor();
+      executor.setAdapter(new MockAdapter({ review: 'reject' }));
+
+      const { context, history } = await runToEnd(executor);
+
+      expect(history).toEqual(['review', 'revise']);
+      expect(context.final).toBeUndefined();
+    });
+
+    test('should go to on_reject instead of the switch target when rejected', async () => {
+      const spec = buildSpec({ switch: [{ when: 'true', next: 'publish' }] }, { publish: { type: 'transition', next: 'end' } });
+      const rejected = createExecutor(spec);
+      rejected.setAdapter(new MockAdapter({ review: 'reject' }));
+      const approved = createExecutor(spec);
+      approved.setAdapter(new MockAdapter({ review: 'approve' }));
+
+      expect((await runToEnd(rejected)).history).toEqual(['review', 'revise']);
+      expect((await runToEnd(approved)).history).toEqual(['review', 'publish']);
+    });
+
+    test('should use the default decision when nobody decides within timeout_ms', async () => {
+      const executor = createExecutor(buildSpec({ timeout_ms: 50, default_decision: 'reject' }));
+      const adapter = {
+        attach: () => {},
+        requestApproval: () => new Promise(() => {}),
+        cancelInput: jest.fn()
+      };
+      executor.setAdapter(adapter);
+
+      const { history } = await runToEnd(executor);
+
+      expect(history).toEqual(['review', 'revise']);
+      expect(adapter.cancelInput).toHaveBeenCalled();
+    });
+
+    test('should fail on decisions it does not know', async () => {
+      const executor = createExecutor();
+      executor.setAdapter({ attach: () => {}, requestApproval: () => ({ decision: 'maybe' }) });
+
+      await expect(executor.execute()).rejects.toThrow('Invalid approval decision "maybe", expected one of: approve, reject, edit');
+    });
+  });
+
+  describe('Non-interactive runs', () => {
+    test('should take the decision from scripted answers, or the default decision', async () => {
+      const scripted = createExecutor();
+      scripted.setNonInteractive(new AnswerQueue({ review: 'reject' }));
+      expect((await runToEnd(scripted)).history).toEqual(['review', 'revise']);
+
+      const defaulted = createExecutor(buildSpec({ default_decision: 'approve' }));
+      expect((await runToEnd(defaulted)).context.final).toBe('Our new release is out.');
+    });
+
+    test('should fail without a scripted or default decision', async () => {
+      const executor = createExecutor();
+
+      await expect(executor.execute()).rejects.toThrow('Approval state "review" needs a decision, but the run is non-interactive');
+    });
+  });
+
+  describe('Web UI', () => {
+    test('should show the content in the page and wait for the posted decision', async () => {
+      const executor = createExecutor();
+      const events = [];
+      let adapter;
+      const res = {
+        writeHead: jest.fn(),
+        write: jest.fn(data => {
+          const event = JSON.parse(data.replace(/^data: /, ''));
+          events.push(event);
+          if (event.type === 'approval') {
+            setImmediate(() => adapter.provideInput({ decision: 'edit', text: 'Edited in the browser' }));
+          }
+        }),
+        end: jest.fn()
+      };
+      adapter = new SseAdapter(res, 'session-1');
+      executor.setAdapter(adapter);
+
+      const { context } = await runToEnd(executor);
+
+      expect(events).toContainEqual({
+        type: 'approval',
+        message: 'Publish this draft?',
+        data: { content: 'Our new release is out.' }
+      });
+      expect(events).toContainEqual({ type: 'approval_end' });
+      expect(context.final).toBe('Edited in the browser');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+const WorkflowParser = require('../../dist/workflow/parser');
+const { createExecutor, runToEnd } = require('../helpers/workflow');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+const yaml = require('js-yaml');
+
+describe('Call State', () => {
+  let workflowDir;
+
+  const writeWorkflow = (fileName, spec) => {
+    const filePath = path.join(workflowDir, fileName);
+    fs.writeFileSync(filePath, yaml.dump(spec));
+    return filePath;
+  };
+
+  const parse = (spec) => WorkflowParser.parseWorkflowSpec(spec, {
+    workflowDir,
+    filePath: path.join(workflowDir, 'main.yaml'),
+    visitedFiles: new Set()
+  });
+
+  const summarizeSpec = {
+    name: 'Summarize',
+    start_state: 'summarize',
+    default_model: 'test-model',
+    states: {
+      summarize: { type: 'prompt', prompt: 'Summarize in {{words}} words: {{text}}', save_as: 'summary', next: 'end' }
+    }
+  };
+
+  const run = (spec, generate) => runToEnd(createExecutor(spec, { generate, workflowDir }));
+
+  beforeEach(() => {
+    workflowDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentmech-call-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(workflowDir, { recursive: true, force: true });
+  });
+
+  test('should pass inputs to the called workflow and return its outputs', async () => {
+    writeWorkflow('summarize.yaml', summarizeSpec);
+    const generate = jest.fn(async (model, prompt) => `Summary of: ${prompt}`);
+
+    const { context } = await run({
+      name: 'Main',
+      start_state: 'shorten',
+      variables: { article: 'A long article', summary: 'parent value' },
+      states: {
+        shorten: {
+          type: 'call',
+          workflow: 'summarize.yaml',
+          inputs: { text: '{{article}}', words: 20 },
+          outputs: { short_article: 'summary' },
+          next: 'end'
+        }
+      }
+    }, generate);
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(generate.mock.calls[0][1]).toBe('Summarize in 20 words: A long article');
+    expect(context.short_article).toBe('Summary of: Summarize in 20 words: A long article');
+    // Only declared outputs reach the parent
+    expect(context.summary).toBe('parent value');
+    expect(context.text).toBeUndefined();
+  });
+
+  test('should isolate the called workflow from parent variables', async () => {
+    writeWorkflow('summarize.yaml', summarizeSpec);
+    const generate = jest.fn(async () => 'done');
+
+    await run({
+      name: 'Main',
+      start_state: 'shorten',
+      variables: { text: 'parent text', words: '5' },
+      states: {
+        shorten: { type: 'call', workflow: 'summarize.yaml', outputs: { result: 'summary' }, next: 'end' }
+      }
+    }, generate);
+
+    expect(generate.mock.calls[0][1]).toBe('Summarize in {{words}} words: {{text}}');
+  });
+
+  test('should pass lists intact and allow calling the same workflow many times', async () => {
+    writeWorkflow('count.yaml', {
+      name: 'Count',
+      start_state: 'count',
+      states: {
+        count: { type: 'prompt', prompt: 'Count {{items | join: "+"}}', save_as: 'total', next: 'end' }
+      }
+    });
+    const { context } = await runToEnd(createExecutor({
+      name: 'Main',
+      start_state: 'first',
+      states: {
+        first: { type: 'call', workflow: 'count.yaml', inputs: { items: '{{fruits}}' }, outputs: { fruit_total: 'total' }, next: 'second' },
+        second: { type: 'call', workflow: 'count.yaml', inputs: { items: '{{vegetables}}' }, outputs: { vegetable_total: 'total' }, next: 'end' }
+      }
+    }, { generate: async (model, prompt) => prompt, workflowDir, inputs: { fruits: ['apple', 'pear'], vegetables: ['leek'] } }));
+
+    expect(context.fruit_total).toBe('Count apple+pear');
+    expect(context.vegetable_total).toBe('Count leek');
+  });
+
+  test('should fail when the called workflow does not set an output', async () => {
+    writeWorkflow('summarize.yaml', summarizeSpec);
+    const { status, error } = await run({
+      name: 'Main',
+      start_state: 'shorten',
+      states: {
+        shorten: { type: 'call', workflow: 'summarize.yaml', outputs: { title: 'headline' }, next: 'end' }
+      }
+    }, async () => 'done');
+
+    expect(status).toBe('failed');
+    expect(error).toContain('did not set output variable "headline"');
+  });
+
+  test('should stop recursive calls at the call depth limit', async () => {
+    const recursivePath = writeWorkflow('recursive.yaml', {
+      name: 'Recursive',
+      start_state: 'again',
+      max_call_depth: 3,
+      states: {
+        again: { type: 'call', workflow: 'recursive.yaml', next: 'end' }
+      }
+    });
+    const workflow = WorkflowParser.parseFile({ filePath: recursivePath, workflowDir: '', visitedFiles: new Set() });
+
+    const { error } = await runToEnd(createExecutor(workflow));
+    expect(error).toContain('Call depth limit of 3 exceeded when calling "recursive.yaml"');
+  });
+
+  test('should reject invalid call states', () => {
+    writeWorkflow('summarize.yaml', summarizeSpec);
+    const callSpec = (state) => ({ name: 'Main', start_state: 'shorten', states: { shorten: { type: 'call', next: 'end', ...state } } });
+
+    expect(() => parse(callSpec({}))).toThrow('Call state "shorten" must have a workflow field');
+    expect(() => parse(callSpec({ workflow: 'missing.yaml' }))).toThrow('State "shorten" calls an invalid workflow');
+    expect(() => parse(callSpec({ workflow: 'summarize.yaml', prompt: 'Hi' }))).toThrow('cannot have prompt, prompt_file, save_as or next_options fields');
+    expect(() => parse(callSpec({ workflow: 'summarize.yaml', outputs: { result: 'summary |' } }))).toThrow('must name a variable');
+    expect(() => parse({
+      name: 'Main',
+      start_state: 'ask',
+      states: { ask: { type: 'prompt', prompt: 'Hi', inputs: { a: 1 }, next: 'end' } }
+    })).toThrow('can only use workflow, inputs and outputs with call type states');
+  });
+});
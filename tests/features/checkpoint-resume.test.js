@@ -0,0 +1,138 @@
+const RunDirectory = require('../../dist/utils/run-directory');
+const checkpoints = require('../../dist/utils/checkpoint');
+const { readCheckpoint, writeCheckpoint, getCheckpointPath } = checkpoints;
+const { fakeOllamaClient, createExecutor: createWorkflowExecutor } = require('../helpers/workflow');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+describe('Checkpointing and Resume', () => {
+  let runDir;
+
+  const spec = {
+    name: 'Research',
+    start_state: 'outline',
+    default_model: 'test-model',
+    conversation: 'research',
+    variables: { topic: 'tides' },
+    states: {
+      outline: { type: 'prompt', prompt: 'Outline {{topic}}', save_as: 'outline', next: 'draft' },
+      draft: { type: 'prompt', prompt: 'Draft from {{outline}}', save_as: 'draft', next: 'polish' },
+      polish: { type: 'prompt', prompt: 'Polish {{draft}}', save_as: 'final', next: 'end' }
+    }
+  };
+
+  const createExecutor = (chat) => createWorkflowExecutor(spec, { client: fakeOllamaClient({ chat }), runDirectory: runDir });
+
+  beforeEach(() => {
+    runDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentmech-checkpoint-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(runDir, { recursive: true, force: true });
+  });
+
+  test('should write a checkpoint after every state', async () => {
+    const executor = createExecutor(async (model, messages) => `Answer to: ${messages[messages.length - 1].content}`);
+    const save = jest.spyOn(checkpoints, 'writeCheckpoint');
+
+    await executor.execute();
+
+    const writes = save.mock.calls.map(([, checkpoint]) => [checkpoint.lastCompletedState, checkpoint.nextState]);
+    expect(writes).toEqual([
+      [null, 'outline'],
+      ['outline', 'draft'],
+      ['draft', 'polish'],
+      ['polish', 'end'],
+      ['polish', null]
+    ]);
+    const checkpoint = readCheckpoint(runDir);
+    expect(checkpoint.status).toBe('completed');
+    expect(checkpoint.context.final).toBe('Answer to: Polish Answer to: Draft from Answer to: Outline tides');
+  });
+
+  test('should resume a failed run from the last completed state', async () => {
+    const failing = createExecutor(async (model, messages) => {
+      const prompt = messages[messages.length - 1].content;
+      if (prompt.startsWith('Draft')) {
+        throw new Error('connect ECONNREFUSED 127.0.0.1:11434');
+      }
+      return 'An outline';
+    });
+    await expect(failing.execute()).rejects.toThrow('ECONNREFUSED');
+
+    const checkpoint = readCheckpoint(runDir);
+    expect(checkpoint).toEqual(expect.objectContaining({
+      status: 'in_progress',
+      lastCompletedState: 'outline',
+      nextState: 'draft',
+      history: ['outline']
+    }));
+    expect(checkpoint.context.outline).toBe('An outline');
+    expect(checkpoint.conversations.research).toHaveLength(2);
+
+    const client = fakeOllamaClient({ chat: async () => 'Done' });
+    const resumed = createWorkflowExecutor(spec, { client, runDirectory: runDir });
+    const ends = [];
+    resumed.on('workflowEnd', event => ends.push(event));
+    await resumed.resume(checkpoint);
+
+    expect(client.chat).toHaveBeenCalledTimes(2);
+    expect(client.chat.mock.calls[0][1].map(message => message.content)).toEqual(['Outline tides', 'An outline', 'Draft from An outline']);
+    expect(ends[0].history).toEqual(['outline', 'draft', 'polish']);
+    expect(readCheckpoint(runDir).status).toBe('completed');
+  });
+
+  test('should keep the interrupted state as the resume point when stopped', async () => {
+    const executor = createExecutor(async (model, messages) => {
+      if (messages[messages.length - 1].content.startsWith('Draft')) {
+        executor.stop();
+        throw new Error('Workflow stopped by user');
+      }
+      return 'An outline';
+    });
+    await executor.execute();
+
+    expect(readCheckpoint(runDir)).toEqual(expect.objectContaining({ status: 'in_progress', nextState: 'draft' }));
+  });
+
+  test('should refuse to resume completed runs or unknown states', async () => {
+    const executor = createExecutor(async () => 'unused');
+    const checkpoint = {
+      workflowName: 'Research',
+      status: 'in_progress',
+      lastCompletedState: 'outline',
+      nextState: 'review',
+      context: {},
+      history: ['outline'],
+      conversations: {},
+      updatedAt: new Date().toISOString()
+    };
+
+    await expect(executor.resume(checkpoint)).rejects.toThrow('resumes at state "review", which does not exist');
+    await expect(executor.resume({ ...checkpoint, status: 'completed', nextState: null })).rejects.toThrow('already completed');
+  });
+
+  test('should report missing and malformed checkpoints', () => {
+    expect(() => readCheckpoint(runDir)).toThrow('No checkpoint found');
+
+    fs.writeFileSync(getCheckpointPath(runDir), '{"context": ');
+    expect(() => readCheckpoint(runDir)).toThrow('Failed to read checkpoint');
+
+    writeCheckpoint(runDir, { context: {}, history: [] });
+    expect(readCheckpoint(runDir).conversations).toEqual({});
+    expect(fs.existsSync(getCheckpointPath(runDir) + '.tmp')).toBe(false);
+  });
+
+  test('should record the workflow file in the run metadata', () => {
+    const runDirInfo = { path: runDir, workflowName: 'Research', timestamp: '2024-01-01T00:00:00.000Z' };
+    RunDirectory.writeRunMetadata(runDirInfo, '/workflows/research.yaml');
+
+    expect(RunDirectory.readRunMetadata(runDir).workflowFile).toBe('/workflows/research.yaml');
+    expect(() => RunDirectory.readRunMetadata(path.join(runDir, 'missing'))).toThrow('Not a run directory');
+  });
+});
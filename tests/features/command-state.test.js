@@ -0,0 +1,158 @@
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { findDisallowedCommands } = require('../../dist/utils/shell-command');
+const { createExecutor, runToEnd } = require('../helpers/workflow');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+describe('Command State', () => {
+  let runDirectory;
+
+  const buildSpec = (overrides = {}, workflowFields = {}) => ({
+    name: 'Command Test',
+    start_state: 'run',
+    allowed_commands: ['printf', 'pwd', 'sleep', 'sh -c'],
+    ...workflowFields,
+    states: {
+      run: { type: 'command', command: 'printf %s {{value}}', save_as: 'result', next: 'end', ...overrides }
+    }
+  });
+
+  const run = (spec, inputs = {}) => runToEnd(createExecutor(spec, { inputs, runDirectory }));
+
+  beforeEach(() => {
+    runDirectory = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'agentmech-command-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(runDirectory, { recursive: true, force: true });
+  });
+
+  describe('Validation', () => {
+    test('should accept commands allowed by the workflow or the state', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec())).not.toThrow();
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ allowed_commands: ['printf'] }, { allowed_commands: undefined })))
+        .not.toThrow();
+    });
+
+    test('should require an allowlist', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({}, { allowed_commands: undefined })))
+        .toThrow('Command state "run" needs allowed_commands, on the state or the workflow');
+    });
+
+    test('should reject commands that are not allowed, anywhere in the command line', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ command: 'rm -rf {{dir}}' })))
+        .toThrow('Command state "run": "rm -rf {{dir}}" is not an allowed command (allowed: printf, pwd, sleep, sh -c)');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ command: 'printf ok && curl example.com' })))
+        .toThrow('"curl example.com" is not an allowed command');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ command: 'printf $(whoami)' })))
+        .toThrow('Command substitution ($(...) or backticks) is not allowed');
+    });
+
+    test('should reject process substitution, ${...} expansion and placeholders inside quotes', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ command: 'printf %s <(pwd)' })))
+        .toThrow('Process substitution (<(...) or >(...)) is not allowed');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ command: 'printf %s >(sleep 1)' })))
+        .toThrow('Process substitution (<(...) or >(...)) is not allowed');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ command: 'printf %s ${HOME}' })))
+        .toThrow('Parameter expansion (${...}) is not allowed');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ command: 'printf "%s" "{{value}}"' })))
+        .toThrow('Command state "run": Placeholder {{value}} cannot be inside quotes, as values are quoted when the command runs');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ command: "printf 'value: {{value}}'" })))
+        .toThrow('Placeholder {{value}} cannot be inside quotes');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ command: 'printf "%s" {{value}} \\"{{value}}' })))
+        .not.toThrow();
+    });
+
+    test('should let state-level allowed_commands override the workflow\'s', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ allowed_commands: ['pwd'] })))
+        .toThrow('"printf %s {{value}}" is not an allowed command (allowed: pwd)');
+    });
+
+    test('should reject command fields on other state types', () => {
+      const spec = buildSpec();
+      spec.states.other = { type: 'prompt', prompt: 'Hi', command: 'pwd' };
+      expect(() => WorkflowValidator.validateWorkflowSpec(spec))
+        .toThrow('State "other" can only use command, allowed_commands and working_directory with command type states');
+    });
+
+    test('should match allowed commands word by word', () => {
+      expect(findDisallowedCommands('npx eslint src | sort', ['npx eslint', 'sort'])).toEqual([]);
+      expect(findDisallowedCommands('npx prettier src', ['npx eslint'])).toHaveLength(1);
+      expect(findDisallowedCommands('gitx status', ['git'])).toHaveLength(1);
+      expect(findDisallowedCommands('git log 2>&1 | grep "fix; feat"', ['git', 'grep'])).toEqual([]);
+    });
+  });
+
+  describe('Execution', () => {
+    test('should capture stdout, stderr and the exit code', async () => {
+      const { context } = await run(buildSpec({ command: 'sh -c "printf out; printf err >&2"' }));
+
+      expect(context.result).toEqual({ stdout: 'out', stderr: 'err', exit_code: 0 });
+    });
+
+    test('should pass interpolated values as single quoted arguments', async () => {
+      const { context } = await run(buildSpec(), { value: "it's; printf injected $HOME" });
+
+      expect(context.result.stdout).toBe("it's; printf injected $HOME");
+    });
+
+    test('should fail instead of passing values that start with "-" as options', async () => {
+      const spec = buildSpec({ command: 'printf %s {{value}}', on_error: 'report' });
+      spec.states.report = { type: 'transition', next: 'end' };
+
+      const { errors, history, context } = await run(spec, { value: '--output=/tmp/injected' });
+
+      expect(errors).toEqual(['Error in state "run": Command values cannot start with "-", as they would be read as options (got "--output=/tmp/injected")']);
+      expect(history).toEqual(['run', 'report']);
+      expect(context.result).toBeUndefined();
+    });
+
+    test('should run in the run directory, or in working_directory relative to the workflow', async () => {
+      const inRunDirectory = await run(buildSpec({ command: 'pwd' }));
+      expect(inRunDirectory.context.result.stdout.trim()).toBe(runDirectory);
+
+      fs.mkdirSync(path.join(runDirectory, 'repo'));
+      const inRepo = await runToEnd(createExecutor(
+        buildSpec({ command: 'pwd', working_directory: 'repo' }),
+        { workflowDir: runDirectory }
+      ));
+      expect(inRepo.context.result.stdout.trim()).toBe(path.join(runDirectory, 'repo'));
+    });
+
+    test('should go to on_error with the output saved when the exit code is not zero', async () => {
+      const spec = buildSpec({ command: 'sh -c "echo broken >&2; exit 3"', on_error: 'report' });
+      spec.states.report = { type: 'transition', next: 'end' };
+
+      const { errors, context, history } = await run(spec);
+
+      expect(errors).toEqual(['Error in state "run": Command exited with code 3: broken']);
+      expect(context.result).toEqual({ stdout: '', stderr: 'broken\n', exit_code: 3 });
+      expect(history).toEqual(['run', 'report']);
+    });
+
+    test('should fail instead of running placeholders of undefined variables', async () => {
+      const { status, error } = await run(buildSpec());
+
+      expect(status).toBe('failed');
+      expect(error).toContain('Undefined variable "value"');
+    });
+
+    test('should kill commands that run longer than timeout_ms', async () => {
+      const { error } = await run(buildSpec({ command: 'sleep 5', timeout_ms: 100 }));
+
+      expect(error).toContain('Command timed out after 100ms');
+    });
+
+    test('should kill the command when the run is stopped', async () => {
+      const executor = createExecutor(buildSpec({ command: 'sleep 5' }), { runDirectory });
+      executor.on('stateStart', () => setTimeout(() => executor.stop(), 50));
+      const startedAt = Date.now();
+
+      const { status } = await runToEnd(executor);
+
+      expect(status).toBe('stopped');
+      expect(Date.now() - startedAt).toBeLessThan(2000);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+const WorkflowParser = require('../../dist/workflow/parser');
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { ConversationStore, resolveConversation, truncateHistory } = require('../../dist/utils/conversation');
+const { fakeOllamaClient, createExecutor, runToEnd, silenceOutput } = require('../helpers/workflow');
+
+describe('Conversation Memory', () => {
+  const parse = (spec) => WorkflowParser.parseWorkflowSpec(spec, { workflowDir: '', filePath: '', visitedFiles: new Set() });
+
+  describe('History truncation', () => {
+    const history = [
+      { role: 'user', content: 'aaaa' },
+      { role: 'assistant', content: 'bbbb' },
+      { role: 'user', content: 'cccc' },
+      { role: 'assistant', content: 'dddd' }
+    ];
+
+    test('should keep everything without limits', () => {
+      expect(truncateHistory(history)).toEqual(history);
+    });
+
+    test('should keep the most recent messages by count', () => {
+      expect(truncateHistory(history, 2)).toEqual(history.slice(2));
+    });
+
+    test('should drop the oldest messages to fit the character budget', () => {
+      expect(truncateHistory(history, undefined, 12)).toEqual(history.slice(2));
+      expect(truncateHistory(history, undefined, 3)).toEqual([]);
+    });
+
+    test('should never start with an assistant message', () => {
+      expect(truncateHistory(history, 3)).toEqual(history.slice(2));
+    });
+  });
+
+  describe('Configuration', () => {
+    test('should merge state settings over workflow settings', () => {
+      const workflowConfig = { system: 'Be brief', maxMessages: 10 };
+      expect(resolveConversation(workflowConfig, undefined)).toEqual({ name: 'default', system: 'Be brief', maxMessages: 10 });
+      expect(resolveConversation(workflowConfig, { name: 'critic', maxMessages: undefined, reset: true }))
+        .toEqual({ name: 'critic', system: 'Be brief', maxMessages: 10, reset: true });
+    });
+
+    test('should let states opt out', () => {
+      expect(resolveConversation({ name: 'main' }, false)).toBeUndefined();
+      expect(resolveConversation(undefined, undefined)).toBeUndefined();
+    });
+
+    test('should fork and reset histories', () => {
+      const store = new ConversationStore();
+      store.append('main', 'Hi', 'Hello');
+      store.prepare({ name: 'copy', forkFrom: 'main' });
+      store.append('copy', 'More', 'Sure');
+
+      expect(store.getHistory('main')).toHaveLength(2);
+      expect(store.getHistory('copy')).toHaveLength(4);
+
+      store.prepare({ name: 'main', reset: true });
+      expect(store.getHistory('main')).toEqual([]);
+    });
+
+    test('should only reset or fork in the first of several steps', () => {
+      const workflow = parse({
+        name: 'Steps',
+        start_state: 'chat',
+        states: {
+          chat: {
+            type: 'prompt',
+            conversation: { name: 'story', reset: true },
+            steps: [{ prompt: 'One' }, { prompt: 'Two' }],
+            next: 'end'
+          }
+        }
+      });
+
+      expect(workflow.states.chat.conversation).toEqual(expect.objectContaining({ name: 'story', reset: true }));
+      expect(workflow.states.chat_step_1.conversation).toEqual({ name: 'story', system: undefined, maxMessages: undefined, maxChars: undefined });
+    });
+  });
+
+  describe('Validation', () => {
+    const buildSpec = (extra = {}, state = {}) => ({
+      name: 'Conversation Test',
+      start_state: 'chat',
+      ...extra,
+      states: {
+        chat: { type: 'prompt', prompt: 'Hello', next: 'end', ...state },
+        ask: { type: 'input', prompt: 'Name?', next: 'end' }
+      }
+    });
+    const validate = (extra, state) => () => WorkflowValidator.validateWorkflowSpec(buildSpec(extra, state));
+
+    test('should accept workflow and state conversations', () => {
+      expect(validate({ conversation: { system: 'You are helpful', max_messages: 20, max_chars: 8000 } })).not.toThrow();
+      expect(validate({}, { conversation: 'main' })).not.toThrow();
+      expect(validate({}, { conversation: { name: 'critic', fork_from: 'main' } })).not.toThrow();
+      expect(validate({ conversation: 'main' }, { conversation: false })).not.toThrow();
+    });
+
+    test('should reject invalid limits', () => {
+      expect(validate({ conversation: { max_messages: 0 } }))
+        .toThrow('Workflow conversation max_messages must be a positive integer');
+      expect(validate({}, { conversation: { max_chars: 'lots' } }))
+        .toThrow('State "chat" conversation max_chars must be a positive integer');
+    });
+
+    test('should keep reset and fork_from on states', () => {
+      expect(validate({ conversation: { reset: true } })).toThrow('Workflow conversation cannot use reset or fork_from');
+      expect(validate({ conversation: false })).toThrow('Workflow conversation must be an object or a conversation name');
+      expect(validate({}, { conversation: { reset: true, fork_from: 'main' } })).toThrow('cannot use both reset and fork_from');
+      expect(validate({}, { conversation: { name: 'main', fork_from: 'main' } })).toThrow('cannot fork from itself');
+    });
+
+    test('should reject conversations on states that do not call the model', () => {
+      const spec = buildSpec();
+      spec.states.ask.conversation = 'main';
+      expect(() => WorkflowValidator.validateWorkflowSpec(spec))
+        .toThrow('State "ask" can only use conversation with prompt and foreach type states');
+    });
+  });
+
+  describe('Execution', () => {
+    silenceOutput();
+
+    // Runs the workflow and returns the fake client, whose chat replies are numbered
+    const run = async (spec) => {
+      let reply = 0;
+      const client = fakeOllamaClient({
+        chat: async () => `Reply ${++reply}`,
+        generate: async () => 'Stateless reply'
+      });
+      await runToEnd(createExecutor(spec, { client }));
+      return client;
+    };
+
+    test('should send the history and system prompt through chat', async () => {
+      const { chat, generate } = await run({
+        name: 'Chat',
+        start_state: 'first',
+        variables: { persona: 'pirate' },
+        conversation: { system: 'You are a {{persona}}.' },
+        states: {
+          first: { type: 'prompt', prompt: 'Hello', next: 'second' },
+          second: { type: 'prompt', prompt: 'What did I say?', next: 'end' }
+        }
+      });
+
+      expect(chat).toHaveBeenCalledTimes(2);
+      expect(chat.mock.calls[1][1]).toEqual([
+        { role: 'system', content: 'You are a pirate.' },
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Reply 1' },
+        { role: 'user', content: 'What did I say?', images: undefined }
+      ]);
+      expect(generate).not.toHaveBeenCalled();
+    });
+
+    test('should keep separate named conversations and honor opt-outs', async () => {
+      const { chat, generate } = await run({
+        name: 'Named',
+        start_state: 'writer',
+        conversation: 'writer',
+        states: {
+          writer: { type: 'prompt', prompt: 'Write a poem', next: 'critic' },
+          critic: { type: 'prompt', prompt: 'Critique it', conversation: { name: 'critic', fork_from: 'writer' }, next: 'aside' },
+          aside: { type: 'prompt', prompt: 'Unrelated question', conversation: false, next: 'revise' },
+          revise: { type: 'prompt', prompt: 'Revise the poem', next: 'follow_up' },
+          follow_up: { type: 'prompt', prompt: 'Anything else?', conversation: 'critic', next: 'end' }
+        }
+      });
+
+      const calls = chat.mock.calls.map(call => call[1].map(message => message.content));
+      expect(calls[1]).toEqual(['Write a poem', 'Reply 1', 'Critique it']);
+      expect(calls[2]).toEqual(['Write a poem', 'Reply 1', 'Revise the poem']);
+      expect(calls[3]).toEqual(['Write a poem', 'Reply 1', 'Critique it', 'Reply 2', 'Anything else?']);
+      expect(generate).toHaveBeenCalledTimes(1);
+    });
+
+    test('should truncate the history that is sent', async () => {
+      const { chat } = await run({
+        name: 'Truncated',
+        start_state: 'one',
+        conversation: { max_messages: 2 },
+        states: {
+          one: { type: 'prompt', prompt: 'One', next: 'two' },
+          two: { type: 'prompt', prompt: 'Two', next: 'three' },
+          three: { type: 'prompt', prompt: 'Three', next: 'four' },
+          // The whole history is kept, so a later state with a larger limit sees all of it
+          four: { type: 'prompt', prompt: 'Four', conversation: { max_messages: 10 }, next: 'end' }
+        }
+      });
+
+      const calls = chat.mock.calls.map(call => call[1].map(message => message.content));
+      expect(calls[2]).toEqual(['Two', 'Reply 2', 'Three']);
+      expect(calls[3]).toEqual(['One', 'Reply 1', 'Two', 'Reply 2', 'Three', 'Reply 3', 'Four']);
+    });
+  });
+});
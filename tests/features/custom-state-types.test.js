@@ -0,0 +1,235 @@
+const WorkflowParser = require('../../dist/workflow/parser');
+const Tracer = require('../../dist/utils/tracer');
+const { registerStateType, unregisterStateType } = require('../../dist/workflow/state-types');
+const { createExecutor, runToEnd } = require('../helpers/workflow');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+describe('Custom State Types', () => {
+  let projectDir;
+  let workflowDir;
+
+  // Looks up a key in an in-memory table, routing to not_found when it is missing
+  const lookupHandler = `
+    const table = { a1: { name: 'Ada' }, g2: { name: 'Grace' } };
+    module.exports = {
+      validate(config) {
+        if (!config.key) {
+          throw new Error('lookup needs a key');
+        }
+      },
+      execute(config, context) {
+        context.trace('lookup_query', { key: config.key });
+        const row = table[config.key];
+        if (!row) {
+          return { next: config.not_found };
+        }
+        context.log('success', 'Found ' + row.name);
+        return { output: row };
+      }
+    };
+  `;
+
+  const writeFile = (fileName, content, dir = workflowDir) => {
+    const filePath = path.join(dir, fileName);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const parse = (spec) => WorkflowParser.parseWorkflowSpec(
+    { name: 'Lookup', start_state: 'find', default_model: 'test-model', ...spec },
+    { workflowDir, filePath: path.join(workflowDir, 'main.yaml'), visitedFiles: new Set() }
+  );
+
+  const lookupStates = {
+    find: { type: 'lookup', key: '{{user_key}}', not_found: 'missing', save_as: 'user', next: 'end' },
+    missing: { type: 'transition', next: 'end' }
+  };
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentmech-state-types-'));
+    workflowDir = path.join(projectDir, 'workflows');
+    fs.mkdirSync(workflowDir);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  describe('Loading', () => {
+    test('should load handlers listed in the workflow relative to the workflow file', () => {
+      writeFile('states/lookup.js', lookupHandler);
+
+      const workflow = parse({ state_types: { lookup: './states/lookup.js' }, states: lookupStates });
+
+      expect(typeof workflow.stateTypes.lookup.execute).toBe('function');
+      expect(workflow.states.find.config).toEqual({ key: '{{user_key}}', not_found: 'missing' });
+    });
+
+    test('should load handlers from the nearest agentmech.config.json', () => {
+      writeFile('handlers/lookup.js', lookupHandler, projectDir);
+      writeFile('agentmech.config.json', JSON.stringify({ state_types: { lookup: './handlers/lookup.js' } }), projectDir);
+
+      const workflow = parse({ states: lookupStates });
+
+      expect(workflow.stateTypes.lookup).toBeDefined();
+    });
+
+    test('should prefer the workflow\'s handlers over the config file\'s', () => {
+      writeFile('handlers/lookup.js', 'module.exports = { source: "config", execute() {} };', projectDir);
+      writeFile('agentmech.config.json', JSON.stringify({ state_types: { lookup: './handlers/lookup.js' } }), projectDir);
+      writeFile('states/lookup.js', 'module.exports = { source: "workflow", execute() {} };');
+
+      const workflow = parse({ state_types: { lookup: './states/lookup.js' }, states: lookupStates });
+
+      expect(workflow.stateTypes.lookup.source).toBe('workflow');
+    });
+
+    test('should transpile TypeScript handlers, resolving their imports from the handler\'s directory', async () => {
+      writeFile('states/shout.js', 'exports.shout = text => text.toUpperCase();');
+      writeFile('states/upper.ts', `
+        import { shout } from './shout';
+        interface UpperConfig { text: string }
+        export default {
+          execute(config: UpperConfig) {
+            return { output: shout(config.text) };
+          }
+        };
+      `);
+      const workflow = parse({
+        state_types: { upper: './states/upper.ts' },
+        start_state: 'shout',
+        states: { shout: { type: 'upper', text: 'hello {{name}}', save_as: 'loud', next: 'end' } },
+        variables: { name: { value: 'ada' } }
+      });
+
+      const { context } = await runToEnd(createExecutor(workflow));
+
+      expect(context.loud).toBe('HELLO ADA');
+    });
+
+    test('should reject modules that cannot be loaded or are not handlers', () => {
+      expect(() => parse({ state_types: { lookup: './nope.js' }, states: lookupStates }))
+        .toThrow(/Failed to load State type "lookup" from .*nope\.js/);
+
+      writeFile('states/empty.js', 'module.exports = {};');
+      expect(() => parse({ state_types: { lookup: './states/empty.js' }, states: lookupStates }))
+        .toThrow('State type "lookup" must export an execute function');
+    });
+
+    test('should not allow replacing built-in state types', () => {
+      writeFile('states/lookup.js', lookupHandler);
+      expect(() => parse({ state_types: { prompt: './states/lookup.js' }, states: lookupStates }))
+        .toThrow('State type "prompt" is built in and cannot be replaced');
+    });
+  });
+
+  describe('Validation', () => {
+    test('should list custom types among the valid types', () => {
+      writeFile('states/lookup.js', lookupHandler);
+      expect(() => parse({
+        state_types: { lookup: './states/lookup.js' },
+        states: { find: { type: 'lokup', key: 'a1', next: 'end' } }
+      })).toThrow('State "find" has invalid type "lokup". Must be one of: prompt, input, workflow_ref, call, transition, parallel, foreach, script, command, http, approval, map_reduce, lookup');
+    });
+
+    test('should run the handler\'s own validation', () => {
+      writeFile('states/lookup.js', lookupHandler);
+      expect(() => parse({
+        state_types: { lookup: './states/lookup.js' },
+        states: { find: { type: 'lookup', next: 'end' } }
+      })).toThrow('State "find": lookup needs a key');
+    });
+  });
+
+  describe('Execution', () => {
+    const createLookupExecutor = (userKey, tracer) => {
+      writeFile('states/lookup.js', lookupHandler);
+      const workflow = parse({ state_types: { lookup: './states/lookup.js' }, states: lookupStates });
+      return createExecutor(workflow, { inputs: { user_key: userKey }, tracer });
+    };
+
+    test('should pass the interpolated config and store the output', async () => {
+      const tracer = new Tracer(true);
+      const executor = createLookupExecutor('g2', tracer);
+      const completed = [];
+      executor.on('stateComplete', event => completed.push(event));
+
+      const { context } = await runToEnd(executor);
+
+      expect(context.user).toEqual({ name: 'Grace' });
+      expect(completed[0]).toEqual(expect.objectContaining({ state: 'find', stateType: 'lookup', next: 'end', output: { name: 'Grace' } }));
+      expect(tracer.getEvents()).toContainEqual(expect.objectContaining({ type: 'lookup_query', details: { state: 'find', key: 'g2' } }));
+    });
+
+    test('should follow the next state the handler chooses', async () => {
+      const { history, context } = await runToEnd(createLookupExecutor('zz'));
+
+      expect(history).toEqual(['find', 'missing']);
+      expect(context.user).toBeUndefined();
+    });
+
+    test('should follow the handler\'s choice over switch', async () => {
+      writeFile('states/lookup.js', lookupHandler);
+      const workflow = parse({
+        state_types: { lookup: './states/lookup.js' },
+        states: { ...lookupStates, find: { ...lookupStates.find, switch: [{ when: 'true', next: 'end' }] } }
+      });
+
+      const { history } = await runToEnd(createExecutor(workflow, { inputs: { user_key: 'zz' } }));
+
+      expect(history).toEqual(['find', 'missing']);
+    });
+
+    test('should fail the state when the handler chooses a state that does not exist', async () => {
+      writeFile('states/wander.js', 'module.exports = { execute: () => ({ next: "nowhere" }) };');
+      const workflow = parse({ state_types: { wander: './states/wander.js' }, states: { find: { type: 'wander', next: 'end' } } });
+
+      const { error } = await runToEnd(createExecutor(workflow));
+
+      expect(error).toContain('State type "wander" chose non-existent next state "nowhere"');
+    });
+
+    test('should abort the handler\'s signal when the run is stopped', async () => {
+      writeFile('states/wait.js', `
+        module.exports = {
+          execute: (config, context) => new Promise((resolve, reject) => {
+            context.signal.addEventListener('abort', () => reject(context.signal.reason));
+          })
+        };
+      `);
+      const workflow = parse({ state_types: { wait: './states/wait.js' }, states: { find: { type: 'wait', next: 'end' } } });
+      const executor = createExecutor(workflow);
+      executor.on('stateStart', () => setImmediate(() => executor.stop()));
+
+      const { status } = await runToEnd(executor);
+
+      expect(status).toBe('stopped');
+    });
+  });
+
+  describe('registerStateType', () => {
+    afterEach(() => {
+      unregisterStateType('shout');
+    });
+
+    test('should make the type available to workflows loaded afterwards', async () => {
+      registerStateType('shout', { execute: config => ({ output: `${config.text}!` }) });
+      const workflow = parse({ start_state: 'say', states: { say: { type: 'shout', text: 'hi', save_as: 'said', next: 'end' } } });
+
+      const { context } = await runToEnd(createExecutor(workflow));
+
+      expect(context.said).toBe('hi!');
+    });
+
+    test('should reject handlers without an execute function', () => {
+      expect(() => registerStateType('shout', {})).toThrow('State type "shout" must export an execute function');
+    });
+  });
+});
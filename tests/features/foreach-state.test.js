@@ -0,0 +1,172 @@
+const WorkflowParser = require('../../dist/workflow/parser');
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { specFactory, createExecutor, runToEnd, silenceOutput } = require('../helpers/workflow');
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+const yaml = require('js-yaml');
+
+describe('Foreach State', () => {
+  const buildSpec = specFactory({
+    name: 'Foreach Test',
+    start_state: 'each_doc',
+    states: {
+      each_doc: {
+        type: 'foreach',
+        items: 'docs',
+        steps: [
+          { prompt: 'Summarize {{item}}', save_as: 'summary' },
+          { prompt: '{{index}}: {{summary}}' }
+        ],
+        save_as: 'results',
+        next: 'end'
+      }
+    }
+  });
+
+  describe('Validation', () => {
+    test('should accept items and steps', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec())).not.toThrow();
+    });
+
+    test('should allow a single step', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ steps: [{ prompt: 'Summarize {{item}}' }] })))
+        .not.toThrow();
+    });
+
+    test('should require items', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ items: undefined })))
+        .toThrow('Foreach state "each_doc" must have a items field');
+    });
+
+    test('should require steps', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ steps: [] })))
+        .toThrow('must have a non-empty steps array');
+    });
+
+    test('should validate each step', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ steps: [{ save_as: 'x' }] })))
+        .toThrow('State "each_doc" step 1 must have a prompt or prompt_file field');
+    });
+
+    test('should reject steps of other state types', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ steps: [{ prompt: 'Hi' }, { type: 'script', script: 'return 1;' }] })))
+        .toThrow('State "each_doc" step 2 has type "script", but foreach steps can only be prompts');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ steps: [{ type: 'prompt', prompt: 'Hi' }] })))
+        .not.toThrow();
+    });
+
+    test('should reject items on other state types', () => {
+      const spec = buildSpec();
+      spec.states.other = { type: 'prompt', prompt: 'Hi', items: 'docs' };
+      expect(() => WorkflowValidator.validateWorkflowSpec(spec))
+        .toThrow('can only use items with foreach type states');
+    });
+  });
+
+  describe('Parsing', () => {
+    test('should expand steps into body states', () => {
+      const filePath = path.join(__dirname, '../../examples/foreach-documents.yaml');
+      const workflow = WorkflowParser.parseFile({ workflowDir: '', filePath, visitedFiles: new Set() });
+
+      const loop = workflow.states.summarize_topics;
+      expect(loop.type).toBe('foreach');
+      expect(loop.items).toBe('topics');
+      expect(loop.saveAs).toBe('summaries');
+      expect(loop.next).toBe('report');
+      expect(loop.body).toEqual(['summarize_topics_step_0', 'summarize_topics_step_1']);
+      expect(workflow.states.summarize_topics_step_0.type).toBe('prompt');
+      expect(workflow.states.summarize_topics_step_0.saveAs).toBe('explanation');
+      expect(workflow.states.summarize_topics_step_1.next).toBeUndefined();
+    });
+
+    test('should point the steps of referenced foreach states at their prefixed names', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentmech-foreach-'));
+      try {
+        fs.writeFileSync(path.join(dir, 'loop.yaml'), yaml.dump(buildSpec()));
+        fs.writeFileSync(path.join(dir, 'main.yaml'), yaml.dump({
+          name: 'Main',
+          start_state: 'docs_loop',
+          states: { docs_loop: { type: 'workflow_ref', workflow_ref: 'loop.yaml', next: 'end' } }
+        }));
+        const workflow = WorkflowParser.parseFile({ workflowDir: '', filePath: path.join(dir, 'main.yaml'), visitedFiles: new Set() });
+
+        const body = workflow.states.docs_loop_ref_each_doc.body;
+        expect(body).toEqual(['docs_loop_ref_each_doc_step_0', 'docs_loop_ref_each_doc_step_1']);
+        expect(body.every(step => workflow.states[step])).toBe(true);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Execution', () => {
+    silenceOutput();
+
+    const run = (docs, generate, inputs = {}) => runToEnd(createExecutor(buildSpec(), { generate, inputs: { docs, ...inputs } }));
+
+    test('should run the steps for each item and collect the last outputs', async () => {
+      const generate = jest.fn(async (model, prompt) => `<${prompt}>`);
+
+      const { status, context } = await run(['a', 'b'], generate);
+
+      expect(status).toBe('completed');
+      expect(generate.mock.calls.map(call => call[1])).toEqual([
+        'Summarize a', '0: <Summarize a>',
+        'Summarize b', '1: <Summarize b>'
+      ]);
+      expect(context.results).toEqual(['<0: <Summarize a>>', '<1: <Summarize b>>']);
+      expect(context.item).toBeUndefined();
+      expect(context.index).toBeUndefined();
+    });
+
+    test('should parse a JSON array wrapped in a code fence', async () => {
+      const generate = jest.fn(async () => 'ok');
+
+      await run('```json\n["x", {"id": 2}]\n```', generate);
+
+      expect(generate.mock.calls[0][1]).toBe('Summarize x');
+      expect(generate.mock.calls[2][1]).toBe('Summarize {"id":2}');
+    });
+
+    test('should split plain text into non-empty lines', async () => {
+      const generate = jest.fn(async () => 'ok');
+
+      const { context } = await run('first\n\n  second  \n', generate);
+
+      expect(context.results).toEqual(['ok', 'ok']);
+      expect(generate.mock.calls[2][1]).toBe('Summarize second');
+    });
+
+    test('should fail when the list variable is not defined', async () => {
+      const { error } = await run(undefined, jest.fn());
+
+      expect(error).toContain('List variable "docs" is not defined');
+    });
+
+    test('should not start further steps once the run is stopped', async () => {
+      let executor;
+      const generate = jest.fn(async () => {
+        executor.stop();
+        return 'ok';
+      });
+      executor = createExecutor(buildSpec(), { generate, inputs: { docs: ['a', 'b'] } });
+
+      const { status, history } = await runToEnd(executor);
+
+      expect(status).toBe('stopped');
+      expect(generate).toHaveBeenCalledTimes(1);
+      expect(history).toEqual(['each_doc', 'each_doc_step_0']);
+    });
+
+    test('should restore item and index after a step fails', async () => {
+      const generate = jest.fn(async () => { throw new Error('model unavailable'); });
+
+      const { error, context } = await run(['a'], generate, { item: 'outer' });
+
+      expect(error).toContain('model unavailable');
+      expect(context.item).toBe('outer');
+      expect(context.index).toBeUndefined();
+    });
+  });
+});
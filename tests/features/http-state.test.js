@@ -0,0 +1,177 @@
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const Tracer = require('../../dist/utils/tracer');
+const { HttpStatusError, classifyError } = require('../../dist/utils/retry');
+const { createExecutor, runToEnd } = require('../helpers/workflow');
+const http = require('http');
+
+describe('HTTP State', () => {
+  let server;
+  let baseUrl;
+  let requests;
+  let handle;
+
+  const buildSpec = (overrides = {}) => ({
+    name: 'HTTP Test',
+    start_state: 'fetch',
+    states: {
+      fetch: { type: 'http', url: `${baseUrl}/tickets/{{ticket_id}}`, save_as: 'ticket', next: 'end', ...overrides }
+    }
+  });
+
+  const run = (spec, inputs = {}, tracer) => runToEnd(createExecutor(spec, { inputs, tracer }));
+
+  const sendJson = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+        handle(req, res, body);
+      });
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    handle = (req, res) => sendJson(res, 200, { id: 7, title: 'Login fails' });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Validation', () => {
+    test('should accept a request with headers, query and body', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({
+        method: 'post',
+        headers: { Authorization: 'Bearer {{token}}' },
+        query: { verbose: 'true' },
+        body: { summary: '{{summary}}' }
+      }))).not.toThrow();
+    });
+
+    test('should require a url and a known method', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ url: undefined })))
+        .toThrow('HTTP state "fetch" must have a url field');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ method: 'FETCH' })))
+        .toThrow('HTTP state "fetch" method must be one of: GET, POST, PUT, PATCH, DELETE, HEAD');
+    });
+
+    test('should reject a body on GET requests and headers that are not text', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ body: 'hello' })))
+        .toThrow('HTTP state "fetch" cannot send a body with a GET request');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ headers: { 'X-Count': 3 } })))
+        .toThrow('HTTP state "fetch" header "X-Count" must be a string');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ query: ['a'] })))
+        .toThrow('HTTP state "fetch" query must be an object');
+    });
+
+    test('should reject request fields on other state types', () => {
+      const spec = buildSpec();
+      spec.states.other = { type: 'prompt', prompt: 'Hi', url: 'http://localhost' };
+      expect(() => WorkflowValidator.validateWorkflowSpec(spec))
+        .toThrow('State "other" can only use method, url, headers, query and body with http type states');
+    });
+  });
+
+  describe('Execution', () => {
+    test('should send the interpolated request and save status, headers and parsed body', async () => {
+      const spec = buildSpec({ headers: { 'X-Team': '{{team}}' }, query: { fields: 'title,{{extra}}' } });
+      const executor = createExecutor(spec, { inputs: { ticket_id: '7', team: 'core', extra: 'a&b' } });
+      const completed = [];
+      executor.on('stateComplete', event => completed.push(event));
+
+      const { context } = await runToEnd(executor);
+
+      expect(requests[0]).toEqual(expect.objectContaining({ method: 'GET', url: '/tickets/7?fields=title,a%26b' }));
+      expect(requests[0].headers['x-team']).toBe('core');
+      const ticket = context.ticket;
+      expect(ticket.status).toBe(200);
+      expect(ticket.headers['content-type']).toBe('application/json');
+      expect(ticket.body).toEqual({ id: 7, title: 'Login fails' });
+      expect(completed[0].output).toEqual(ticket);
+    });
+
+    test('should send object bodies as JSON, keeping the type of whole-value placeholders', async () => {
+      handle = (req, res) => {
+        res.writeHead(201, { 'Content-Type': 'text/plain' });
+        res.end('created');
+      };
+      const spec = buildSpec({ method: 'POST', url: `${baseUrl}/tickets/{{ticket_id}}/comments`, body: { text: 'Summary: {{summary}}', tags: '{{tags}}' } });
+
+      const { context } = await run(spec, { ticket_id: '7', summary: 'fixed', tags: ['auth', 'ui'] });
+
+      expect(requests[0].headers['content-type']).toContain('application/json');
+      expect(JSON.parse(requests[0].body)).toEqual({ text: 'Summary: fixed', tags: ['auth', 'ui'] });
+      expect(context.ticket).toEqual(expect.objectContaining({ status: 201, body: 'created' }));
+    });
+
+    test('should go to on_error with the response saved when the status is an error', async () => {
+      handle = (req, res) => sendJson(res, 404, { error: 'not found' });
+      const spec = buildSpec({ on_error: 'missing' });
+      spec.states.missing = { type: 'transition', next: 'end' };
+
+      const { errors, context, history } = await run(spec, { ticket_id: '99' });
+
+      expect(errors).toEqual(['Error in state "fetch": Request failed with status code 404']);
+      expect(context.ticket).toEqual(expect.objectContaining({ status: 404, body: { error: 'not found' } }));
+      expect(history).toEqual(['fetch', 'missing']);
+    });
+
+    test('should retry server errors under a retry policy', async () => {
+      handle = (req, res) => (requests.length < 3 ? sendJson(res, 503, { error: 'busy' }) : sendJson(res, 200, { id: 7 }));
+      const { context } = await run(buildSpec({ retry: { max_attempts: 3, backoff: 'fixed', initial_delay_ms: 1 } }), { ticket_id: '7' });
+
+      expect(requests).toHaveLength(3);
+      expect(context.ticket.body).toEqual({ id: 7 });
+    });
+
+    test('should classify error statuses by their code, not by the message wording', async () => {
+      expect(classifyError(new HttpStatusError(502))).toBe('connection');
+      expect(classifyError(new HttpStatusError(429))).toBeUndefined();
+
+      handle = (req, res) => sendJson(res, 404, { error: 'not found' });
+      const { error } = await run(buildSpec({ retry: { max_attempts: 3, backoff: 'fixed', initial_delay_ms: 1 } }), { ticket_id: '7' });
+
+      expect(requests).toHaveLength(1);
+      expect(error).toContain('Request failed with status code 404');
+    });
+
+    test('should cancel requests that take longer than timeout_ms', async () => {
+      handle = () => {};
+      const { status, error } = await run(buildSpec({ timeout_ms: 50 }), { ticket_id: '7' });
+
+      expect(status).toBe('failed');
+      expect(error).toContain('HTTP request timed out after 50ms');
+    });
+
+    test('should trace requests without their headers', async () => {
+      const tracer = new Tracer(true);
+      await run(buildSpec({ headers: { Authorization: 'Bearer secret' } }), { ticket_id: '7' }, tracer);
+
+      const event = tracer.getEvents().find(traced => traced.type === 'http_request');
+      expect(event.details).toEqual(expect.objectContaining({
+        state: 'fetch',
+        method: 'GET',
+        url: `${baseUrl}/tickets/7`,
+        status: 200,
+        response_body: '{"id":7,"title":"Login fails"}',
+        success: true
+      }));
+      expect(JSON.stringify(event.details)).not.toContain('secret');
+    });
+  });
+});
@@ -0,0 +1,186 @@
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { interpolate, findTemplateErrors } = require('../../dist/utils/interpolation');
+const { RAGService } = require('../../dist/rag/rag-service');
+const { createExecutor, runToEnd, silenceOutput } = require('../helpers/workflow');
+
+describe('Variable Interpolation', () => {
+  describe('Paths', () => {
+    const context = {
+      name: 'Alice',
+      count: 0,
+      empty: '',
+      result: { title: 'Dune', authors: ['Frank Herbert'] },
+      items: [{ name: 'first' }, { name: 'second' }]
+    };
+
+    test('should resolve dotted and indexed paths', () => {
+      expect(interpolate('{{result.title}}', context)).toBe('Dune');
+      expect(interpolate('{{result.authors[0]}}', context)).toBe('Frank Herbert');
+      expect(interpolate('{{items[1].name}} and {{items.0.name}}', context)).toBe('second and first');
+    });
+
+    test('should render numbers, empty strings and objects', () => {
+      expect(interpolate('{{count}}', context)).toBe('0');
+      expect(interpolate('[{{empty}}]', context)).toBe('[]');
+      expect(interpolate('{{result.authors}}', context)).toBe('["Frank Herbert"]');
+    });
+
+    test('should preserve placeholders for undefined variables', () => {
+      expect(interpolate('{{name}} and {{unknown}} and {{result.missing}}', context))
+        .toBe('Alice and {{unknown}} and {{result.missing}}');
+    });
+
+    test('should leave text that is not a variable path untouched', () => {
+      expect(interpolate('{{ }} {{1 + 2}} {{name}}', context)).toBe('{{ }} {{1 + 2}} Alice');
+    });
+
+    test('should allow whitespace inside the braces', () => {
+      expect(interpolate('{{ name }}', context)).toBe('Alice');
+    });
+  });
+
+  describe('Filters', () => {
+    const context = {
+      name: '  Bob  ',
+      text: 'abcdefghij',
+      tags: ['a', 'b', 'c'],
+      list: '- one\n\n- two\n',
+      data: { score: 9 }
+    };
+
+    test('should apply defaults to missing and empty values', () => {
+      expect(interpolate('Hi {{nickname | default: "friend"}}', context)).toBe('Hi friend');
+      expect(interpolate("{{blank | default: 'n/a'}}", { blank: '' })).toBe('n/a');
+      expect(interpolate('{{name | default: "friend"}}', context)).toBe('  Bob  ');
+      expect(interpolate('{{limit | default: 5}}', context)).toBe('5');
+    });
+
+    test('should apply text filters in order', () => {
+      expect(interpolate('{{name | trim | upper}}', context)).toBe('BOB');
+      expect(interpolate('{{name | trim | lower}}', context)).toBe('bob');
+      expect(interpolate('{{text | truncate: 4}}', context)).toBe('abcd...');
+      expect(interpolate('{{text | truncate: 20}}', context)).toBe('abcdefghij');
+    });
+
+    test('should format values as JSON', () => {
+      expect(interpolate('{{data | json}}', context)).toBe('{\n  "score": 9\n}');
+      expect(interpolate('{{text | json}}', context)).toBe('"abcdefghij"');
+    });
+
+    test('should split lines and join lists', () => {
+      expect(interpolate('{{tags | join}}', context)).toBe('a, b, c');
+      expect(interpolate('{{tags | join: " | "}}', context)).toBe('a | b | c');
+      expect(interpolate('{{list | lines | join: "\\n"}}', context)).toBe('- one\n- two');
+      expect(interpolate('{{list | lines}}', context)).toBe('["- one","- two"]');
+    });
+
+    test('should skip other filters for missing values until a default', () => {
+      expect(interpolate('{{missing | upper}}', context)).toBe('{{missing | upper}}');
+      expect(interpolate('{{missing | upper | default: "none"}}', context)).toBe('none');
+    });
+
+    test('should report unknown filters and bad arguments', () => {
+      expect(() => interpolate('{{name | shout}}', context)).toThrow('Unknown filter "shout"');
+      expect(findTemplateErrors('{{text | truncate}}')[0]).toContain('expects 1 argument(s) but got 0');
+      expect(findTemplateErrors('{{text | truncate: "long"}}')[0]).toContain('positive integer length');
+      expect(findTemplateErrors('{{name | default: friend}}')[0]).toContain('Invalid filter argument "friend"');
+      expect(findTemplateErrors('{{name | default: "a|b"}} {{tags | join: ","}}')).toEqual([]);
+    });
+  });
+
+  describe('Strict mode', () => {
+    test('should throw for undefined variables', () => {
+      expect(() => interpolate('Hello {{user.name}}', {}, { strict: true }))
+        .toThrow('Undefined variable "user.name" in {{user.name}}');
+    });
+
+    test('should accept defaults and defined values', () => {
+      expect(interpolate('{{a}} {{b | default: "x"}}', { a: 'ok' }, { strict: true })).toBe('ok x');
+    });
+  });
+
+  describe('Validation', () => {
+    const buildSpec = (extra = {}, state = {}) => ({
+      name: 'Interpolation Test',
+      start_state: 'ask',
+      ...extra,
+      states: {
+        ask: { type: 'prompt', prompt: 'Summarize {{text | truncate: 100}}', next: 'end', ...state }
+      }
+    });
+
+    test('should accept valid placeholders and strict_variables', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ strict_variables: true }))).not.toThrow();
+    });
+
+    test('should reject non-boolean strict_variables', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ strict_variables: 'yes' })))
+        .toThrow('Workflow strict_variables must be a boolean');
+    });
+
+    test('should reject unknown filters in prompts', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({}, { prompt: '{{text | bold}}' })))
+        .toThrow('State "ask" prompt has an invalid placeholder: Unknown filter "bold"');
+    });
+
+    test('should check step prompts and RAG templates', () => {
+      const steps = [{ prompt: 'One' }, { prompt: '{{x | truncate: 0}}' }];
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({}, { prompt: undefined, steps })))
+        .toThrow('State "ask" step 2 prompt has an invalid placeholder');
+
+      const rag = { directory: './docs', chunk_template: '{{chunk.text | wrap}}' };
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ rag: { docs: rag } })))
+        .toThrow('RAG configuration chunk_template has an invalid placeholder');
+    });
+  });
+
+  describe('Executor', () => {
+    silenceOutput();
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    const buildSpec = (extra = {}) => ({
+      name: 'Strict Test',
+      start_state: 'greet',
+      default_model: 'test-model',
+      ...extra,
+      states: {
+        greet: { type: 'prompt', prompt: 'Greet {{user.name | default: "friend"}} about {{topic}}', save_as: 'greeting', next: 'end' },
+        fallback: { type: 'transition', next: 'end' }
+      }
+    });
+
+    test('should send the interpolated prompt to the model', async () => {
+      const generate = jest.fn(async () => 'Hello!');
+
+      await runToEnd(createExecutor(buildSpec(), { generate, inputs: { topic: 'gardening' } }));
+
+      expect(generate.mock.calls[0][1]).toBe('Greet friend about gardening');
+    });
+
+    test('should fail the state for undefined variables in strict mode', async () => {
+      const generate = jest.fn(async () => 'Hello!');
+
+      const { history, errors } = await runToEnd(createExecutor(buildSpec({ strict_variables: true, on_error: 'fallback' }), { generate }));
+
+      expect(generate).not.toHaveBeenCalled();
+      expect(history).toEqual(['greet', 'fallback']);
+      expect(errors).toEqual([expect.stringContaining('Undefined variable "topic"')]);
+    });
+  });
+
+  describe('RAG templates', () => {
+    test('should support filters in chunk and context templates', () => {
+      const ragService = new RAGService({
+        directory: './test',
+        chunkTemplate: '{{number}}. {{chunk.source | upper}}: {{chunk.text | truncate: 5}}',
+        contextTemplate: '{{prompt | default: "Context"}}:\n{{chunks}}'
+      });
+      const formatted = ragService.formatContext([{ id: 'c1', text: 'Hello world', source: 'a.md' }]);
+
+      expect(formatted).toBe('Context:\n1. A.MD: Hello...');
+    });
+  });
+});
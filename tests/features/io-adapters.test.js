@@ -0,0 +1,148 @@
+const { MockAdapter } = require('../../dist/io/mock-adapter');
+const { SseAdapter } = require('../../dist/io/sse-adapter');
+const { TerminalAdapter } = require('../../dist/io/terminal-adapter');
+const { createExecutor: createWorkflowExecutor, runToEnd } = require('../helpers/workflow');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+const yaml = require('js-yaml');
+
+describe('I/O Adapters', () => {
+  let workflowDir;
+
+  const createExecutor = (spec) => createWorkflowExecutor({ default_model: 'test-model', ...spec }, {
+    workflowDir,
+    generate: async (model, prompt, options, images, onToken) => {
+      if (onToken) {
+        onToken(`Re: ${prompt}`);
+      }
+      return `Re: ${prompt}`;
+    }
+  });
+
+  // Asks for a topic, then writes about each of two angles of it
+  const topicSpec = {
+    name: 'Angles',
+    start_state: 'ask_topic',
+    states: {
+      ask_topic: { type: 'input', prompt: 'Topic?', save_as: 'topic', next: 'angles' },
+      angles: { type: 'foreach', items: 'angle_list', steps: [{ prompt: 'Write about {{topic}} from {{item}}' }], save_as: 'pieces', next: 'end' }
+    },
+    variables: { angle_list: { value: 'science\nhistory' } }
+  };
+
+  const createSseResponse = (onEvent = () => {}) => {
+    const events = [];
+    return {
+      events,
+      writeHead: jest.fn(),
+      write: jest.fn(data => {
+        const event = JSON.parse(data.replace(/^data: /, ''));
+        events.push(event);
+        onEvent(event);
+      }),
+      end: jest.fn()
+    };
+  };
+
+  beforeEach(() => {
+    workflowDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentmech-adapters-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(workflowDir, { recursive: true, force: true });
+  });
+
+  test('should run every state type the same way with any adapter', async () => {
+    const mocked = createExecutor(topicSpec);
+    mocked.setAdapter(new MockAdapter({ ask_topic: 'tides' }));
+    const mockedRun = await runToEnd(mocked);
+
+    const web = createExecutor(topicSpec);
+    let adapter;
+    const res = createSseResponse(event => {
+      if (event.type === 'input') {
+        setImmediate(() => adapter.provideInput('tides'));
+      }
+    });
+    adapter = new SseAdapter(res, 'session-1');
+    web.setAdapter(adapter);
+    const webRun = await runToEnd(web);
+
+    const expected = ['Re: Write about tides from science', 'Re: Write about tides from history'];
+    expect(mockedRun.context.pieces).toEqual(expected);
+    expect(webRun.context.pieces).toEqual(expected);
+    expect(res.events.map(event => event.type)).toContain('complete');
+    expect(res.end).toHaveBeenCalledTimes(1);
+  });
+
+  test('should answer input states and record events with the mock adapter', async () => {
+    const executor = createExecutor(topicSpec);
+    const adapter = new MockAdapter({ ask_topic: 'tides' });
+    executor.setAdapter(adapter);
+
+    await executor.execute();
+
+    expect(adapter.getEvents('inputRequested').map(recorded => recorded.event)).toEqual([
+      { state: 'ask_topic', prompt: 'Topic?', defaultValue: undefined }
+    ]);
+    expect(adapter.getEvents('stateStart').map(recorded => recorded.event.state)).toEqual(['ask_topic', 'angles']);
+    expect(adapter.getResult()).toEqual(expect.objectContaining({ status: 'completed', history: ['ask_topic', 'angles', 'angles_step_0', 'angles_step_0'] }));
+  });
+
+  test('should run headless by default, failing input states that have no answer', async () => {
+    const executor = createExecutor(topicSpec);
+
+    await expect(executor.execute()).rejects.toThrow('Input state "ask_topic" needs an answer, but the run is non-interactive');
+
+    const withInput = createExecutor(topicSpec);
+    withInput.setInputs({ topic: 'tides' });
+    const { context } = await runToEnd(withInput);
+    expect(context.pieces).toHaveLength(2);
+  });
+
+  test('should share the adapter with called workflows and close it once', async () => {
+    fs.writeFileSync(path.join(workflowDir, 'ask.yaml'), yaml.dump({
+      name: 'Ask',
+      start_state: 'ask_name',
+      states: { ask_name: { type: 'input', prompt: 'Name?', save_as: 'name', next: 'end' } }
+    }));
+    const executor = createExecutor({
+      name: 'Main',
+      start_state: 'ask',
+      states: { ask: { type: 'call', workflow: 'ask.yaml', outputs: { name: 'name' }, next: 'end' } }
+    });
+    const adapter = new MockAdapter({ ask_name: 'Ada' });
+    adapter.close = jest.fn();
+    executor.setAdapter(adapter);
+
+    const { context } = await runToEnd(executor);
+
+    expect(context.name).toBe('Ada');
+    expect(adapter.getEvents('stateStart').map(recorded => recorded.event.state)).toEqual(['ask', 'ask_name']);
+    expect(adapter.getEvents('workflowEnd')).toHaveLength(1);
+    expect(adapter.close).toHaveBeenCalledTimes(1);
+  });
+
+  test('should print the run and stream responses with the terminal adapter', async () => {
+    const executor = createExecutor({
+      name: 'Greeting',
+      start_state: 'greet',
+      states: { greet: { type: 'prompt', prompt: 'Say hi', next: 'end' } }
+    });
+    executor.setAdapter(new TerminalAdapter());
+
+    await executor.execute();
+
+    const printed = console.log.mock.calls.map(args => args.join(' ')).join('\n');
+    expect(printed).toContain('Starting Workflow: Greeting');
+    expect(printed).toContain('Prompt: Say hi');
+    expect(printed).toContain('Workflow Completed');
+    expect(process.stdout.write).toHaveBeenCalledWith('Re: Say hi');
+  });
+});
@@ -0,0 +1,173 @@
+const { runWorkflow, WorkflowParser, WorkflowExecutor, SseAdapter } = require('../../dist/index');
+const OllamaClient = require('../../dist/ollama/ollama-client');
+
+describe('Library API', () => {
+  const spec = {
+    name: 'Greeter',
+    start_state: 'ask_name',
+    default_model: 'test-model',
+    states: {
+      ask_name: { type: 'input', prompt: 'Who should I greet?', default_value: 'world', save_as: 'name', next: 'greet' },
+      greet: { type: 'prompt', prompt: 'Greet {{name}}', save_as: 'greeting', next: 'end' }
+    }
+  };
+
+  let generate;
+
+  beforeEach(() => {
+    // Stream the response in two tokens, like Ollama does
+    generate = jest.spyOn(OllamaClient.prototype, 'generate').mockImplementation(
+      async (model, prompt, options, images, onToken) => {
+        const response = `Hello from ${prompt}`;
+        if (onToken) {
+          onToken('Hello ');
+          onToken(response.slice('Hello '.length));
+        }
+        return response;
+      }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should emit typed events and resolve with the report of the run', async () => {
+    const events = [];
+    const tokens = [];
+    const run = runWorkflow(spec, { inputs: {}, onInput: () => 'Ada' })
+      .on('workflowStart', event => events.push(`workflowStart:${event.workflow}`))
+      .on('stateStart', event => events.push(`stateStart:${event.state}`))
+      .on('inputRequested', event => events.push(`inputRequested:${event.prompt}`))
+      .on('token', event => tokens.push(event.token))
+      .on('stateComplete', event => events.push(`stateComplete:${event.state}->${event.next}`))
+      .on('workflowEnd', event => events.push(`workflowEnd:${event.status}`));
+
+    const report = await run;
+
+    expect(events).toEqual([
+      'workflowStart:Greeter',
+      'stateStart:ask_name',
+      'inputRequested:Who should I greet?',
+      'stateComplete:ask_name->greet',
+      'stateStart:greet',
+      'stateComplete:greet->end',
+      'workflowEnd:completed'
+    ]);
+    expect(tokens.join('')).toBe('Hello from Greet Ada');
+    expect(report.status).toBe('completed');
+    expect(report.history).toEqual(['ask_name', 'greet']);
+    expect(report.context.greeting).toBe('Hello from Greet Ada');
+    expect(report.outputs).toEqual({ ask_name: 'Ada', greet: 'Hello from Greet Ada' });
+  });
+
+  test('should pass input requests to onInput and use the default for empty answers', async () => {
+    const onInput = jest.fn(async () => '');
+
+    const report = await runWorkflow(spec, { onInput });
+
+    expect(onInput).toHaveBeenCalledWith({ state: 'ask_name', prompt: 'Who should I greet?', defaultValue: 'world' });
+    expect(report.context.name).toBe('world');
+  });
+
+  test('should answer input states from inputs when there is no onInput', async () => {
+    const withoutDefault = {
+      ...spec,
+      states: { ...spec.states, ask_name: { type: 'input', prompt: 'Who?', save_as: 'name', next: 'greet' } }
+    };
+
+    const report = await runWorkflow(withoutDefault, { inputs: { name: 'Grace' } });
+    expect(report.context.greeting).toBe('Hello from Greet Grace');
+
+    await expect(runWorkflow(withoutDefault)).rejects.toThrow('Input state "ask_name" needs an answer');
+  });
+
+  test('should report state errors as error events', async () => {
+    generate.mockImplementation(async () => {
+      throw new Error('model unavailable');
+    });
+    const errors = [];
+
+    const run = runWorkflow(spec, { onInput: () => 'Ada' }).on('error', event => errors.push(event));
+
+    await expect(run).rejects.toThrow('model unavailable');
+    expect(errors).toEqual([expect.objectContaining({ state: 'greet', message: expect.stringContaining('model unavailable') })]);
+  });
+
+  test('should not leave an unhandled rejection when a failed run is only listened to', async () => {
+    generate.mockImplementation(async () => {
+      throw new Error('model unavailable');
+    });
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+
+    try {
+      const end = await new Promise(resolve => {
+        runWorkflow(spec, { onInput: () => 'Ada' }).on('workflowEnd', resolve);
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(end.status).toBe('failed');
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+
+  test('should stop the run when the signal is aborted', async () => {
+    const controller = new AbortController();
+
+    const report = await runWorkflow(spec, {
+      signal: controller.signal,
+      onInput: () => {
+        controller.abort();
+        return 'Ada';
+      }
+    });
+
+    expect(report.status).toBe('stopped');
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  test('should reject invalid inputs before the run starts', () => {
+    const withInputs = { ...spec, inputs: { words: { type: 'number' } } };
+    expect(() => runWorkflow(withInputs, { inputs: { words: 'many' } })).toThrow('Input "words" must be a number');
+  });
+
+  test('should not write to the console', async () => {
+    const log = jest.spyOn(console, 'log');
+    const write = jest.spyOn(process.stdout, 'write');
+
+    await runWorkflow(spec, { onInput: () => 'Ada' });
+
+    expect(log).not.toHaveBeenCalled();
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  test('should stream the events of web runs over SSE', async () => {
+    const workflow = WorkflowParser.parseWorkflowSpec(spec, { workflowDir: '', filePath: '', visitedFiles: new Set() });
+    const executor = new WorkflowExecutor(workflow, 'http://localhost:11434');
+    let adapter;
+    const sent = [];
+    const res = {
+      writeHead: jest.fn(),
+      write: jest.fn(data => {
+        const event = JSON.parse(data.replace(/^data: /, ''));
+        sent.push(event);
+        if (event.type === 'input') {
+          setImmediate(() => adapter.provideInput('Ada'));
+        }
+      }),
+      end: jest.fn()
+    };
+    adapter = new SseAdapter(res, 'session-1');
+    executor.setAdapter(adapter);
+
+    await executor.execute();
+
+    const types = sent.map(event => event.type);
+    expect(types).toEqual(expect.arrayContaining(['state_change', 'input', 'prompt_sent', 'response_start', 'response_token', 'response_end', 'complete']));
+    expect(sent.find(event => event.type === 'response_end').data.response).toBe('Hello from Greet Ada');
+    expect(res.end).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,160 @@
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { RAGService } = require('../../dist/rag/rag-service');
+const { createExecutor, runToEnd } = require('../helpers/workflow');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+describe('Map-Reduce State', () => {
+  const buildSpec = (overrides = {}) => ({
+    name: 'Map Reduce Test',
+    start_state: 'digest',
+    states: {
+      digest: {
+        type: 'map_reduce',
+        input: '{{report}}',
+        chunk_size: 20,
+        map_prompt: 'Summarize part {{index}}: {{chunk}}',
+        reduce_prompt: 'Combine: {{results}}',
+        save_as: 'summary',
+        next: 'end',
+        ...overrides
+      },
+      fallback: { type: 'transition', next: 'end' }
+    }
+  });
+
+  const run = (spec, generate, inputs = {}) => runToEnd(createExecutor(spec, { generate, inputs }));
+
+  // Map prompts are answered with the first word of their chunk, reduce prompts with what they combine
+  const echo = jest.fn(async (model, prompt) => {
+    const mapped = prompt.match(/^Summarize part \d+: (\S+)/);
+    return mapped ? mapped[1] : `[${prompt.replace('Combine: ', '').split('\n\n---\n\n').join('+')}]`;
+  });
+
+  beforeEach(() => {
+    echo.mockClear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Validation', () => {
+    test('should accept a map_reduce state with files and max_concurrency', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ input: undefined, files: ['report.pdf'], max_concurrency: 2 }))).not.toThrow();
+    });
+
+    test('should require text to split and both prompts', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ input: undefined })))
+        .toThrow('Map-reduce state "digest" must have an input or files field');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ reduce_prompt: undefined })))
+        .toThrow('Map-reduce state "digest" must have a reduce_prompt field');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ map_prompt: 'Summarize {{chunk | bold}}' })))
+        .toThrow('Map-reduce state "digest" map_prompt has an invalid placeholder');
+    });
+
+    test('should reject invalid chunk sizes and map_reduce fields on other state types', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ chunk_size: 0 })))
+        .toThrow('Map-reduce state "digest" chunk_size must be a positive integer');
+      const spec = buildSpec();
+      spec.states.fallback.map_prompt = 'Hi';
+      expect(() => WorkflowValidator.validateWorkflowSpec(spec))
+        .toThrow('State "fallback" can only use input, chunk_size, map_prompt and reduce_prompt with map_reduce type states');
+    });
+  });
+
+  describe('Chunking', () => {
+    test('should keep whole lines together and cut lines longer than the chunk size', () => {
+      expect(RAGService.chunkText('one\ntwo\nthree', 8)).toEqual(['one\ntwo', 'three']);
+      expect(RAGService.chunkText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+    });
+  });
+
+  describe('Execution', () => {
+    test('should map every chunk and save the reduced result', async () => {
+      const executor = createExecutor(buildSpec(), { generate: echo, inputs: { report: 'alpha one\nbeta two\ngamma three' } });
+      const completed = [];
+      executor.on('stateComplete', event => completed.push(event));
+
+      const { context } = await runToEnd(executor);
+
+      const prompts = echo.mock.calls.map(call => call[1]);
+      expect(prompts).toEqual([
+        'Summarize part 0: alpha one\nbeta two',
+        'Summarize part 1: gamma three',
+        'Combine: alpha\n\n---\n\ngamma'
+      ]);
+      expect(context.summary).toBe('[alpha+gamma]');
+      expect(context.chunk).toBeUndefined();
+      expect(completed[0].output).toBe('[alpha+gamma]');
+    });
+
+    test('should not interpolate placeholders inside the chunks', async () => {
+      const spec = { ...buildSpec({ chunk_size: 100 }), strict_variables: true };
+
+      await run(spec, echo, { report: 'values {{missing}} here' });
+
+      expect(echo.mock.calls[0][1]).toBe('Summarize part 0: values {{missing}} here');
+    });
+
+    test('should reduce partial results in groups until they fit in one chunk', async () => {
+      const report = Array.from({ length: 6 }, (_, i) => `word${i} ${'x'.repeat(10)}`).join('\n');
+
+      const { context } = await run(buildSpec(), echo, { report });
+
+      const reducePrompts = echo.mock.calls.map(call => call[1]).filter(prompt => prompt.startsWith('Combine'));
+      expect(reducePrompts).toHaveLength(5);
+      expect(context.summary).toBe('[[[word0+word1]+[word2+word3]]+[word4+word5]]');
+    });
+
+    test('should run at most max_concurrency map calls at the same time', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const generate = jest.fn(async (model, prompt) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        return prompt.startsWith('Combine') ? 'done' : 'ok';
+      });
+      const report = Array.from({ length: 5 }, (_, i) => `line ${i} ${'y'.repeat(12)}`).join('\n');
+
+      const { context } = await run(buildSpec({ max_concurrency: 2 }), generate, { report });
+
+      expect(generate.mock.calls.filter(call => call[1].startsWith('Summarize'))).toHaveLength(5);
+      expect(maxRunning).toBe(2);
+      expect(context.summary).toBe('done');
+    });
+
+    test('should split the text of files', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'map-reduce-'));
+      const file = path.join(dir, 'app.log');
+      fs.writeFileSync(file, 'error disk full\nwarn slow query');
+      try {
+        const { context } = await run(buildSpec({ input: undefined, files: [file] }), echo);
+
+        expect(echo.mock.calls.map(call => call[1])).toContain('Summarize part 0: error disk full');
+        expect(context.summary).toBe('[error+warn]');
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    test('should go to on_error naming the chunk that failed', async () => {
+      const generate = jest.fn(async (model, prompt) => {
+        if (prompt.includes('beta')) {
+          throw new Error('model crashed');
+        }
+        return 'ok';
+      });
+
+      const { errors, history } = await run(buildSpec({ on_error: 'fallback' }), generate, { report: 'alpha\nbeta beta beta beta' });
+
+      expect(errors).toEqual(['Error in state "digest": Chunk 2 of 2 failed: Failed to generate response: model crashed']);
+      expect(history).toEqual(['digest', 'fallback']);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Tests for MCP tool calling during prompt states
+ */
+
+const McpClient = require('../../dist/mcp/mcp-client');
+const { buildToolSet, runToolCallingLoop } = require('../../dist/mcp/tool-calling');
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const path = require('path');
+
+describe('MCP Tool Calling', () => {
+  describe('McpClient JSON-RPC transport', () => {
+    const serverScript = path.join(__dirname, '../../dist/mcp/custom-mcp-server.js');
+    const toolsDir = path.join(__dirname, '../../examples/custom-tools');
+    let client;
+
+    beforeEach(() => {
+      client = new McpClient();
+      client.registerServer('custom_tools', {
+        command: process.execPath,
+        args: [serverScript, toolsDir],
+        env: {}
+      });
+    });
+
+    afterEach(async () => {
+      await client.disconnectAll();
+    });
+
+    test('should list tools after connecting', async () => {
+      await client.connectServer('custom_tools');
+
+      const tools = client.getAvailableTools(['custom_tools']);
+      const names = tools.map(t => t.tool.name);
+      expect(names).toContain('calculator');
+      expect(tools[0].server).toBe('custom_tools');
+    });
+
+    test('should call a tool and return its text content', async () => {
+      await client.connectServer('custom_tools');
+
+      const result = await client.callTool('custom_tools', 'calculator', { operation: 'add', a: 2, b: 3 });
+      expect(JSON.parse(result).result).toBe(5);
+    });
+
+    test('should surface tool errors', async () => {
+      await client.connectServer('custom_tools');
+
+      await expect(
+        client.callTool('custom_tools', 'calculator', { operation: 'divide', a: 1, b: 0 })
+      ).rejects.toThrow('Division by zero');
+    });
+  });
+
+  describe('buildToolSet', () => {
+    test('should convert MCP tools to Ollama function definitions', () => {
+      const mcpClient = {
+        getAvailableTools: () => [
+          { server: 'math', tool: { name: 'add', description: 'Add numbers', inputSchema: { type: 'object', properties: { a: { type: 'number' } } } } }
+        ]
+      };
+
+      const toolSet = buildToolSet(mcpClient, ['math']);
+      expect(toolSet.definitions).toEqual([{
+        type: 'function',
+        function: {
+          name: 'add',
+          description: 'Add numbers',
+          parameters: { type: 'object', properties: { a: { type: 'number' } } }
+        }
+      }]);
+      expect(toolSet.routes.get('add')).toEqual({ server: 'math', tool: 'add' });
+    });
+
+    test('should qualify tool names that collide across servers', () => {
+      const mcpClient = {
+        getAvailableTools: () => [
+          { server: 'a', tool: { name: 'search' } },
+          { server: 'b', tool: { name: 'search' } }
+        ]
+      };
+
+      const toolSet = buildToolSet(mcpClient, ['a', 'b']);
+      expect(Array.from(toolSet.routes.keys())).toEqual(['a__search', 'b__search']);
+      expect(toolSet.routes.get('b__search')).toEqual({ server: 'b', tool: 'search' });
+    });
+  });
+
+  describe('runToolCallingLoop', () => {
+    const toolSet = {
+      definitions: [{ type: 'function', function: { name: 'add', description: 'Add', parameters: {} } }],
+      routes: new Map([['add', { server: 'math', tool: 'add' }]])
+    };
+
+    test('should execute tool calls and feed results back until a final answer', async () => {
+      const ollamaClient = {
+        chatWithTools: jest.fn()
+          .mockResolvedValueOnce({
+            role: 'assistant',
+            content: '',
+            tool_calls: [{ function: { name: 'add', arguments: { a: 2, b: 3 } } }]
+          })
+          .mockResolvedValueOnce({ role: 'assistant', content: 'The sum is 5' })
+      };
+      const mcpClient = { callTool: jest.fn().mockResolvedValue('5') };
+      const onToolCall = jest.fn();
+
+      const answer = await runToolCallingLoop(
+        ollamaClient, mcpClient, 'test-model',
+        [{ role: 'user', content: 'What is 2 + 3?' }],
+        toolSet,
+        { onToolCall }
+      );
+
+      expect(answer).toBe('The sum is 5');
+      expect(mcpClient.callTool).toHaveBeenCalledWith('math', 'add', { a: 2, b: 3 });
+      expect(onToolCall).toHaveBeenCalledWith(expect.objectContaining({ tool: 'add', result: '5' }));
+
+      const conversation = ollamaClient.chatWithTools.mock.calls[1][1];
+      expect(conversation[2]).toEqual({ role: 'tool', content: '5', tool_name: 'add' });
+      expect(ollamaClient.chatWithTools.mock.calls[0][2]).toBe(toolSet.definitions);
+    });
+
+    test('should report tool failures to the model instead of aborting', async () => {
+      const ollamaClient = {
+        chatWithTools: jest.fn()
+          .mockResolvedValueOnce({
+            role: 'assistant',
+            content: '',
+            tool_calls: [{ function: { name: 'add', arguments: '{"a": 1}' } }]
+          })
+          .mockResolvedValueOnce({ role: 'assistant', content: 'Sorry' })
+      };
+      const mcpClient = { callTool: jest.fn().mockRejectedValue(new Error('boom')) };
+
+      const answer = await runToolCallingLoop(ollamaClient, mcpClient, 'm', [{ role: 'user', content: 'x' }], toolSet);
+
+      expect(answer).toBe('Sorry');
+      expect(mcpClient.callTool).toHaveBeenCalledWith('math', 'add', { a: 1 });
+      const conversation = ollamaClient.chatWithTools.mock.calls[1][1];
+      expect(conversation[2].content).toBe('Error: boom');
+    });
+
+    test('should stop after the maximum number of iterations', async () => {
+      const ollamaClient = {
+        chatWithTools: jest.fn().mockResolvedValue({
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ function: { name: 'add', arguments: {} } }]
+        })
+      };
+      const mcpClient = { callTool: jest.fn().mockResolvedValue('0') };
+
+      await expect(
+        runToolCallingLoop(ollamaClient, mcpClient, 'm', [{ role: 'user', content: 'x' }], toolSet, { maxIterations: 3 })
+      ).rejects.toThrow('within 3 tool iteration(s)');
+      expect(ollamaClient.chatWithTools).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('max_tool_iterations validation', () => {
+    const buildWorkflow = (stateOverrides) => ({
+      name: 'Test',
+      start_state: 'ask',
+      mcp_servers: { tools: { command: 'node' } },
+      states: {
+        ask: {
+          type: 'prompt',
+          prompt: 'Use the tools',
+          mcp_servers: ['tools'],
+          next: 'end',
+          ...stateOverrides
+        }
+      }
+    });
+
+    test('should accept a positive integer', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildWorkflow({ max_tool_iterations: 4 }))).not.toThrow();
+    });
+
+    test('should reject non-positive values', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildWorkflow({ max_tool_iterations: 0 })))
+        .toThrow('max_tool_iterations must be a positive integer');
+    });
+
+    test('should reject use on non-prompt states', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildWorkflow({ type: 'input', max_tool_iterations: 2 })))
+        .toThrow('can only use max_tool_iterations with prompt type states');
+    });
+  });
+});
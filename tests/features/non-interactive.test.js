@@ -0,0 +1,101 @@
+const { AnswerQueue, readAnswersFile } = require('../../dist/utils/answers');
+const { MockAdapter } = require('../../dist/io/mock-adapter');
+const { createExecutor: createWorkflowExecutor, runToEnd } = require('../helpers/workflow');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+describe('Non-Interactive Runs', () => {
+  let adapter;
+
+  const createExecutor = (states, startState = 'ask_topic') => {
+    const executor = createWorkflowExecutor(
+      { name: 'Nightly', start_state: startState, default_model: 'test-model', states },
+      { generate: async (model, prompt) => `Summary: ${prompt}` }
+    );
+    adapter = new MockAdapter();
+    adapter.requestInput = jest.fn(() => {
+      throw new Error('should not wait for input');
+    });
+    executor.setAdapter(adapter);
+    return executor;
+  };
+
+  const askTopic = { type: 'input', prompt: 'Topic?', save_as: 'topic', next: 'summarize' };
+  const summarize = { type: 'prompt', prompt: 'Summarize {{topic}}', save_as: 'summary', next: 'end' };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should answer input states from provided inputs', async () => {
+    const executor = createExecutor({ ask_topic: askTopic, summarize });
+    executor.setInputs({ topic: 'tides' });
+    executor.setNonInteractive();
+
+    const { context } = await runToEnd(executor);
+
+    expect(context.summary).toBe('Summary: Summarize tides');
+    expect(adapter.requestInput).not.toHaveBeenCalled();
+  });
+
+  test('should answer input states from scripted answers, one per visit', async () => {
+    const executor = createExecutor({
+      ask_topic: { ...askTopic, switch: [{ when: 'topic == "done"', next: 'end' }], next: 'ask_topic' }
+    });
+    executor.setNonInteractive(new AnswerQueue({ ask_topic: ['tides', 'waves', 'done'] }));
+
+    const { history } = await runToEnd(executor);
+
+    expect(history).toEqual(['ask_topic', 'ask_topic', 'ask_topic']);
+  });
+
+  test('should give answers in order when the answers are a list', () => {
+    const answers = new AnswerQueue(['first', 'second']);
+    expect([answers.next('a'), answers.next('b'), answers.next('c')]).toEqual(['first', 'second', undefined]);
+
+    const fixed = new AnswerQueue({ a: 'always' });
+    expect([fixed.next('a'), fixed.next('a'), fixed.next('b')]).toEqual(['always', 'always', undefined]);
+  });
+
+  test('should fall back to default_value', async () => {
+    const executor = createExecutor({ ask_topic: { ...askTopic, default_value: 'the moon' }, summarize });
+    executor.setNonInteractive(new AnswerQueue({}));
+
+    const { context } = await runToEnd(executor);
+
+    expect(context.topic).toBe('the moon');
+  });
+
+  test('should fail with a clear error instead of waiting for input', async () => {
+    const executor = createExecutor({ ask_topic: askTopic, summarize });
+    executor.setNonInteractive();
+
+    await expect(executor.execute()).rejects.toThrow(
+      'Input state "ask_topic" needs an answer, but the run is non-interactive. Provide one with --var topic=..., an answers file entry for "ask_topic", or a default_value'
+    );
+  });
+
+  test('should read answers files in JSON or YAML', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentmech-answers-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'answers.yaml'), 'ask_topic:\n  - tides\n  - waves\nconfirm: yes\n');
+      expect(readAnswersFile(path.join(dir, 'answers.yaml'))).toEqual({ ask_topic: ['tides', 'waves'], confirm: 'yes' });
+
+      fs.writeFileSync(path.join(dir, 'answers.json'), '["tides", 3]');
+      expect(readAnswersFile(path.join(dir, 'answers.json'))).toEqual(['tides', 3]);
+
+      fs.writeFileSync(path.join(dir, 'bad.json'), '{"ask_topic": {"value": "tides"}}');
+      expect(() => readAnswersFile(path.join(dir, 'bad.json'))).toThrow('must map state names');
+      expect(() => readAnswersFile(path.join(dir, 'missing.json'))).toThrow('Answers file not found');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,149 @@
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { checkResponse, DEFAULT_REFUSAL_PHRASES } = require('../../dist/utils/output-validation');
+const Tracer = require('../../dist/utils/tracer');
+const { createExecutor, runToEnd } = require('../helpers/workflow');
+
+describe('Output Validation', () => {
+  describe('Checks', () => {
+    test('should accept responses that pass every check', () => {
+      expect(checkResponse('  ## Summary\nAll good.  ', {
+        minLength: 5,
+        maxLength: 30,
+        mustContain: ['Summary'],
+        mustNotContain: ['TODO'],
+        regex: ['^## '],
+        refusalPhrases: DEFAULT_REFUSAL_PHRASES
+      })).toEqual([]);
+    });
+
+    test('should describe each failed check', () => {
+      expect(checkResponse('TODO later', {
+        minLength: 20,
+        mustContain: ['Summary', 'TODO'],
+        mustNotContain: ['TODO'],
+        regex: ['^## ']
+      })).toEqual([
+        'Response is 10 characters long, but must be at least 20',
+        'Response must contain "Summary"',
+        'Response must not contain "TODO"',
+        'Response must match the pattern /^## /'
+      ]);
+      expect(checkResponse('far too long', { maxLength: 3 })).toEqual(['Response is 12 characters long, but must be at most 3']);
+    });
+
+    test('should check JSON, tolerating a code fence', () => {
+      expect(checkResponse('```json\n{"ok": true}\n```', { isJson: true })).toEqual([]);
+      expect(checkResponse('{ok: true}', { isJson: true })[0]).toContain('Response is not valid JSON');
+    });
+
+    test('should detect refusals regardless of case', () => {
+      expect(checkResponse("I'M SORRY, BUT I CAN'T do that.", { refusalPhrases: DEFAULT_REFUSAL_PHRASES })).toEqual([
+        'Response must answer the request instead of refusing it (found "I\'m sorry, but I can\'t")'
+      ]);
+      expect(checkResponse('Not today.', { refusalPhrases: ['not today'] })).toHaveLength(1);
+    });
+  });
+
+  describe('Validation', () => {
+    const buildSpec = (state) => ({
+      name: 'Validate Test',
+      start_state: 'ask',
+      states: { ask: { type: 'prompt', prompt: 'Hello', next: 'end', ...state } }
+    });
+
+    test('should accept a validate block with repair_attempts', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({
+        validate: { min_length: 10, max_length: 500, must_contain: 'Summary', regex: ['^#'], is_json: false, no_refusal: true },
+        repair_attempts: 3
+      }))).not.toThrow();
+    });
+
+    test('should reject unknown checks and invalid values', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ validate: { min_len: 3 } })))
+        .toThrow('State "ask" validate has unknown check "min_len". Must be one of: min_length, max_length, must_contain, must_not_contain, regex, is_json, no_refusal');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ validate: { max_length: -1 } })))
+        .toThrow('State "ask" validate max_length must be a non-negative integer');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ validate: { min_length: 10, max_length: 5 } })))
+        .toThrow('State "ask" validate min_length cannot be greater than max_length');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ validate: { must_contain: [1] } })))
+        .toThrow('State "ask" validate must_contain must be a string or an array of strings');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ validate: { regex: '(' } })))
+        .toThrow('State "ask" validate has invalid regex "("');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ validate: { no_refusal: 'yes' } })))
+        .toThrow('State "ask" validate no_refusal must be a boolean or an array of phrases');
+    });
+
+    test('should only allow validate on prompt states without steps', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ type: 'input', validate: { min_length: 1 } })))
+        .toThrow('State "ask" can only use validate with prompt type states without steps');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ repair_attempts: 1 })))
+        .toThrow('State "ask" can only use repair_attempts together with output_schema or validate');
+    });
+  });
+
+  describe('Execution', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const run = (state, generate, tracer) => runToEnd(createExecutor({
+      name: 'Validate Test',
+      start_state: 'ask',
+      states: {
+        ask: { type: 'prompt', prompt: 'Summarize the notes', save_as: 'summary', next: 'publish', ...state },
+        publish: { type: 'transition', next: 'end' },
+        fallback: { type: 'transition', next: 'end' }
+      }
+    }, { generate, tracer }));
+
+    test('should re-prompt with the failed checks until the response passes', async () => {
+      const generate = jest.fn()
+        .mockResolvedValueOnce("I'm sorry, but I can't summarize that.")
+        .mockResolvedValueOnce('## Summary\nThe release ships on Friday.');
+
+      const { context, history } = await run({ validate: { must_contain: 'Summary', no_refusal: true } }, generate);
+
+      expect(generate).toHaveBeenCalledTimes(2);
+      const repairPrompt = generate.mock.calls[1][1];
+      expect(repairPrompt).toContain('Summarize the notes');
+      expect(repairPrompt).toContain("Your previous response was:\nI'm sorry, but I can't summarize that.");
+      expect(repairPrompt).toContain('- Response must contain "Summary"');
+      expect(repairPrompt).toContain('Respond again, meeting all of these requirements.');
+      expect(context.summary).toBe('## Summary\nThe release ships on Friday.');
+      expect(history).toEqual(['ask', 'publish']);
+    });
+
+    test('should go to on_error when the repairs run out, without saving the response', async () => {
+      const generate = jest.fn().mockResolvedValue('Too short');
+      const tracer = new Tracer(true);
+
+      const { errors, context, history } = await run({ validate: { min_length: 50 }, repair_attempts: 1, on_error: 'fallback' }, generate, tracer);
+
+      expect(generate).toHaveBeenCalledTimes(2);
+      expect(errors[0]).toContain('Response failed validation: Response is 9 characters long, but must be at least 50');
+      expect(context.summary).toBeUndefined();
+      expect(history).toEqual(['ask', 'fallback']);
+      const traced = tracer.getEvents().filter(event => event.type === 'error' && event.details.error_type === 'output_validation');
+      expect(traced).toHaveLength(2);
+    });
+
+    test('should combine checks with output_schema', async () => {
+      const generate = jest.fn()
+        .mockResolvedValueOnce('{"title": "TBD"}')
+        .mockResolvedValueOnce('{"title": "Dune"}');
+      const schema = { type: 'object', properties: { title: { type: 'string' } }, required: ['title'] };
+
+      const { context } = await run({ output_schema: schema, validate: { must_not_contain: 'TBD' } }, generate);
+
+      expect(generate.mock.calls[1][1]).toContain('- Response must not contain "TBD"');
+      expect(generate.mock.calls[1][1]).toContain('Respond again with only JSON that matches this schema');
+      expect(context.summary).toEqual({ title: 'Dune' });
+    });
+  });
+});
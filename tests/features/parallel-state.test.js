@@ -0,0 +1,195 @@
+const WorkflowParser = require('../../dist/workflow/parser');
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { createExecutor, runToEnd, silenceOutput } = require('../helpers/workflow');
+const path = require('path');
+
+describe('Parallel State', () => {
+  const buildSpec = (overrides = {}) => ({
+    name: 'Parallel Test',
+    start_state: 'fan_out',
+    states: {
+      fan_out: {
+        type: 'parallel',
+        branches: [
+          'critique_a',
+          { prompt: 'Critique B', save_as: 'b' }
+        ],
+        next: 'end',
+        ...overrides
+      },
+      critique_a: {
+        type: 'prompt',
+        prompt: 'Critique A',
+        save_as: 'a'
+      }
+    }
+  });
+
+  describe('Validation', () => {
+    test('should accept state names and inline steps as branches', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec())).not.toThrow();
+    });
+
+    test('should require at least 2 branches', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ branches: ['critique_a'] })))
+        .toThrow('branches must have at least 2 branches');
+    });
+
+    test('should reject references to non-existent states', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ branches: ['critique_a', 'missing'] })))
+        .toThrow('references non-existent state "missing"');
+    });
+
+    test('should reject branches that are not prompt states', () => {
+      const spec = buildSpec();
+      spec.states.critique_a.type = 'input';
+      expect(() => WorkflowValidator.validateWorkflowSpec(spec))
+        .toThrow('branch "critique_a" must be a prompt state without steps');
+    });
+
+    test('should reject branches that choose their own next state', () => {
+      const withOptions = buildSpec();
+      withOptions.states.critique_a.next_options = [{ state: 'end', description: 'Done' }];
+      expect(() => WorkflowValidator.validateWorkflowSpec(withOptions))
+        .toThrow('Parallel state "fan_out" branch "critique_a" cannot use next_options or switch, as branches do not choose the next state');
+
+      const withSwitch = buildSpec();
+      withSwitch.states.critique_a.switch = [{ when: 'true', next: 'end' }];
+      expect(() => WorkflowValidator.validateWorkflowSpec(withSwitch))
+        .toThrow('branch "critique_a" cannot use next_options or switch');
+    });
+
+    test('should validate inline branch steps', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ branches: ['critique_a', { save_as: 'x' }] })))
+        .toThrow('State "fan_out" branch 2 must have a prompt or prompt_file field');
+    });
+
+    test('should reject invalid max_concurrency and error_policy', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ max_concurrency: 0 })))
+        .toThrow('max_concurrency must be a positive integer');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ error_policy: 'ignore' })))
+        .toThrow('invalid error_policy "ignore"');
+    });
+
+    test('should reject parallel options on other state types', () => {
+      const spec = buildSpec();
+      spec.states.critique_a.branches = ['fan_out'];
+      expect(() => WorkflowValidator.validateWorkflowSpec(spec))
+        .toThrow('can only use branches, max_concurrency and error_policy with parallel type states');
+    });
+  });
+
+  describe('Parsing', () => {
+    test('should expand inline branches into prompt states', () => {
+      const filePath = path.join(__dirname, '../../examples/parallel-reviews.yaml');
+      const workflow = WorkflowParser.parseFile({ workflowDir: '', filePath, visitedFiles: new Set() });
+
+      const reviews = workflow.states.reviews;
+      expect(reviews.type).toBe('parallel');
+      expect(reviews.branches).toEqual(['security_review', 'reviews_branch_1', 'reviews_branch_2']);
+      expect(reviews.maxConcurrency).toBe(3);
+      expect(reviews.errorPolicy).toBe('collect_all');
+      expect(workflow.states.reviews_branch_1.type).toBe('prompt');
+      expect(workflow.states.reviews_branch_1.saveAs).toBe('performance_notes');
+    });
+  });
+
+  describe('Execution', () => {
+    silenceOutput();
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    const run = (overrides, generate) => runToEnd(createExecutor(buildSpec(overrides), { generate }));
+
+    test('should run branches concurrently and save each output', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const generate = jest.fn(async (model, prompt) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        running--;
+        return `answer to ${prompt}`;
+      });
+
+      const { status, context } = await run({}, generate);
+
+      expect(status).toBe('completed');
+      expect(maxRunning).toBe(2);
+      expect(context.a).toBe('answer to Critique A');
+      expect(context.b).toBe('answer to Critique B');
+    });
+
+    test('should respect max_concurrency', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const generate = jest.fn(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        running--;
+        return 'ok';
+      });
+
+      await run({ max_concurrency: 1 }, generate);
+
+      expect(generate).toHaveBeenCalledTimes(2);
+      expect(maxRunning).toBe(1);
+    });
+
+    test('should fail fast by default', async () => {
+      const generate = jest.fn(async (model, prompt) => {
+        if (prompt === 'Critique A') {
+          throw new Error('model unavailable');
+        }
+        return 'ok';
+      });
+
+      const { status, error } = await run({ max_concurrency: 1 }, generate);
+
+      expect(status).toBe('failed');
+      expect(error).toContain('Branch "critique_a" failed');
+      expect(generate).toHaveBeenCalledTimes(1);
+    });
+
+    test('should cancel the running branches on fail_fast and keep their output out of the context', async () => {
+      let signalOfB;
+      const generate = jest.fn((model, prompt, options, images, onToken, signal) => {
+        if (prompt === 'Critique A') {
+          return new Promise((resolve, reject) => setTimeout(() => reject(new Error('model unavailable')), 5));
+        }
+        signalOfB = signal;
+        // Answers late whether or not the request was cancelled
+        return new Promise(resolve => setTimeout(() => resolve('late answer'), 20));
+      });
+
+      const { status, error, context, errors } = await run({}, generate);
+      await new Promise(resolve => setTimeout(resolve, 30));
+
+      expect(status).toBe('failed');
+      expect(error).toContain('Branch "critique_a" failed: Failed to generate response: model unavailable');
+      expect(signalOfB.aborted).toBe(true);
+      expect(context.b).toBeUndefined();
+      expect(errors.filter(message => message.startsWith('Branch'))).toEqual([
+        'Branch "critique_a" failed: Failed to generate response: model unavailable'
+      ]);
+    });
+
+    test('should run every branch with collect_all and report all failures', async () => {
+      const generate = jest.fn(async (model, prompt) => {
+        if (prompt === 'Critique A') {
+          throw new Error('model unavailable');
+        }
+        return 'ok';
+      });
+
+      const { error, context } = await run({ max_concurrency: 1, error_policy: 'collect_all' }, generate);
+
+      expect(error).toContain('1 of 2 branch(es) failed');
+      expect(generate).toHaveBeenCalledTimes(2);
+      expect(context.b).toBe('ok');
+    });
+  });
+});
@@ -0,0 +1,206 @@
+const WorkflowParser = require('../../dist/workflow/parser');
+const Tracer = require('../../dist/utils/tracer');
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { classifyError, getRetryDelay, resolveRetryPolicy, withRetry, RetryableError } = require('../../dist/utils/retry');
+const { createExecutor, runToEnd, silenceOutput } = require('../helpers/workflow');
+const path = require('path');
+
+describe('Retry Policies', () => {
+  describe('resolveRetryPolicy', () => {
+    test('should return undefined when no policy is configured', () => {
+      expect(resolveRetryPolicy(undefined, undefined)).toBeUndefined();
+    });
+
+    test('should apply defaults and let later configs override fields', () => {
+      const policy = resolveRetryPolicy(
+        { maxAttempts: 4, retryOn: ['connection'] },
+        { backoff: 'fixed' }
+      );
+      expect(policy).toEqual({
+        maxAttempts: 4,
+        backoff: 'fixed',
+        initialDelayMs: 1000,
+        retryOn: ['connection']
+      });
+    });
+  });
+
+  describe('classifyError', () => {
+    test('should classify connection and timeout failures', () => {
+      expect(classifyError(new Error('Cannot connect to Ollama at http://localhost:11434. Please ensure Ollama is running.'))).toBe('connection');
+      expect(classifyError(new Error('Ollama API error: Request failed with status code 503'))).toBe('connection');
+      expect(classifyError(Object.assign(new Error('socket'), { code: 'ECONNRESET' }))).toBe('connection');
+      expect(classifyError(new Error('Ollama API error: timeout of 30000ms exceeded'))).toBe('timeout');
+      expect(classifyError(new RetryableError('bad output', 'validation'))).toBe('validation');
+    });
+
+    test('should not classify other errors', () => {
+      expect(classifyError(new Error('Ollama API error: Request failed with status code 404'))).toBeUndefined();
+    });
+  });
+
+  describe('withRetry', () => {
+    const policy = { maxAttempts: 3, backoff: 'exponential', initialDelayMs: 0, retryOn: ['connection'] };
+
+    test('should compute exponential and fixed delays', () => {
+      const exponential = { ...policy, initialDelayMs: 100 };
+      expect([1, 2, 3].map(attempt => getRetryDelay(exponential, attempt))).toEqual([100, 200, 400]);
+      expect(getRetryDelay({ ...exponential, backoff: 'fixed' }, 3)).toBe(100);
+    });
+
+    test('should retry matching failures until success', async () => {
+      const operation = jest.fn()
+        .mockRejectedValueOnce(new Error('Cannot connect to Ollama'))
+        .mockResolvedValueOnce('done');
+      const onAttempt = jest.fn();
+
+      await expect(withRetry(operation, policy, onAttempt)).resolves.toBe('done');
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(onAttempt.mock.calls.map(call => call[0].success)).toEqual([false, true]);
+      expect(onAttempt.mock.calls[0][0]).toEqual(expect.objectContaining({ attempt: 1, category: 'connection', delayMs: 0 }));
+    });
+
+    test('should stop after max_attempts', async () => {
+      const operation = jest.fn().mockRejectedValue(new Error('Cannot connect to Ollama'));
+
+      await expect(withRetry(operation, policy)).rejects.toThrow('Cannot connect to Ollama');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    test('should not retry failures outside retry_on', async () => {
+      const operation = jest.fn().mockRejectedValue(new Error('Ollama API error: timeout of 10ms exceeded'));
+
+      await expect(withRetry(operation, policy)).rejects.toThrow('timeout');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    test('should end the wait between attempts when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const operation = jest.fn(async () => {
+        setImmediate(() => controller.abort(new Error('Cancelled')));
+        throw new Error('Cannot connect to Ollama');
+      });
+      const startedAt = Date.now();
+
+      await expect(withRetry(operation, { ...policy, initialDelayMs: 60000 }, undefined, controller.signal)).rejects.toThrow('Cancelled');
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(Date.now() - startedAt).toBeLessThan(2000);
+    });
+  });
+
+  describe('Validation', () => {
+    const buildSpec = (retry, stateType = 'prompt') => ({
+      name: 'Retry Test',
+      start_state: 'ask',
+      states: {
+        ask: { type: stateType, prompt: 'Hello', retry, next: 'end' }
+      }
+    });
+
+    test('should accept the example workflow', () => {
+      const filePath = path.join(__dirname, '../../examples/retry-policy.yaml');
+      expect(() => WorkflowParser.parseFile({ workflowDir: '', filePath, visitedFiles: new Set() })).not.toThrow();
+    });
+
+    test('should reject invalid fields', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ max_attempts: 0 })))
+        .toThrow('retry max_attempts must be a positive integer');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ backoff: 'linear' })))
+        .toThrow('invalid backoff "linear"');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ initial_delay_ms: -1 })))
+        .toThrow('retry initial_delay_ms must be a non-negative number');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ retry_on: ['rate_limit'] })))
+        .toThrow('invalid retry_on value "rate_limit"');
+    });
+
+    test('should validate workflow-level retry', () => {
+      const spec = { ...buildSpec(undefined), retry: { backoff: 'random' } };
+      expect(() => WorkflowValidator.validateWorkflowSpec(spec)).toThrow('Workflow retry has invalid backoff "random"');
+    });
+
+    test('should reject retry on states that do not call the model', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ max_attempts: 2 }, 'input')))
+        .toThrow('can only use retry with prompt, parallel, foreach, map_reduce and http type states');
+    });
+  });
+
+  describe('Execution', () => {
+    silenceOutput();
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    const run = (spec, generate, tracer) => runToEnd(createExecutor({
+      name: 'Retry Test',
+      start_state: 'ask',
+      states: { ask: { type: 'prompt', prompt: 'Hello', save_as: 'answer', next: 'end' } },
+      ...spec
+    }, { generate, tracer }));
+
+    test('should retry connection failures using the workflow-level policy and trace each attempt', async () => {
+      const tracer = new Tracer(true);
+      const generate = jest.fn()
+        .mockRejectedValueOnce(new Error('Cannot connect to Ollama at http://localhost:11434. Please ensure Ollama is running.'))
+        .mockResolvedValueOnce('Hi there');
+
+      const { context } = await run({ retry: { max_attempts: 2, initial_delay_ms: 0 } }, generate, tracer);
+
+      expect(context.answer).toBe('Hi there');
+      const attempts = tracer.getEvents().filter(event => event.type === 'retry_attempt');
+      expect(attempts.map(event => event.details.success)).toEqual([false, true]);
+      expect(attempts[0].details).toEqual(expect.objectContaining({ state: 'ask', attempt: 1, category: 'connection' }));
+    });
+
+    test('should retry empty responses and fail once attempts run out', async () => {
+      const generate = jest.fn().mockResolvedValue('   ');
+
+      const { error } = await run({ retry: { max_attempts: 2, initial_delay_ms: 0 } }, generate);
+
+      expect(error).toContain('Model returned an empty response');
+      expect(generate).toHaveBeenCalledTimes(2);
+    });
+
+    test('should let state-level fields override the workflow-level policy', async () => {
+      const generate = jest.fn().mockRejectedValue(new Error('Cannot connect to Ollama'));
+
+      const { error } = await run({
+        retry: { max_attempts: 5, initial_delay_ms: 0 },
+        states: { ask: { type: 'prompt', prompt: 'Hello', retry: { max_attempts: 2 }, next: 'end' } }
+      }, generate);
+
+      expect(error).toContain('Cannot connect to Ollama');
+      expect(generate).toHaveBeenCalledTimes(2);
+    });
+
+    test('should stop the run without waiting for the next attempt', async () => {
+      let executor;
+      const generate = jest.fn(async () => {
+        setImmediate(() => executor.stop());
+        throw new Error('Cannot connect to Ollama');
+      });
+      executor = createExecutor({
+        name: 'Retry Test',
+        start_state: 'ask',
+        retry: { max_attempts: 3, initial_delay_ms: 60000 },
+        states: { ask: { type: 'prompt', prompt: 'Hello', next: 'end' } }
+      }, { generate });
+      const startedAt = Date.now();
+
+      const { status } = await runToEnd(executor);
+
+      expect(status).toBe('stopped');
+      expect(generate).toHaveBeenCalledTimes(1);
+      expect(Date.now() - startedAt).toBeLessThan(2000);
+    });
+
+    test('should call the model once without a retry policy', async () => {
+      const generate = jest.fn().mockResolvedValue('');
+
+      const { context } = await run({}, generate);
+
+      expect(generate).toHaveBeenCalledTimes(1);
+      expect(context.answer).toBe('');
+    });
+  });
+});
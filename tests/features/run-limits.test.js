@@ -0,0 +1,142 @@
+const http = require('http');
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { parseDuration } = require('../../dist/utils/run-limits');
+const OllamaClient = require('../../dist/ollama/ollama-client');
+const Tracer = require('../../dist/utils/tracer');
+const { createExecutor, fakeOllamaClient, runToEnd, silenceOutput } = require('../helpers/workflow');
+
+describe('Run Limits', () => {
+  // review and revise route to each other until the model is satisfied, which may be never
+  const buildSpec = (limits, extraStates = {}) => ({
+    name: 'Limits Test',
+    start_state: 'review',
+    limits,
+    states: {
+      review: { type: 'prompt', prompt: 'Review the draft', save_as: 'review', next: 'revise' },
+      revise: { type: 'prompt', prompt: 'Revise the draft: {{review}}', save_as: 'draft', next: 'review' },
+      wrap_up: { type: 'prompt', prompt: 'Summarize where the draft stands', save_as: 'summary', next: 'end' },
+      ...extraStates
+    }
+  });
+
+  // Answers every prompt with "ok", counting 10 tokens per call
+  const okClient = () => fakeOllamaClient({ generate: async () => 'ok' }, { promptTokens: 10, completionTokens: 0 });
+
+  silenceOutput();
+
+  describe('Validation', () => {
+    test('should accept every limit with an on_limit state', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({
+        max_states_executed: 20, max_llm_calls: 30, max_total_tokens: 50000, max_duration: '10m', on_limit: 'wrap_up'
+      }))).not.toThrow();
+    });
+
+    test('should reject invalid limits', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ max_calls: 3 })))
+        .toThrow('Workflow limits has unknown field "max_calls". Must be one of: max_states_executed, max_llm_calls, max_total_tokens, max_duration, on_limit');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ max_llm_calls: 0 })))
+        .toThrow('Workflow limits max_llm_calls must be a positive integer');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ max_duration: '10 minutes' })))
+        .toThrow('Workflow limits max_duration must be a positive number of milliseconds or a duration such as "90s", "10m" or "1h"');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ max_llm_calls: 5, on_limit: 'missing' })))
+        .toThrow('Workflow limits on_limit references non-existent state "missing"');
+    });
+
+    test('should read durations in milliseconds or with a unit', () => {
+      expect(parseDuration(1500)).toBe(1500);
+      expect(parseDuration('90s')).toBe(90000);
+      expect(parseDuration('1.5h')).toBe(5400000);
+      expect(parseDuration('0s')).toBeUndefined();
+    });
+  });
+
+  describe('Execution', () => {
+    test('should stop a routing cycle cleanly when max_states_executed is reached', async () => {
+      const tracer = new Tracer(true);
+
+      const { history, status, reason } = await runToEnd(createExecutor(buildSpec({ max_states_executed: 5 }), { client: okClient(), tracer }));
+
+      expect(history).toEqual(['review', 'revise', 'review', 'revise', 'review']);
+      expect(status).toBe('stopped');
+      expect(reason).toBe('Limit max_states_executed of 5 reached');
+      const traced = tracer.getEvents().find(event => event.type === 'limit_reached');
+      expect(traced.details).toEqual(expect.objectContaining({ state: 'revise', statesExecuted: 5, llmCalls: 5 }));
+    });
+
+    test('should run the on_limit state despite the limit and complete', async () => {
+      const client = okClient();
+
+      const { history, context, status } = await runToEnd(createExecutor(buildSpec({ max_llm_calls: 3, on_limit: 'wrap_up' }), { client }));
+
+      expect(history).toEqual(['review', 'revise', 'review', 'wrap_up']);
+      expect(client.generate).toHaveBeenCalledTimes(4);
+      expect(context.summary).toBe('ok');
+      expect(status).toBe('completed');
+    });
+
+    test('should stop when the on_limit state moves on to another state', async () => {
+      const spec = buildSpec({ max_llm_calls: 1, on_limit: 'wrap_up' });
+      spec.states.wrap_up.next = 'review';
+
+      const end = await runToEnd(createExecutor(spec, { client: okClient() }));
+
+      expect(end.history).toEqual(['review', 'wrap_up']);
+      expect(end).toEqual(expect.objectContaining({ status: 'stopped', reason: 'Limit max_llm_calls of 1 reached' }));
+    });
+
+    test('should stop when max_duration has passed', async () => {
+      const generate = () => new Promise(resolve => setTimeout(() => resolve('ok'), 50));
+
+      const { history, reason } = await runToEnd(createExecutor(buildSpec({ max_duration: 30 }), { generate }));
+
+      expect(history).toEqual(['review']);
+      expect(reason).toMatch(/^Limit max_duration of 30 ms reached \(\d+ ms elapsed\)$/);
+    });
+
+    describe('with Ollama token counts', () => {
+      let server;
+      let baseUrl;
+      let requests;
+
+      beforeAll(async () => {
+        // Replies like Ollama, streaming when asked to, and counts 30 prompt and 20 response tokens
+        server = http.createServer((req, res) => {
+          let body = '';
+          req.on('data', chunk => body += chunk);
+          req.on('end', () => {
+            requests++;
+            const final = { response: 'ok', done: true, prompt_eval_count: 30, eval_count: 20 };
+            if (JSON.parse(body).stream) {
+              res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+              res.end(JSON.stringify(final) + '\n');
+            } else {
+              res.writeHead(200, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify(final));
+            }
+          });
+        });
+        await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${server.address().port}`;
+      });
+
+      beforeEach(() => {
+        requests = 0;
+      });
+
+      afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+      });
+
+      test('should stop when max_total_tokens is reached', async () => {
+        const executor = createExecutor(buildSpec({ max_total_tokens: 120 }), { client: new OllamaClient(baseUrl) });
+
+        const { history, reason } = await runToEnd(executor);
+
+        expect(history).toEqual(['review', 'revise', 'review']);
+        expect(requests).toBe(3);
+        expect(reason).toBe('Limit max_total_tokens of 120 reached (150 tokens used)');
+      });
+    });
+  });
+});
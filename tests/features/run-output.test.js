@@ -0,0 +1,101 @@
+const { RunRecorder, redirectStdoutToStderr } = require('../../dist/utils/run-report');
+const { createExecutor: createWorkflowExecutor } = require('../helpers/workflow');
+
+describe('Machine-Readable Run Output', () => {
+  const createExecutor = (states, generate) => createWorkflowExecutor(
+    { name: 'Digest', start_state: 'outline', default_model: 'test-model', states },
+    { generate }
+  );
+
+  const states = {
+    outline: { type: 'prompt', prompt: 'Outline', save_as: 'outline', next: 'draft' },
+    draft: { type: 'prompt', prompt: 'Draft from {{outline}}', next: 'end' }
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should report history, per-state outputs, timings and the final context', async () => {
+    const executor = createExecutor(states, async (model, prompt) => `Answer to ${prompt}`);
+    const events = [];
+    const recorder = new RunRecorder('Digest', '/runs/digest', event => events.push(event));
+    executor.setRecorder(recorder);
+
+    await executor.execute();
+
+    const report = recorder.getReport();
+    expect(report).toEqual(expect.objectContaining({
+      workflow: 'Digest',
+      status: 'completed',
+      runDirectory: '/runs/digest',
+      history: ['outline', 'draft'],
+      outputs: { outline: 'Answer to Outline', draft: 'Answer to Draft from Answer to Outline' }
+    }));
+    expect(report.context.outline).toBe('Answer to Outline');
+    expect(report.states.map(state => [state.state, state.type, state.status])).toEqual([
+      ['outline', 'prompt', 'completed'],
+      ['draft', 'prompt', 'completed']
+    ]);
+    expect(report.states.every(state => state.durationMs >= 0 && state.startedAt)).toBe(true);
+    expect(events.map(event => event.type)).toEqual([
+      'run_start', 'state_start', 'state_complete', 'state_start', 'state_complete', 'run_end'
+    ]);
+    expect(JSON.parse(JSON.stringify(events[5]))).toEqual(expect.objectContaining({ status: 'completed' }));
+  });
+
+  test('should report failed states and the error that ended the run', async () => {
+    const executor = createExecutor(states, async (model, prompt) => {
+      if (prompt.startsWith('Draft')) {
+        throw new Error('model crashed');
+      }
+      return 'An outline';
+    });
+    const recorder = new RunRecorder('Digest');
+    executor.setRecorder(recorder);
+
+    await expect(executor.execute()).rejects.toThrow('model crashed');
+
+    const report = recorder.getReport();
+    expect(report.status).toBe('failed');
+    expect(report.error).toContain('model crashed');
+    expect(report.states[1]).toEqual(expect.objectContaining({ state: 'draft', status: 'failed' }));
+    expect(report.states[1].error).toContain('model crashed');
+    expect(report.outputs).toEqual({ outline: 'An outline' });
+  });
+
+  test('should report stopped runs', async () => {
+    const executor = createExecutor(states, async () => {
+      executor.stop();
+      return 'An outline';
+    });
+    const recorder = new RunRecorder('Digest');
+    executor.setRecorder(recorder);
+
+    await executor.execute();
+
+    expect(recorder.getReport().status).toBe('stopped');
+  });
+
+  test('should send stdout writes to stderr until restored', () => {
+    jest.restoreAllMocks();
+    const stderrWrite = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const stdoutWrite = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    const output = redirectStdoutToStderr();
+    process.stdout.write('decorated');
+    output.write('{"status":"completed"}\n');
+    output.restore();
+
+    expect(stderrWrite).toHaveBeenCalledWith('decorated');
+    expect(stdoutWrite).toHaveBeenCalledTimes(1);
+    expect(stdoutWrite).toHaveBeenCalledWith('{"status":"completed"}\n');
+    expect(process.stdout.write).toBe(stdoutWrite);
+  });
+});
@@ -0,0 +1,197 @@
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { normalizeAnswer, pickMajority, pickLongest, parseChoice } = require('../../dist/utils/sampling');
+const Tracer = require('../../dist/utils/tracer');
+const { specFactory, createExecutor, runToEnd, silenceOutput } = require('../helpers/workflow');
+
+describe('Sampling', () => {
+  const buildSpec = specFactory({
+    name: 'Sampling Test',
+    start_state: 'ask',
+    states: {
+      ask: { type: 'prompt', prompt: 'What is the capital of France?', samples: 3, save_as: 'answer', next: 'end' }
+    }
+  });
+
+  const run = (spec, generate, tracer) => runToEnd(createExecutor(spec, { generate, tracer }));
+
+  // Answers the prompts that contain a key with the queued responses, in order
+  const scripted = (responses) => jest.fn(async (model, prompt) => {
+    const key = Object.keys(responses).find(text => prompt.includes(text));
+    return responses[key].shift();
+  });
+
+  silenceOutput();
+
+  describe('Selection helpers', () => {
+    test('should treat answers that differ only in form as the same', () => {
+      expect(normalizeAnswer('**Paris.**')).toBe('paris');
+      expect(normalizeAnswer('  "Paris"\n')).toBe('paris');
+      expect(pickMajority(['lyon', 'paris', 'nice', 'paris'])).toEqual({ index: 1, votes: 2 });
+      expect(pickMajority(['a', 'b'])).toEqual({ index: 0, votes: 1 });
+    });
+
+    test('should pick the longest response and parse numbered choices', () => {
+      expect(pickLongest(['short', 'much longer', 'also longer'])).toBe(1);
+      expect(parseChoice('Option 2.', 3)).toBe(1);
+      expect(parseChoice('4', 3)).toBeUndefined();
+      expect(parseChoice('the second one', 3)).toBeUndefined();
+    });
+  });
+
+  describe('Validation', () => {
+    test('should accept samples with a judge across several models', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({
+        select: 'judge', models: ['gemma3:4b', 'llama3.2'], judge_model: 'qwen2.5'
+      }))).not.toThrow();
+    });
+
+    test('should reject invalid sampling fields', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ samples: 1 })))
+        .toThrow('State "ask" samples must be an integer of at least 2');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ select: 'best' })))
+        .toThrow('State "ask" has invalid select "best". Must be one of: majority, longest, judge');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ samples: undefined, select: 'longest' })))
+        .toThrow('State "ask" can only use select, models and judge_model together with samples');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ model: 'a', models: ['b'] })))
+        .toThrow('State "ask" cannot have both model and models fields');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ judge_model: 'a' })))
+        .toThrow('State "ask" can only use judge_model when select is "judge"');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ type: 'input', prompt: 'Name?' })))
+        .toThrow('State "ask" can only use samples, select, models and judge_model with prompt type states without steps');
+    });
+  });
+
+  describe('Execution', () => {
+    test('should keep the majority answer, spreading samples over the models', async () => {
+      const generate = scripted({ 'capital of France': ['Paris.', 'Lyon', '**paris**'] });
+
+      const { context } = await run(buildSpec({ models: ['gemma3:4b', 'llama3.2'] }), generate);
+
+      expect(generate.mock.calls.map(call => call[0])).toEqual(['gemma3:4b', 'llama3.2', 'gemma3:4b']);
+      expect(context.answer).toBe('Paris.');
+    });
+
+    test('should compare structured outputs by value', async () => {
+      const schema = { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] };
+      const generate = scripted({ 'capital of France': ['{"city": "Lyon"}', '{"city":"Paris"}', '{ "city": "Paris" }'] });
+
+      const { context } = await run(buildSpec({ output_schema: schema }), generate);
+
+      expect(context.answer).toEqual({ city: 'Paris' });
+    });
+
+    test('should keep the longest answer', async () => {
+      const generate = scripted({ 'capital of France': ['Paris', 'Paris, on the Seine', 'Paris!'] });
+
+      const { context } = await run(buildSpec({ select: 'longest' }), generate);
+
+      expect(context.answer).toBe('Paris, on the Seine');
+    });
+
+    test('should let a judge model pick the best candidate and trace the choice', async () => {
+      const generate = scripted({
+        'Which candidate': ['Candidate 2'],
+        'capital of France': ['Paris', 'Paris, on the Seine', 'Lyon']
+      });
+      const tracer = new Tracer(true);
+
+      const { context } = await run(buildSpec({ select: 'judge', judge_model: 'judge-model' }), generate, tracer);
+
+      const judgeCall = generate.mock.calls[3];
+      expect(judgeCall[0]).toBe('judge-model');
+      expect(judgeCall[1]).toContain('Candidate 2:\nParis, on the Seine');
+      expect(context.answer).toBe('Paris, on the Seine');
+      const traced = tracer.getEvents().find(event => event.type === 'sample_selection');
+      expect(traced.details).toEqual(expect.objectContaining({ state: 'ask', select: 'judge', samples: 3, chosen: 2 }));
+    });
+  });
+
+  describe('Routing with next_options', () => {
+    const routingSpec = (overrides = {}) => buildSpec({
+      prompt: 'Classify the ticket',
+      save_as: undefined,
+      next: undefined,
+      next_options: [
+        { state: 'billing', description: 'Billing questions' },
+        { state: 'support', description: 'Technical problems' }
+      ],
+      on_error: 'triage',
+      ...overrides
+    }, {
+      billing: { type: 'transition', next: 'end' },
+      support: { type: 'transition', next: 'end' },
+      triage: { type: 'transition', next: 'end' }
+    });
+
+    test('should route to the option most samples vote for', async () => {
+      const generate = scripted({
+        'select the most appropriate next step': ['2', '1', 'Option 2'],
+        'Classify the ticket': ['technical', 'technical', 'technical']
+      });
+
+      const { history } = await run(routingSpec(), generate);
+
+      expect(history).toEqual(['ask', 'support']);
+    });
+
+    test('should ask again when the answer is not an option number', async () => {
+      const generate = scripted({
+        'select the most appropriate next step': ['hmm', '2'],
+        'Classify the ticket': ['technical']
+      });
+
+      const { history } = await run(routingSpec({ samples: undefined }), generate);
+
+      expect(generate.mock.calls[2][1]).toContain('Your previous answer was "hmm", which is not a number from 1 to 2');
+      expect(history).toEqual(['ask', 'support']);
+    });
+
+    test('should go to on_error instead of defaulting to the first option', async () => {
+      const generate = scripted({
+        'select the most appropriate next step': ['maybe', 'not sure', 'no idea'],
+        'Classify the ticket': ['technical']
+      });
+
+      const { errors, history } = await run(routingSpec({ samples: undefined }), generate);
+
+      expect(errors).toEqual([
+        'Error in state "ask": Could not select the next state: Model did not answer with a number from 1 to 2 (last answer: "no idea")'
+      ]);
+      expect(history).toEqual(['ask', 'triage']);
+    });
+
+    // Answers the prompt, then gives the queued selection answers in order; an
+    // undefined answer leaves the call pending until it is aborted
+    const hangingSelection = (...answers) => jest.fn((model, prompt, options, images, onToken, signal) => {
+      if (prompt.includes('Classify the ticket')) {
+        return Promise.resolve('technical');
+      }
+      const answer = answers.shift();
+      return answer !== undefined
+        ? Promise.resolve(answer)
+        : new Promise((resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+    });
+
+    test('should limit the selection call with the state\'s timeout_ms', async () => {
+      const { errors, history } = await run(routingSpec({ samples: undefined, timeout_ms: 20 }), hangingSelection());
+
+      expect(errors).toEqual(['Error in state "ask": Could not select the next state: Model call timed out after 20ms']);
+      expect(history).toEqual(['ask', 'triage']);
+    });
+
+    test('should retry the selection call with the state\'s retry policy', async () => {
+      // The first selection call times out, the retry answers
+      const generate = hangingSelection(undefined, '2');
+      const spec = routingSpec({
+        samples: undefined,
+        timeout_ms: 20,
+        retry: { max_attempts: 2, initial_delay_ms: 0, retry_on: ['timeout'] }
+      });
+
+      const { history } = await run(spec, generate);
+
+      expect(generate).toHaveBeenCalledTimes(3);
+      expect(history).toEqual(['ask', 'support']);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+const WorkflowParser = require('../../dist/workflow/parser');
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { runScript } = require('../../dist/utils/script-sandbox');
+const { createExecutor, runToEnd } = require('../helpers/workflow');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+describe('Script State', () => {
+  const buildSpec = (overrides = {}) => ({
+    name: 'Script Test',
+    start_state: 'transform',
+    states: {
+      transform: {
+        type: 'script',
+        script: 'return answer.split(",").map(part => part.trim());',
+        save_as: 'parts',
+        next: 'end',
+        ...overrides
+      }
+    }
+  });
+
+  const run = (spec, inputs = {}) => runToEnd(createExecutor(spec, { inputs }));
+
+  describe('Validation', () => {
+    test('should accept an inline script', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec())).not.toThrow();
+    });
+
+    test('should require script or script_file, but not both', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ script: undefined })))
+        .toThrow('Script state "transform" must have a script or script_file field');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ script_file: 'transform.js' })))
+        .toThrow('Script state "transform" cannot have both script and script_file fields');
+    });
+
+    test('should report syntax errors when the workflow is loaded', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ script: 'return answer.split(' })))
+        .toThrow('Script state "transform": Script has a syntax error');
+    });
+
+    test('should reject script fields on other state types', () => {
+      const spec = buildSpec();
+      spec.states.other = { type: 'prompt', prompt: 'Hi', script: 'return 1;' };
+      expect(() => WorkflowValidator.validateWorkflowSpec(spec))
+        .toThrow('State "other" can only use script and script_file with script type states');
+    });
+
+    test('should read and check script_file relative to the workflow file', () => {
+      const workflowDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentmech-script-'));
+      try {
+        fs.writeFileSync(path.join(workflowDir, 'double.js'), 'return count * 2;');
+        fs.writeFileSync(path.join(workflowDir, 'broken.js'), 'return count *;');
+        const context = { workflowDir, filePath: path.join(workflowDir, 'main.yaml'), visitedFiles: new Set() };
+
+        const workflow = WorkflowParser.parseWorkflowSpec(buildSpec({ script: undefined, script_file: 'double.js' }), context);
+        expect(workflow.states.transform.script).toBe('return count * 2;');
+
+        expect(() => WorkflowParser.parseWorkflowSpec(buildSpec({ script: undefined, script_file: 'broken.js' }), context))
+          .toThrow(/Script file .*broken\.js: Script has a syntax error/);
+      } finally {
+        fs.rmSync(workflowDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Execution', () => {
+    test('should save the return value of the script', async () => {
+      const executor = createExecutor(buildSpec(), { inputs: { answer: 'red, green ,blue' } });
+      const completed = [];
+      executor.on('stateComplete', event => completed.push(event));
+
+      const { context } = await runToEnd(executor);
+
+      expect(context.parts).toEqual(['red', 'green', 'blue']);
+      expect(completed[0].output).toEqual(['red', 'green', 'blue']);
+    });
+
+    test('should give scripts the variables by name and as context', async () => {
+      const spec = buildSpec({ script: 'return { total: context.scores.reduce((a, b) => a + b, 0), label: JSON.parse(meta).label };', save_as: 'result' });
+
+      const { context } = await run(spec, { scores: [3, 4, 5], meta: '{"label":"ok"}' });
+
+      expect(context.result).toEqual({ total: 12, label: 'ok' });
+    });
+
+    test('should not let scripts change the workflow variables', async () => {
+      const spec = buildSpec({ script: 'context.items.push("x"); items.length = 0; return 1;', save_as: 'result' });
+
+      const { context } = await run(spec, { items: ['a'] });
+
+      expect(context.items).toEqual(['a']);
+    });
+
+    test('should fail the state on script errors so on_error applies', async () => {
+      const spec = buildSpec({ script: 'return missing.value;', on_error: 'recover' });
+      spec.states.recover = { type: 'script', script: 'return "recovered";', save_as: 'status', next: 'end' };
+
+      const { errors, context } = await run(spec);
+
+      expect(errors).toEqual(['Error in state "transform": ReferenceError: missing is not defined']);
+      expect(context.status).toBe('recovered');
+    });
+
+    test('should stop scripts that run longer than timeout_ms', async () => {
+      const { status, error } = await run(buildSpec({ script: 'while (true) {}', timeout_ms: 50 }));
+
+      expect(status).toBe('failed');
+      expect(error).toContain('Script execution timed out after 50ms');
+    });
+  });
+
+  describe('Sandbox', () => {
+    test('should not expose require, process or the host\'s Function', () => {
+      expect(runScript('return [typeof require, typeof process, typeof module];', {})).toEqual(['undefined', 'undefined', 'undefined']);
+      expect(() => runScript('return context.constructor.constructor("return process")();', {}))
+        .toThrow('Code generation from strings disallowed');
+      expect(() => runScript('return this.constructor;', {})).toThrow('TypeError: Cannot read properties of undefined');
+    });
+
+    test('should reject promises and results that are not JSON', () => {
+      expect(() => runScript('return Promise.resolve(1);', {})).toThrow('Scripts run synchronously and must not return a promise');
+      expect(() => runScript('return 1n;', {})).toThrow('BigInt');
+    });
+
+    test('should keep built-ins when a variable has the same name', () => {
+      expect(runScript('return JSON.stringify(context.JSON);', { JSON: 'shadow' })).toBe('"shadow"');
+    });
+  });
+});
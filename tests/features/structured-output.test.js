@@ -0,0 +1,168 @@
+const WorkflowParser = require('../../dist/workflow/parser');
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { parseJsonResponse, validateAgainstSchema } = require('../../dist/utils/json-schema');
+const { specFactory, createExecutor, runToEnd, silenceOutput } = require('../helpers/workflow');
+const path = require('path');
+
+describe('Structured Output', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      score: { type: 'integer', minimum: 1, maximum: 10 },
+      tags: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['title', 'score']
+  };
+
+  describe('JSON schema validation', () => {
+    test('should accept matching values', () => {
+      expect(validateAgainstSchema({ title: 'A', score: 5, tags: ['x'] }, schema)).toEqual([]);
+    });
+
+    test('should report errors with paths', () => {
+      expect(validateAgainstSchema({ score: 11, tags: ['x', 2] }, schema)).toEqual([
+        '$: missing required property "title"',
+        '$.score: must be <= 10',
+        '$.tags[1]: expected string but got number'
+      ]);
+    });
+
+    test('should check enum, additionalProperties and string length', () => {
+      const strict = {
+        type: 'object',
+        properties: { verdict: { enum: ['yes', 'no'] }, note: { type: 'string', maxLength: 3 } },
+        additionalProperties: false
+      };
+      expect(validateAgainstSchema({ verdict: 'maybe', note: 'long', extra: 1 }, strict)).toEqual([
+        '$.verdict: must be one of "yes", "no"',
+        '$.note: must be at most 3 characters long',
+        '$: unexpected property "extra"'
+      ]);
+    });
+
+    test('should parse JSON wrapped in a code fence', () => {
+      expect(parseJsonResponse('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+      expect(() => parseJsonResponse('not json')).toThrow('Response is not valid JSON');
+    });
+  });
+
+  describe('Validation', () => {
+    const buildSpec = (state) => ({
+      name: 'Schema Test',
+      start_state: 'ask',
+      states: { ask: { type: 'prompt', prompt: 'Hello', next: 'end', ...state } }
+    });
+
+    test('should accept an inline schema', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ output_schema: schema, repair_attempts: 1 }))).not.toThrow();
+    });
+
+    test('should reject malformed schemas', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ output_schema: { type: 'text' } })))
+        .toThrow('output_schema has invalid type "text"');
+    });
+
+    test('should reject both inline and file schemas', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ output_schema: schema, output_schema_file: 'a.json' })))
+        .toThrow('cannot have both output_schema and output_schema_file fields');
+    });
+
+    test('should reject output_schema on other state types', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ type: 'input', output_schema: schema })))
+        .toThrow('can only use output_schema with prompt type states without steps');
+    });
+
+    test('should reject output_schema, validate and sampling on steps, foreach steps and branches', () => {
+      const step = { prompt: 'Describe it', output_schema: schema };
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ prompt: undefined, next: 'end', steps: [{ prompt: 'Hi' }, step] })))
+        .toThrow('State "ask" step 2 cannot use output_schema. It is only available on prompt type states without steps');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ type: 'foreach', prompt: undefined, items: 'books', steps: [{ prompt: 'Hi', validate: { min_length: 5 } }] })))
+        .toThrow('State "ask" step 1 cannot use validate');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ type: 'parallel', prompt: undefined, branches: [{ prompt: 'Hi' }, { prompt: 'Hi', samples: 3 }] })))
+        .toThrow('State "ask" branch 2 cannot use samples');
+    });
+
+    test('should reject invalid repair_attempts', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ output_schema: schema, repair_attempts: -1 })))
+        .toThrow('repair_attempts must be a non-negative integer');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ repair_attempts: 1 })))
+        .toThrow('can only use repair_attempts together with output_schema');
+    });
+
+    test('should load schemas from a file relative to the workflow', () => {
+      const filePath = path.join(__dirname, '../../examples/structured-output.yaml');
+      const workflow = WorkflowParser.parseFile({ workflowDir: '', filePath, visitedFiles: new Set() });
+
+      expect(workflow.states.review.outputSchema.required).toEqual(['verdict', 'score', 'summary']);
+      expect(workflow.states.describe.repairAttempts).toBe(2);
+    });
+  });
+
+  describe('Execution', () => {
+    silenceOutput();
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    const buildSpec = specFactory({
+      name: 'Schema Test',
+      start_state: 'ask',
+      states: { ask: { type: 'prompt', prompt: 'Describe it', output_schema: schema, save_as: 'result', next: 'end' } }
+    });
+
+    const run = (executor) => runToEnd(executor);
+
+    test('should pass the schema as format and store the parsed object', async () => {
+      const generate = jest.fn().mockResolvedValue('{"title": "Dune", "score": 9}');
+      const executor = createExecutor(buildSpec({ options: { temperature: 0 } }), { generate });
+
+      const { context } = await run(executor);
+
+      expect(generate.mock.calls[0][2]).toEqual({ temperature: 0, format: schema });
+      expect(context.result).toEqual({ title: 'Dune', score: 9 });
+      expect(executor.interpolateVariables('{{result.title}} scored {{result.score}}')).toBe('Dune scored 9');
+    });
+
+    test('should re-prompt with the validation errors', async () => {
+      const generate = jest.fn()
+        .mockResolvedValueOnce('{"title": "Dune"}')
+        .mockResolvedValueOnce('{"title": "Dune", "score": 8}');
+
+      const { context } = await run(createExecutor(buildSpec(), { generate }));
+
+      expect(generate).toHaveBeenCalledTimes(2);
+      const repairPrompt = generate.mock.calls[1][1];
+      expect(repairPrompt).toContain('Describe it');
+      expect(repairPrompt).toContain('$: missing required property "score"');
+      expect(context.result.score).toBe(8);
+    });
+
+    test('should fail with a validation error after the repair attempts', async () => {
+      const generate = jest.fn().mockResolvedValue('no json here');
+
+      const { status, error } = await run(createExecutor(buildSpec({ repair_attempts: 1 }), { generate }));
+
+      expect(status).toBe('failed');
+      expect(error).toContain('Response did not match output_schema: Response is not valid JSON');
+      expect(generate).toHaveBeenCalledTimes(2);
+    });
+
+    test('should let retry policies retry validation failures', async () => {
+      const generate = jest.fn()
+        .mockResolvedValueOnce('{}')
+        .mockResolvedValueOnce('{"title": "Dune", "score": 7}');
+      const spec = {
+        ...buildSpec({ repair_attempts: 0 }),
+        retry: { max_attempts: 2, initial_delay_ms: 0, retry_on: ['validation'] }
+      };
+
+      const { context } = await run(createExecutor(spec, { generate }));
+
+      expect(generate).toHaveBeenCalledTimes(2);
+      expect(generate.mock.calls[1][1]).toBe('Describe it');
+      expect(context.result.title).toBe('Dune');
+    });
+  });
+});
@@ -0,0 +1,130 @@
+const WorkflowParser = require('../../dist/workflow/parser');
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { evaluateExpression, parseExpression } = require('../../dist/workflow/expression');
+const { createExecutor, runToEnd, silenceOutput } = require('../helpers/workflow');
+const path = require('path');
+
+describe('Switch Routing', () => {
+  describe('Expressions', () => {
+    const context = {
+      score: '8',
+      answer: 'Yes, please',
+      tags: ['billing', 'urgent'],
+      result: { title: 'Report', pages: 3 }
+    };
+    const evaluate = (expression) => evaluateExpression(expression, context);
+
+    test('should compare numeric text numerically', () => {
+      expect(evaluate('score > 7')).toBe(true);
+      expect(evaluate('score <= 7')).toBe(false);
+      expect(evaluate('score == 8')).toBe(true);
+      expect(evaluate('score > -1')).toBe(true);
+    });
+
+    test('should compare other values as trimmed text', () => {
+      expect(evaluateExpression('answer == "yes"', { answer: ' yes\n' })).toBe(true);
+      expect(evaluate("answer != 'no'")).toBe(true);
+    });
+
+    test('should support contains, matches and length', () => {
+      expect(evaluate('contains(answer, "Yes")')).toBe(true);
+      expect(evaluate('contains(tags, "urgent")')).toBe(true);
+      expect(evaluate('matches(answer, /^yes/i)')).toBe(true);
+      expect(evaluate('matches(answer, "^no")')).toBe(false);
+      expect(evaluate('length(tags) == 2')).toBe(true);
+    });
+
+    test('should resolve dotted paths', () => {
+      expect(evaluate('result.pages >= 3 && result.title == "Report"')).toBe(true);
+      expect(evaluate('tags.0 == "billing"')).toBe(true);
+      expect(evaluate('missing.value == null')).toBe(true);
+    });
+
+    test('should support logical operators and parentheses', () => {
+      expect(evaluate('!(score > 9) and (answer == "x" or contains(answer, "please"))')).toBe(true);
+      expect(evaluate('not contains(tags, "sales")')).toBe(true);
+      expect(evaluate('missing')).toBe(false);
+    });
+
+    test('should reject invalid expressions', () => {
+      expect(() => parseExpression('score >')).toThrow('unexpected end of expression');
+      expect(() => parseExpression('eval("1")')).toThrow('unknown function "eval"');
+      expect(() => parseExpression('score = 1')).toThrow('unexpected character "="');
+      expect(() => parseExpression('contains(answer)')).toThrow('expects 2 argument(s) but got 1');
+      expect(() => parseExpression('"open')).toThrow('unterminated string');
+    });
+  });
+
+  describe('Validation', () => {
+    const buildSpec = (switchCases, extra = {}) => ({
+      name: 'Switch Test',
+      start_state: 'score',
+      states: {
+        score: {
+          type: 'prompt',
+          prompt: 'Rate it',
+          save_as: 'rating',
+          switch: switchCases,
+          next: 'low',
+          ...extra
+        },
+        high: { type: 'prompt', prompt: 'High', next: 'end' },
+        low: { type: 'prompt', prompt: 'Low', next: 'end' }
+      }
+    });
+
+    test('should accept valid cases', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec([{ when: 'rating > 7', next: 'high' }]))).not.toThrow();
+    });
+
+    test('should reject non-existent targets', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec([{ when: 'rating > 7', next: 'missing' }])))
+        .toThrow('switch references non-existent state "missing"');
+    });
+
+    test('should reject invalid expressions', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec([{ when: 'rating >', next: 'high' }])))
+        .toThrow('switch case 1 has an invalid expression "rating >"');
+    });
+
+    test('should require when and next', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec([{ next: 'high' }])))
+        .toThrow("switch case 1 must have a non-empty 'when' expression");
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec([{ when: 'true' }])))
+        .toThrow("switch case 1 must have a non-empty 'next' field");
+    });
+
+    test('should reject combining switch with next_options', () => {
+      const spec = buildSpec([{ when: 'true', next: 'high' }], {
+        next: undefined,
+        next_options: [{ state: 'high', description: 'High' }, { state: 'low', description: 'Low' }]
+      });
+      expect(() => WorkflowValidator.validateWorkflowSpec(spec))
+        .toThrow("cannot have both 'switch' and 'next_options' fields");
+    });
+  });
+
+  describe('Execution', () => {
+    silenceOutput();
+
+    // Runs the example with the ticket given as an input, so get_ticket does not ask for it
+    const route = async (ticket, response) => {
+      const filePath = path.join(__dirname, '../../examples/switch-routing.yaml');
+      const workflow = WorkflowParser.parseFile({ workflowDir: '', filePath, visitedFiles: new Set() });
+      const { history } = await runToEnd(createExecutor(workflow, { generate: async () => response, inputs: { ticket } }));
+      return history[history.indexOf('score_urgency') + 1];
+    };
+
+    test('should take the first matching case', async () => {
+      expect(await route('Please refund me', '9')).toBe('escalate');
+    });
+
+    test('should check cases in order', async () => {
+      expect(await route('I need a REFUND', '3')).toBe('billing');
+    });
+
+    test('should fall back to next when no case matches', async () => {
+      expect(await route('The app is slow', '3')).toBe('standard_reply');
+    });
+  });
+});
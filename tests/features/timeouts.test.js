@@ -0,0 +1,167 @@
+const http = require('http');
+const OllamaClient = require('../../dist/ollama/ollama-client');
+const { WorkflowValidator } = require('../../dist/workflow/validator');
+const { createExecutor, runToEnd, silenceOutput } = require('../helpers/workflow');
+
+describe('Timeouts and Cancellation', () => {
+  describe('OllamaClient', () => {
+    let server;
+    let baseUrl;
+    let handler;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => handler(req, res));
+      await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${server.address().port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    test('should resolve a stream that ends with an empty response and no done signal', async () => {
+      handler = (req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        res.end('{"response":""}\n');
+      };
+      const client = new OllamaClient(baseUrl);
+      const onToken = jest.fn();
+
+      await expect(client.generate('m', 'hi', {}, undefined, onToken)).resolves.toBe('');
+      expect(onToken).not.toHaveBeenCalled();
+    });
+
+    test('should stream tokens until done', async () => {
+      handler = (req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        res.write('{"message":{"content":"Hel"}}\n');
+        res.end('{"message":{"content":"lo"},"done":true}\n');
+      };
+      const client = new OllamaClient(baseUrl);
+      const tokens = [];
+
+      await expect(client.chat('m', [{ role: 'user', content: 'hi' }], {}, token => tokens.push(token))).resolves.toBe('Hello');
+      expect(tokens).toEqual(['Hel', 'lo']);
+    });
+
+    test('should abort a pending request with the signal reason', async () => {
+      handler = () => {};
+      const client = new OllamaClient(baseUrl);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(new Error('took too long')), 20);
+
+      await expect(client.generate('m', 'hi', {}, undefined, undefined, controller.signal)).rejects.toThrow('took too long');
+    });
+
+    test('should abort a stream that is in progress', async () => {
+      handler = (req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        res.write('{"response":"partial"}\n');
+      };
+      const client = new OllamaClient(baseUrl);
+      const controller = new AbortController();
+      const onToken = jest.fn(() => controller.abort(new Error('stopped')));
+
+      await expect(client.generate('m', 'hi', {}, undefined, onToken, controller.signal)).rejects.toThrow('stopped');
+      expect(onToken).toHaveBeenCalledWith('partial');
+    });
+  });
+
+  describe('Validation', () => {
+    const buildSpec = (state, workflow = {}) => ({
+      name: 'Timeout Test',
+      start_state: 'ask',
+      states: { ask: { type: 'prompt', prompt: 'Hello', next: 'end', ...state } },
+      ...workflow
+    });
+
+    test('should accept positive integers at state and workflow level', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ timeout_ms: 500 }, { timeout_ms: 60000 }))).not.toThrow();
+    });
+
+    test('should reject invalid values', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ timeout_ms: 0 })))
+        .toThrow('State "ask" timeout_ms must be a positive integer');
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({}, { timeout_ms: '5s' })))
+        .toThrow('Workflow timeout_ms must be a positive integer');
+    });
+
+    test('should reject timeout_ms on states that do not call the model', () => {
+      expect(() => WorkflowValidator.validateWorkflowSpec(buildSpec({ type: 'input', timeout_ms: 100 })))
+        .toThrow('can only use timeout_ms with prompt, parallel, foreach, map_reduce, script, command, http and approval type states');
+    });
+  });
+
+  describe('WorkflowExecutor', () => {
+    silenceOutput();
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    // Never answers on its own; settles only when the request is aborted
+    const hangingGenerate = (model, prompt, options, images, onToken, signal) =>
+      new Promise((resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+
+    const buildSpec = (spec) => ({
+      name: 'Timeout Test',
+      start_state: 'ask',
+      states: {
+        ask: { type: 'prompt', prompt: 'Hello', save_as: 'answer', next: 'end' },
+        fallback: { type: 'transition', next: 'end' }
+      },
+      ...spec
+    });
+
+    test('should fail the state when the workflow-level timeout fires', async () => {
+      const generate = jest.fn(hangingGenerate);
+
+      const { status, error } = await runToEnd(createExecutor(buildSpec({ timeout_ms: 20 }), { generate }));
+
+      expect(status).toBe('failed');
+      expect(error).toContain('Model call timed out after 20ms');
+      expect(generate.mock.calls[0][5].aborted).toBe(true);
+    });
+
+    test('should route a timed out state to on_error', async () => {
+      const spec = buildSpec({
+        states: {
+          ask: { type: 'prompt', prompt: 'Hello', timeout_ms: 20, on_error: 'fallback', next: 'end' },
+          fallback: { type: 'transition', next: 'end' }
+        }
+      });
+
+      const { history } = await runToEnd(createExecutor(spec, { generate: hangingGenerate }));
+
+      expect(history).toEqual(['ask', 'fallback']);
+    });
+
+    test('should let a retry policy retry timeouts', async () => {
+      const generate = jest.fn()
+        .mockImplementationOnce(hangingGenerate)
+        .mockResolvedValueOnce('second try');
+      const spec = buildSpec({
+        timeout_ms: 20,
+        retry: { max_attempts: 2, initial_delay_ms: 0, retry_on: ['timeout'] }
+      });
+
+      const { context } = await runToEnd(createExecutor(spec, { generate }));
+
+      expect(generate).toHaveBeenCalledTimes(2);
+      expect(context.answer).toBe('second try');
+    });
+
+    test('should abort the in-flight request when stopped', async () => {
+      const generate = jest.fn(hangingGenerate);
+      const executor = createExecutor(buildSpec(), { generate });
+      executor.on('stateStart', () => setTimeout(() => executor.stop(), 10));
+
+      const { status } = await runToEnd(executor);
+
+      expect(status).toBe('stopped');
+      expect(generate.mock.calls[0][5].reason.message).toBe('Workflow stopped by user');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+const WorkflowParser = require('../../dist/workflow/parser');
+const {
+  resolveInputs,
+  findMissingInputs,
+  parseVarAssignments,
+  readInputsFile
+} = require('../../dist/utils/workflow-inputs');
+const { createExecutor, runToEnd } = require('../helpers/workflow');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+const yaml = require('js-yaml');
+
+describe('Workflow Inputs', () => {
+  let workflowDir;
+
+  const parse = (spec) => WorkflowParser.parseWorkflowSpec(spec, {
+    workflowDir,
+    filePath: path.join(workflowDir, 'main.yaml'),
+    visitedFiles: new Set()
+  });
+
+  const withInputs = (inputs) => ({
+    name: 'Report',
+    start_state: 'write',
+    default_model: 'test-model',
+    inputs,
+    states: {
+      write: { type: 'prompt', prompt: 'Write {{words}} words about {{topic}}', save_as: 'report', next: 'end' }
+    }
+  });
+
+  beforeEach(() => {
+    workflowDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentmech-inputs-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(workflowDir, { recursive: true, force: true });
+  });
+
+  test('should convert values to their declared types and apply defaults', () => {
+    fs.writeFileSync(path.join(workflowDir, 'notes.txt'), 'Meeting notes');
+    const workflow = parse(withInputs({
+      topic: { type: 'string', required: true },
+      words: { type: 'number', default: 200 },
+      formal: { type: 'boolean' },
+      tone: { type: 'enum', values: ['friendly', 'neutral'], default: 'neutral' },
+      outline: { type: 'json' },
+      notes: { type: 'file', default: 'notes.txt' }
+    }));
+
+    const values = resolveInputs(workflow.inputs, { topic: 'tides', words: '150', formal: 'yes', outline: '["intro", "end"]' });
+
+    expect(values).toEqual({
+      topic: 'tides',
+      words: 150,
+      formal: true,
+      tone: 'neutral',
+      outline: ['intro', 'end'],
+      notes: 'Meeting notes'
+    });
+  });
+
+  test('should report every missing, unknown and invalid input at once', () => {
+    const workflow = parse(withInputs({
+      topic: { required: true, description: 'Subject of the report' },
+      words: { type: 'number' },
+      tone: { type: 'enum', values: ['friendly', 'neutral'] }
+    }));
+
+    let message;
+    try {
+      resolveInputs(workflow.inputs, { words: 'many', tone: 'angry', colour: 'red' });
+    } catch (error) {
+      message = error.message;
+    }
+
+    expect(message).toContain('Unknown input "colour". Declared inputs: topic, words, tone');
+    expect(message).toContain('Missing required input "topic" (Subject of the report)');
+    expect(message).toContain('Input "words" must be a number, got "many"');
+    expect(message).toContain('Input "tone" must be one of friendly, neutral, got "angry"');
+    expect(findMissingInputs(workflow.inputs, {})).toEqual(['topic']);
+  });
+
+  test('should read file inputs relative to a directory, or take them as contents', () => {
+    fs.writeFileSync(path.join(workflowDir, 'data.csv'), 'a,b');
+    const definitions = { data: { type: 'file', required: true } };
+
+    expect(resolveInputs(definitions, { data: 'data.csv' }, { fileBaseDir: workflowDir })).toEqual({ data: 'a,b' });
+    expect(resolveInputs(definitions, { data: 'x,y' })).toEqual({ data: 'x,y' });
+    expect(() => resolveInputs(definitions, { data: 'missing.csv' }, { fileBaseDir: workflowDir }))
+      .toThrow('Input "data" file not found');
+  });
+
+  test('should pass values through when the workflow declares no inputs', () => {
+    expect(resolveInputs(undefined, { topic: 'tides' })).toEqual({ topic: 'tides' });
+  });
+
+  test('should parse --var assignments and inputs files', () => {
+    expect(parseVarAssignments(['topic=solar power', 'query=a=b', 'topic=wind'])).toEqual({ topic: 'wind', query: 'a=b' });
+    expect(() => parseVarAssignments(['topic'])).toThrow('Invalid --var "topic". Use --var key=value');
+
+    const inputsFile = path.join(workflowDir, 'inputs.json');
+    fs.writeFileSync(inputsFile, JSON.stringify({ topic: 'tides', words: 100 }));
+    expect(readInputsFile(inputsFile)).toEqual({ topic: 'tides', words: 100 });
+
+    fs.writeFileSync(inputsFile, '["tides"]');
+    expect(() => readInputsFile(inputsFile)).toThrow('must contain a JSON object');
+    expect(() => readInputsFile(path.join(workflowDir, 'missing.json'))).toThrow('Inputs file not found');
+  });
+
+  test('should reject invalid input declarations', () => {
+    expect(() => parse(withInputs({ topic: { type: 'text' } }))).toThrow('Input "topic" has invalid type "text"');
+    expect(() => parse(withInputs({ tone: { type: 'enum' } }))).toThrow('must have a non-empty "values" list');
+    expect(() => parse(withInputs({ topic: { values: ['a'] } }))).toThrow('can only have "values" when its type is enum');
+    expect(() => parse(withInputs({ words: { type: 'number', default: 'lots' } }))).toThrow('Input "words" must be a number');
+    expect(() => parse(withInputs({ 'my-topic': {} }))).toThrow('Input "my-topic" has invalid name');
+  });
+
+  test('should make inputs available to prompts', async () => {
+    const workflow = parse(withInputs({ topic: { required: true }, words: { type: 'number', default: 50 } }));
+    const generate = jest.fn(async () => 'A report');
+
+    await runToEnd(createExecutor(workflow, { generate, inputs: resolveInputs(workflow.inputs, { topic: 'tides' }) }));
+
+    expect(generate.mock.calls[0][1]).toBe('Write 50 words about tides');
+  });
+
+  test('should check call state inputs against the called workflow', async () => {
+    fs.writeFileSync(path.join(workflowDir, 'report.yaml'), yaml.dump(withInputs({
+      topic: { required: true },
+      words: { type: 'number', default: 50 }
+    })));
+    const callWith = (inputs) => parse({
+      name: 'Main',
+      start_state: 'report',
+      states: {
+        report: { type: 'call', workflow: 'report.yaml', inputs, outputs: { result: 'report' }, next: 'end' }
+      }
+    });
+
+    const generate = jest.fn(async () => 'A report');
+    await runToEnd(createExecutor(callWith({ topic: 'tides', words: '10' }), { generate }));
+    expect(generate.mock.calls[0][1]).toBe('Write 10 words about tides');
+
+    const { error } = await runToEnd(createExecutor(callWith({ words: 10 }), { generate }));
+    expect(error).toContain('Missing required input "topic"');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Shared fixtures for tests that parse and run workflows
+ */
+const WorkflowParser = require('../../dist/workflow/parser');
+const WorkflowExecutor = require('../../dist/workflow/executor');
+
+/**
+ * Parse a workflow spec as written in YAML
+ * @param spec - Workflow spec
+ * @param workflowDir - Directory that relative paths in the spec are resolved against
+ * @returns Parsed workflow
+ */
+function parseSpec(spec, workflowDir = '') {
+  return WorkflowParser.parseWorkflowSpec(spec, { workflowDir, filePath: '', visitedFiles: new Set() });
+}
+
+/**
+ * Make a function that builds variants of a workflow spec: its first argument
+ * overrides fields of the start state, its second adds or replaces states
+ * @param base - Workflow spec to start from
+ * @returns Spec builder
+ */
+function specFactory(base) {
+  return (overrides = {}, extraStates = {}) => ({
+    ...base,
+    states: {
+      ...base.states,
+      [base.start_state]: { ...base.states[base.start_state], ...overrides },
+      ...extraStates
+    }
+  });
+}
+
+/**
+ * A stand-in for the Ollama client. generate, chat and chatWithTools are jest
+ * mocks calling the given implementations, and every call that completes
+ * reports `usage` tokens, as the real client does with Ollama's counts.
+ * @param methods - Implementations of generate, chat and chatWithTools
+ * @param usage - Tokens reported for each completed call
+ * @returns Fake client
+ */
+function fakeOllamaClient(methods = {}, usage = { promptTokens: 0, completionTokens: 0 }) {
+  let onUsage;
+  const counted = (implementation) => jest.fn(async (...args) => {
+    const result = await implementation(...args);
+    onUsage?.(usage);
+    return result;
+  });
+
+  return {
+    generate: counted(methods.generate || (async () => '')),
+    chat: counted(methods.chat || (async () => '')),
+    chatWithTools: counted(methods.chatWithTools || (async () => ({ role: 'assistant', content: '' }))),
+    onUsage: callback => { onUsage = callback; }
+  };
+}
+
+/**
+ * Create an executor that sends model calls to a fake client
+ * @param specOrWorkflow - Workflow spec, or an already parsed workflow
+ * @param options - generate (or a whole client), inputs, tracer, runDirectory and workflowDir
+ * @returns Executor
+ */
+function createExecutor(specOrWorkflow, options = {}) {
+  const workflow = 'start_state' in specOrWorkflow ? parseSpec(specOrWorkflow, options.workflowDir) : specOrWorkflow;
+  const client = options.client || fakeOllamaClient({ generate: options.generate });
+  const executor = new WorkflowExecutor(workflow, 'http://localhost:11434', options.tracer, options.runDirectory, client);
+  if (options.inputs) {
+    executor.setInputs(options.inputs);
+  }
+  return executor;
+}
+
+/**
+ * Run an executor until the workflow ends, without throwing when it fails
+ * @param executor - Executor to run
+ * @returns The workflowEnd event (status, context, history, error, reason) and the messages of error events
+ */
+async function runToEnd(executor) {
+  let end;
+  const errors = [];
+  executor.on('workflowEnd', event => { end = event; });
+  executor.on('error', event => errors.push(event.message));
+  try {
+    await executor.execute();
+  } catch (error) {
+    // The failure is reported by the workflowEnd event
+  }
+  return { ...end, errors };
+}
+
+/**
+ * Hide console.log and streamed output for each test of the enclosing describe block
+ */
+function silenceOutput() {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+}
+
+module.exports = { parseSpec, specFactory, fakeOllamaClient, createExecutor, runToEnd, silenceOutput };